@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcrypt';
+import { BUILT_IN_SERVICE_CONFIGS } from '../src/automation/service-defaults.js';
 
 const prisma = new PrismaClient();
 
@@ -46,66 +47,37 @@ async function main() {
             name: 'OLX.pl',
             baseUrl: 'https://www.olx.pl',
             logoUrl: 'https://upload.wikimedia.org/wikipedia/commons/thumb/6/66/OLX_logo.svg/200px-OLX_logo.svg.png',
-            defaultConfig: {
-                searchUrlPattern: '/motoryzacja/samochody/?search[filter_float_price:from]={{priceMin}}&search[filter_float_price:to]={{priceMax}}&search[dist]=100',
-                listingSelector: '[data-cy="l-card"]',
-                titleSelector: 'h6',
-                priceSelector: '[data-testid="ad-price"]',
-            },
+            defaultConfig: BUILT_IN_SERVICE_CONFIGS.olx,
         },
         {
             name: 'OTOMOTO',
             baseUrl: 'https://www.otomoto.pl',
             logoUrl: 'https://upload.wikimedia.org/wikipedia/commons/thumb/8/8d/OTOMOTO_logo.svg/200px-OTOMOTO_logo.svg.png',
-            defaultConfig: {
-                searchUrlPattern: '/osobowe?search[filter_float_price:from]={{priceMin}}&search[filter_float_price:to]={{priceMax}}',
-                listingSelector: '[data-testid="listing-ad"]',
-                titleSelector: 'h1',
-                priceSelector: '[data-testid="ad-price"]',
-            },
+            defaultConfig: BUILT_IN_SERVICE_CONFIGS.otomoto,
         },
         {
             name: 'Allegro Motoryzacja',
             baseUrl: 'https://allegro.pl/kategoria/samochody-osobowe-4029',
             logoUrl: 'https://upload.wikimedia.org/wikipedia/commons/thumb/2/2e/Allegro_logo.svg/200px-Allegro_logo.svg.png',
-            defaultConfig: {
-                searchUrlPattern: '?price_from={{priceMin}}&price_to={{priceMax}}',
-                listingSelector: '[data-role="offer"]',
-                titleSelector: 'h2',
-                priceSelector: '[data-testid="price"]',
-            },
+            defaultConfig: BUILT_IN_SERVICE_CONFIGS.allegro,
         },
         {
             name: 'Facebook Marketplace',
             baseUrl: 'https://www.facebook.com/marketplace/category/vehicles',
             logoUrl: 'https://upload.wikimedia.org/wikipedia/commons/thumb/b/be/Facebook_Messenger_logo_2020.svg/200px-Facebook_Messenger_logo_2020.svg.png',
-            defaultConfig: {
-                requiresLogin: true,
-                searchUrlPattern: '/?minPrice={{priceMin}}&maxPrice={{priceMax}}',
-                listingSelector: '[data-testid="marketplace-feed-item"]',
-            },
+            defaultConfig: BUILT_IN_SERVICE_CONFIGS.facebookmarketplace,
         },
         {
             name: 'Sprzedajemy.pl',
             baseUrl: 'https://sprzedajemy.pl',
             logoUrl: null,
-            defaultConfig: {
-                searchUrlPattern: '/motoryzacja/samochody-osobowe/?inp_cena_od={{priceMin}}&inp_cena_do={{priceMax}}',
-                listingSelector: '.offer',
-                titleSelector: '.title',
-                priceSelector: '.price',
-            },
+            defaultConfig: BUILT_IN_SERVICE_CONFIGS.sprzedajemy,
         },
         {
             name: 'Autoplac.pl',
             baseUrl: 'https://www.autoplac.pl',
             logoUrl: null,
-            defaultConfig: {
-                searchUrlPattern: '/samochody-osobowe/?cena_od={{priceMin}}&cena_do={{priceMax}}',
-                listingSelector: '.offer-item',
-                titleSelector: '.offer-title',
-                priceSelector: '.offer-price',
-            },
+            defaultConfig: BUILT_IN_SERVICE_CONFIGS.autoplac,
         },
     ];
 
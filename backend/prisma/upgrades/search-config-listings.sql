@@ -0,0 +1,43 @@
+-- Listings used to belong to one search config (listings.search_config_id, listings.is_ad);
+-- matches now live in search_config_listings. Copies every old match, with its ad flag, before
+-- the schema update drops those columns. Run once against the old schema:
+--   psql "$DATABASE_URL" -f prisma/upgrades/search-config-listings.sql
+-- Running it again, or on a database without the old columns, changes nothing.
+
+CREATE TABLE IF NOT EXISTS "search_config_listings" (
+    "id" TEXT NOT NULL,
+    "search_config_id" TEXT NOT NULL,
+    "listing_id" TEXT NOT NULL,
+    "is_ad" BOOLEAN NOT NULL DEFAULT false,
+    "marked_success_at" TIMESTAMP(3),
+    "missed_runs" INTEGER NOT NULL DEFAULT 0,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "matched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "search_config_listings_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "search_config_listings_search_config_id_fkey" FOREIGN KEY ("search_config_id")
+        REFERENCES "search_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "search_config_listings_listing_id_fkey" FOREIGN KEY ("listing_id")
+        REFERENCES "listings"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "search_config_listings_search_config_id_listing_id_key"
+    ON "search_config_listings"("search_config_id", "listing_id");
+CREATE INDEX IF NOT EXISTS "search_config_listings_listing_id_idx"
+    ON "search_config_listings"("listing_id");
+CREATE INDEX IF NOT EXISTS "search_config_listings_search_config_id_matched_at_idx"
+    ON "search_config_listings"("search_config_id", "matched_at");
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'listings' AND column_name = 'search_config_id'
+    ) THEN
+        -- The config found the listing when it was detected
+        INSERT INTO "search_config_listings" ("id", "search_config_id", "listing_id", "is_ad", "matched_at")
+        SELECT gen_random_uuid()::text, "search_config_id", "id", "is_ad", "detected_at"
+        FROM "listings"
+        ON CONFLICT ("search_config_id", "listing_id") DO NOTHING;
+    END IF;
+END $$;
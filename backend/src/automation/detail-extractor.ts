@@ -0,0 +1,126 @@
+// @ts-nocheck - Uses Playwright DOM types
+import { Page } from 'playwright';
+import { logger } from '../utils/logger.js';
+import type { DetailExtractorConfig } from '../schemas/index.js';
+
+export interface ExtractedListingDetails {
+    description: string | null;
+    images: string[];
+    mileage: number | null;
+    year: number | null;
+    fuelType: string | null;
+    gearbox: string | null;
+    vin: string | null;
+    sellerType: string | null;
+}
+
+type FieldConfig = { selector: string; attribute?: string; regex?: string };
+
+const MAX_GALLERY_IMAGES = 30;
+
+/**
+ * Extract structured data from a listing detail page
+ * @param page Playwright page object (already on the detail page)
+ * @param config Detail selectors from the service config
+ * @param serviceName Name of the service, used for logging
+ * @returns Extracted details, or null when the service has no detail config
+ */
+export async function extractListingDetails(
+    page: Page,
+    config: DetailExtractorConfig | undefined,
+    serviceName: string
+): Promise<ExtractedListingDetails | null> {
+    if (!config) {
+        logger.debug(`No detail extractor config for service: ${serviceName}`);
+        return null;
+    }
+
+    const { fields } = config;
+
+    const [description, images, mileage, year, fuelType, gearbox, vin, sellerType] = await Promise.all([
+        readField(page, fields.description),
+        readAllAttributes(page, fields.images),
+        readField(page, fields.mileage),
+        readField(page, fields.year),
+        readField(page, fields.fuelType),
+        readField(page, fields.gearbox),
+        readField(page, fields.vin),
+        readField(page, fields.sellerType),
+    ]);
+
+    return {
+        description,
+        images,
+        mileage: parseInteger(mileage),
+        year: parseYear(year),
+        fuelType,
+        gearbox,
+        vin: vin ? vin.replace(/\s/g, '').toUpperCase() : null,
+        sellerType,
+    };
+}
+
+/**
+ * Read the first match of a field, applying its regex (first capture group) if set
+ */
+async function readField(page: Page, field: FieldConfig | undefined): Promise<string | null> {
+    if (!field) return null;
+
+    try {
+        const el = await page.$(field.selector);
+        if (!el) return null;
+
+        let value = field.attribute
+            ? await el.getAttribute(field.attribute)
+            : await el.textContent();
+
+        if (value && field.regex) {
+            const match = value.match(new RegExp(field.regex));
+            value = match ? (match[1] ?? match[0]) : null;
+        }
+
+        return value?.replace(/\s+/g, ' ').trim() || null;
+    } catch (error) {
+        logger.debug(`Failed to read detail field ${field.selector}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Read an attribute from every match (image gallery), de-duplicated in page order
+ */
+async function readAllAttributes(page: Page, field: FieldConfig | undefined): Promise<string[]> {
+    if (!field) return [];
+
+    try {
+        const values: string[] = [];
+        for (const el of await page.$$(field.selector)) {
+            const value = await el.getAttribute(field.attribute);
+            if (value && !values.includes(value)) values.push(value);
+            if (values.length >= MAX_GALLERY_IMAGES) break;
+        }
+        return values;
+    } catch (error) {
+        logger.debug(`Failed to read detail images ${field.selector}:`, error);
+        return [];
+    }
+}
+
+/**
+ * "187 000 km" -> 187000
+ */
+export function parseInteger(value: string | null): number | null {
+    if (!value) return null;
+    const digits = value.replace(/[^\d]/g, '');
+    if (!digits) return null;
+    const number = parseInt(digits, 10);
+    return Number.isSafeInteger(number) ? number : null;
+}
+
+/**
+ * "Rok produkcji: 2015" -> 2015
+ */
+export function parseYear(value: string | null): number | null {
+    const match = value?.match(/(19|20)\d{2}/);
+    return match ? parseInt(match[0], 10) : null;
+}
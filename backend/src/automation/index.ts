@@ -1,4 +1,20 @@
-export { playwrightManager } from './playwright-manager.js';
-export { WorkflowExecutor, getWorkflowById } from './workflow-executor.js';
-export { extractListings } from './listing-extractor.js';
+export { playwrightManager, BrowserPoolTimeoutError, type BrowserSession } from './playwright-manager.js';
+export { WorkflowExecutor, getWorkflowById, getWorkflowByName, getServiceSearchWorkflow, getServiceLoginWorkflow } from './workflow-executor.js';
+export { evaluateCondition, type WorkflowCondition } from './workflow-conditions.js';
+export { StepValidationError, type StepValidationRules, type StepValidationFailure } from './workflow-validation.js';
+export { extractListings, type ExtractedListing, type ListingExtraction } from './listing-extractor.js';
 export { extractPhoneFromDetailPage, supportsPhoneExtraction } from './phone-extractor.js';
+export { extractListingDetails, type ExtractedListingDetails } from './detail-extractor.js';
+export { isListingRemoved } from './removal-detector.js';
+export { handleCookieConsent, randomDelay } from './page-utils.js';
+export { ensureLoggedIn, isLoggedIn, LoginFailedError, type LoginTarget } from './service-login.js';
+export {
+    getVehicleFilters,
+    filterListings,
+    normalizeFuelType,
+    normalizeGearbox,
+    type VehicleFilterKey,
+} from './search-filters.js';
+export { buildSearchUrl, getSearchUrlVariables, DEFAULT_SEARCH_URL_PATTERN, type SearchUrlVariables } from './search-url.js';
+export { loadServiceConfig, resolveServiceConfig } from './service-config.js';
+export { BUILT_IN_SERVICE_CONFIGS, getServiceKey } from './service-defaults.js';
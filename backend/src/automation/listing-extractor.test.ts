@@ -0,0 +1,110 @@
+import type { Page } from 'playwright';
+import type { ListingExtractorConfig, PaginationConfig } from '../schemas/index.js';
+import { extractListingsWithConfig } from './listing-extractor.js';
+
+/**
+ * Playwright page stand-in showing results pages with the given numbers of listing cards
+ * The next button exists while a further page does; navigation runs `navigate` first, which may reject.
+ */
+function createResultsPage(pageSizes: number[], navigate: () => Promise<void> = async () => {}) {
+    let current = 0;
+
+    const field = (value: string) => ({ textContent: async () => value, getAttribute: async () => value });
+    const card = (id: string) => ({
+        $: async (selector: string) => ({
+            h2: field(`VW Golf ${id}`),
+            '.price': field('30 000 zł'),
+            a: field(`https://www.otomoto.pl/oferta/${id}`),
+        })[selector] ?? null,
+    });
+    const goTo = async (index: number) => {
+        await navigate();
+        current = index;
+    };
+
+    return {
+        waitForSelector: async () => {
+            if (pageSizes[current] === 0) throw new Error('Timeout 10000ms exceeded');
+        },
+        $$: async () => Array.from({ length: pageSizes[current] }, (_, i) => card(`p${current + 1}-${i + 1}`)),
+        $: async (selector: string) => selector === '.next' && current < pageSizes.length - 1
+            ? { click: () => goTo(current + 1) }
+            : null,
+        url: () => `https://www.otomoto.pl/osobowe?page=${current + 1}`,
+        goto: (url: string) => goTo(Number(new URL(url).searchParams.get('page')) - 1),
+        waitForLoadState: async () => {},
+        waitForTimeout: async () => {},
+    } as unknown as Page;
+}
+
+function extractorConfig(pagination: Partial<PaginationConfig> = {}): ListingExtractorConfig {
+    return {
+        containerSelector: 'article',
+        fields: {
+            title: { selector: 'h2' },
+            price: { selector: '.price' },
+            link: { selector: 'a', attribute: 'href' },
+        },
+        pagination: { type: 'nextSelector', nextSelector: '.next', maxPages: 3, delayMs: 0, ...pagination },
+    } as ListingExtractorConfig;
+}
+
+describe('extractListingsWithConfig', () => {
+    it('is complete when the results end before maxPages', async () => {
+        const { listings, complete } = await extractListingsWithConfig(createResultsPage([3, 2]), extractorConfig(), 'otomoto');
+
+        expect(listings.map(listing => listing.externalId)).toEqual(['p1-1', 'p1-2', 'p1-3', 'p2-1', 'p2-2']);
+        expect(complete).toBe(true);
+    });
+
+    it('is complete when a page loaded by URL has no listings', async () => {
+        const { listings, complete } = await extractListingsWithConfig(
+            createResultsPage([3, 0]),
+            extractorConfig({ type: 'urlParam', nextSelector: undefined }),
+            'otomoto'
+        );
+
+        expect(listings).toHaveLength(3);
+        expect(complete).toBe(true);
+    });
+
+    it('is incomplete when maxPages stops pagination with a next page left', async () => {
+        const { listings, complete } = await extractListingsWithConfig(
+            createResultsPage([3, 2, 2]),
+            extractorConfig({ maxPages: 2 }),
+            'otomoto'
+        );
+
+        expect(listings).toHaveLength(5);
+        expect(complete).toBe(false);
+    });
+
+    it('is incomplete when moving to the next page fails', async () => {
+        const page = createResultsPage([3, 2], () => Promise.reject(new Error('Element is not attached to the DOM')));
+
+        const { listings, complete } = await extractListingsWithConfig(page, extractorConfig(), 'otomoto');
+
+        expect(listings).toHaveLength(3);
+        expect(complete).toBe(false);
+    });
+
+    it('is incomplete when loading the next page times out', async () => {
+        const page = createResultsPage([3, 2], () => Promise.reject(new Error('page.goto: Timeout 30000ms exceeded')));
+
+        const { listings, complete } = await extractListingsWithConfig(
+            page,
+            extractorConfig({ type: 'urlParam', nextSelector: undefined }),
+            'otomoto'
+        );
+
+        expect(listings).toHaveLength(3);
+        expect(complete).toBe(false);
+    });
+
+    it('is incomplete when a page has more listings than are read from it', async () => {
+        const { listings, complete } = await extractListingsWithConfig(createResultsPage([60]), extractorConfig(), 'otomoto');
+
+        expect(listings).toHaveLength(50);
+        expect(complete).toBe(false);
+    });
+});
@@ -1,8 +1,10 @@
 // @ts-nocheck - Uses Playwright DOM types
 import { Page } from 'playwright';
 import { logger } from '../utils/logger.js';
+import type { ListingExtractorConfig, ServiceConfig } from '../schemas/index.js';
+import { parseInteger, parseYear } from './detail-extractor.js';
 
-interface ExtractedListing {
+export interface ExtractedListing {
     externalId: string;
     title: string;
     description: string | null;
@@ -12,123 +14,210 @@ interface ExtractedListing {
     phone: string | null;
     listingUrl: string;
     images: string[];
+    // Only set when the service config has card selectors for them
+    year?: number | null;
+    mileage?: number | null;
+    fuelType?: string | null;
+    gearbox?: string | null;
 }
 
-interface ListingExtractorConfig {
-    containerSelector: string;
-    fields: {
-        title: { selector: string; attribute?: string };
-        price: { selector: string; attribute?: string; regex?: string };
-        description?: { selector: string; attribute?: string };
-        location?: { selector: string; attribute?: string };
-        phone?: { selector: string; attribute?: string };
-        link: { selector: string; attribute: string };
-        image?: { selector: string; attribute: string };
-        externalId?: { selector: string; attribute: string; regex?: string };
-    };
+export type { ListingExtractorConfig, PaginationConfig } from '../schemas/index.js';
+
+export interface ExtractListingsOptions {
+    // Resolves true when every listing on a page is already stored, which stops pagination early
+    isPageKnown?: (listings: ExtractedListing[]) => Promise<boolean>;
+}
+
+export interface ListingExtraction {
+    listings: ExtractedListing[];
+    // False when some results were not looked at: pagination stopped at a known page or at maxPages
+    // with more pages left, a page failed to load, a page was cut at MAX_LISTINGS_PER_PAGE
+    // or extraction failed midway
+    complete: boolean;
 }
 
-// Service-specific extractors
-const EXTRACTORS: Record<string, ListingExtractorConfig> = {
-    olx: {
-        containerSelector: '[data-cy="l-card"]',
-        fields: {
-            title: { selector: 'h4, h6', attribute: undefined },
-            price: { selector: '[data-testid="ad-price"]', regex: '([\\d\\s]+)' },
-            location: { selector: '[data-testid="location-date"]' },
-            link: { selector: 'a', attribute: 'href' },
-            image: { selector: 'img', attribute: 'src' },
-            externalId: { selector: 'a', attribute: 'href', regex: '/d/oferta/([^/]+)|/oferta/([^/]+)' },
-        },
-    },
-    otomoto: {
-        // OTOMOTO.pl - uses article elements with h3 for price
-        containerSelector: 'article',
-        fields: {
-            title: { selector: 'h2, h1', attribute: undefined },
-            price: { selector: 'h3', regex: '([\\d\\s]+)' },
-            location: { selector: '[class*="location"], p[class*="location"]' },
-            link: { selector: 'a', attribute: 'href' },
-            image: { selector: 'img', attribute: 'src' },
-            externalId: { selector: 'a', attribute: 'href', regex: '/oferta/([^/\\.]+)' },
-        },
-    },
-    allegro: {
-        containerSelector: 'article[data-item]',
-        fields: {
-            title: { selector: 'h2, .mgn2_14' },
-            price: { selector: '[data-role="price"]', regex: '([\\d\\s,]+)' },
-            location: { selector: '[data-role="delivery"]' },
-            link: { selector: 'a[href*="/oferta/"]', attribute: 'href' },
-            image: { selector: 'img', attribute: 'src' },
-            externalId: { selector: 'article', attribute: 'data-item' },
-        },
-    },
-    sprzedajemy: {
-        containerSelector: '.offer',
-        fields: {
-            title: { selector: '.title a' },
-            price: { selector: '.price', regex: '([\\d\\s]+)' },
-            location: { selector: '.location' },
-            link: { selector: '.title a', attribute: 'href' },
-            image: { selector: 'img', attribute: 'src' },
-            externalId: { selector: 'article', attribute: 'data-id' },
-        },
-    },
-    autoplac: {
-        // Autoplac.pl - uses a.tile as container
-        containerSelector: 'a.tile',
-        fields: {
-            title: { selector: 'h3' },
-            price: { selector: 'nwa-offer-tile-price p', regex: '([\\d\\s]+)' },
-            location: { selector: 'nwa-offer-tile-location' },
-            link: { selector: 'a.tile', attribute: 'href' },
-            image: { selector: 'img', attribute: 'src' },
-            externalId: { selector: 'a.tile', attribute: 'href', regex: '/oferta/([^/]+)' },
-        },
-    },
-};
+const MAX_LISTINGS_PER_PAGE = 50;
+const DEFAULT_PAGE_DELAY_MS = 2000;
 
 export async function extractListings(
     page: Page,
-    serviceName: string
-): Promise<ExtractedListing[]> {
-    // Normalize service name: "OLX.pl" -> "olx", "OTOMOTO.pl" -> "otomoto"
-    const configKey = serviceName
-        .toLowerCase()
-        .replace(/\.pl$/i, '')  // Remove .pl suffix
-        .replace(/\.com$/i, '') // Remove .com suffix  
-        .replace(/[^a-z]/g, ''); // Remove any remaining non-letter chars
-    const config = EXTRACTORS[configKey];
-
-    if (!config) {
-        logger.warn(`No extractor config for service: ${serviceName} (key: ${configKey})`);
-        return [];
+    serviceConfig: ServiceConfig,
+    serviceName: string,
+    options: ExtractListingsOptions = {}
+): Promise<ListingExtraction> {
+    if (!serviceConfig.listing) {
+        logger.warn(`No extractor config for service: ${serviceName}`);
+        return { listings: [], complete: false };
     }
 
+    return extractListingsWithConfig(page, serviceConfig.listing, serviceName, options);
+}
+
+/**
+ * Extract listings using an explicit extractor config
+ * Used directly by workflow EXTRACT steps that carry their own field selectors
+ * Follows config.pagination up to maxPages, stopping on an empty or fully known page
+ * A page that fails to load ends pagination with the listings read so far, marked incomplete
+ */
+export async function extractListingsWithConfig(
+    page: Page,
+    config: ListingExtractorConfig,
+    serviceName: string,
+    options: ExtractListingsOptions = {}
+): Promise<ListingExtraction> {
     const listings: ExtractedListing[] = [];
+    const seenIds = new Set<string>();
+    const maxPages = config.pagination?.maxPages ?? 1;
+    let complete = true;
 
     try {
         await page.waitForSelector(config.containerSelector, { timeout: 10000 });
-        const elements = await page.$$(config.containerSelector);
 
-        for (const element of elements.slice(0, 50)) { // Limit to 50 per page
-            try {
-                const listing = await extractSingleListing(element, config);
-                if (listing && listing.title && listing.listingUrl) {
-                    listings.push(listing);
+        for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+            if (pageNumber > 1) {
+                try {
+                    if (!(await goToNextPage(page, config, pageNumber))) {
+                        logger.debug(`No more result pages for ${serviceName} after page ${pageNumber - 1}`);
+                        break;
+                    }
+                } catch (error) {
+                    logger.warn(`Failed to load results page ${pageNumber} of ${serviceName}:`, error);
+                    complete = false;
+                    break;
                 }
-            } catch (error) {
-                logger.debug('Failed to extract listing element:', error);
+            }
+
+            const { listings: pageListings, truncated } = await extractCurrentPage(page, config, seenIds);
+            listings.push(...pageListings);
+
+            if (truncated) {
+                logger.warn(`Page ${pageNumber} of ${serviceName} has more than ${MAX_LISTINGS_PER_PAGE} listings, skipped the rest`);
+                complete = false;
+            }
+
+            if (pageListings.length === 0) break;
+
+            if (pageNumber < maxPages && options.isPageKnown && await options.isPageKnown(pageListings)) {
+                logger.debug(`Page ${pageNumber} of ${serviceName} has only known listings, stopping`);
+                complete = false;
+                break;
+            }
+
+            if (pageNumber === maxPages && config.pagination && await hasNextPage(page, config)) {
+                logger.debug(`Reached the page limit of ${serviceName} (${maxPages}) with more pages left`);
+                complete = false;
             }
         }
 
         logger.info(`Extracted ${listings.length} listings from ${serviceName}`);
     } catch (error) {
         logger.error(`Failed to extract listings from ${serviceName}:`, error);
+        complete = false;
+    }
+
+    return { listings, complete };
+}
+
+/**
+ * Extract listings currently in the DOM, skipping ones already read from a previous page
+ * (infinite scroll keeps earlier containers on the page)
+ * @returns truncated when the page had more than MAX_LISTINGS_PER_PAGE listings and the rest were skipped
+ */
+async function extractCurrentPage(
+    page: Page,
+    config: ListingExtractorConfig,
+    seenIds: Set<string>
+): Promise<{ listings: ExtractedListing[]; truncated: boolean }> {
+    const listings: ExtractedListing[] = [];
+    const elements = await page.$$(config.containerSelector);
+
+    for (const element of elements) {
+        if (listings.length >= MAX_LISTINGS_PER_PAGE) {
+            return { listings, truncated: true };
+        }
+
+        try {
+            const listing = await extractSingleListing(element, config);
+            if (listing && listing.title && listing.listingUrl && !seenIds.has(listing.externalId)) {
+                seenIds.add(listing.externalId);
+                listings.push(listing);
+            }
+        } catch (error) {
+            logger.debug('Failed to extract listing element:', error);
+        }
     }
 
-    return listings;
+    return { listings, truncated: false };
+}
+
+/**
+ * Move to the given results page
+ * @returns false when there is no further page (no next button, a page without listings
+ * or nothing loaded by scrolling)
+ * @throws when the page fails to load
+ */
+async function goToNextPage(
+    page: Page,
+    config: ListingExtractorConfig,
+    pageNumber: number
+): Promise<boolean> {
+    const pagination = config.pagination;
+    const delayMs = pagination.delayMs ?? DEFAULT_PAGE_DELAY_MS;
+
+    switch (pagination.type) {
+        case 'nextSelector': {
+            const nextButton = pagination.nextSelector ? await page.$(pagination.nextSelector) : null;
+            if (!nextButton) return false;
+
+            await nextButton.click();
+            await page.waitForLoadState('domcontentloaded');
+            break;
+        }
+
+        case 'urlParam': {
+            const url = new URL(page.url());
+            url.searchParams.set(pagination.param || 'page', String(pageNumber));
+            await page.goto(url.toString(), { waitUntil: 'domcontentloaded', timeout: 30000 });
+            break;
+        }
+
+        case 'infiniteScroll': {
+            const countBefore = (await page.$$(config.containerSelector)).length;
+            await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+            await page.waitForTimeout(delayMs);
+
+            const countAfter = (await page.$$(config.containerSelector)).length;
+            return countAfter > countBefore;
+        }
+
+        default:
+            return false;
+    }
+
+    await page.waitForTimeout(delayMs);
+
+    // The page loaded, so no listings on it means the results ended
+    try {
+        await page.waitForSelector(config.containerSelector, { timeout: 10000 });
+        return true;
+    } catch {
+        logger.debug(`Results page ${pageNumber} has no listings`);
+        return false;
+    }
+}
+
+/**
+ * Whether results continue past the current page, checked after the last page pagination may visit
+ * Only a next button can be checked without loading more; other pagination types are assumed to continue.
+ */
+async function hasNextPage(page: Page, config: ListingExtractorConfig): Promise<boolean> {
+    const { type, nextSelector } = config.pagination;
+
+    if (type === 'nextSelector') {
+        return !!(await page.$(nextSelector));
+    }
+
+    return true;
 }
 
 async function extractSingleListing(
@@ -204,6 +293,13 @@ async function extractSingleListing(
         }
     }
 
+    const [year, mileage, fuelType, gearbox] = await Promise.all([
+        fields.year ? extractText(element, fields.year) : null,
+        fields.mileage ? extractText(element, fields.mileage) : null,
+        fields.fuelType ? extractText(element, fields.fuelType) : null,
+        fields.gearbox ? extractText(element, fields.gearbox) : null,
+    ]);
+
     return {
         externalId,
         title: title.trim(),
@@ -214,13 +310,22 @@ async function extractSingleListing(
         phone: null, // Usually hidden, needs login
         listingUrl,
         images,
+        year: parseYear(year),
+        mileage: parseInteger(mileage),
+        fuelType: fuelType?.trim() || null,
+        gearbox: gearbox?.trim() || null,
     };
 }
 
-async function extractText(element: any, field: { selector: string; attribute?: string }): Promise<string | null> {
+async function extractText(element: any, field: { selector: string; attribute?: string; regex?: string }): Promise<string | null> {
     const el = await element.$(field.selector);
     if (!el) return null;
-    return field.attribute
+    const value = field.attribute
         ? await el.getAttribute(field.attribute)
         : await el.textContent();
+    if (value && field.regex) {
+        const match = value.match(new RegExp(field.regex));
+        return match ? (match[1] ?? match[0]) : null;
+    }
+    return value;
 }
@@ -0,0 +1,59 @@
+// @ts-nocheck - Uses Playwright DOM types
+import { Page } from 'playwright';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Dismiss common cookie consent popups (best-effort)
+ */
+export async function handleCookieConsent(page: Page): Promise<void> {
+    try {
+        // Try common cookie consent button selectors
+        const consentSelectors = [
+            'button:has-text("Akceptuję")',
+            'button:has-text("Zgadzam się")',
+            'button:has-text("Accept")',
+            'button:has-text("Zaakceptuj")',
+            '[data-testid="consent-accept"]',
+            '#onetrust-accept-btn-handler',
+            '.cookie-consent-accept',
+            'button[id*="accept"]',
+        ];
+
+        for (const selector of consentSelectors) {
+            try {
+                const button = await page.$(selector);
+                if (button) {
+                    await button.click();
+                    logger.debug('Cookie consent accepted');
+                    await randomDelay(500, 1000);
+                    return;
+                }
+            } catch {
+                // Selector not found, try next
+            }
+        }
+
+        // Also try clicking via JavaScript for stubborn popups
+        await page.evaluate(() => {
+            const buttons = Array.from(document.querySelectorAll('button'));
+            const acceptBtn = buttons.find(b =>
+                b.textContent?.includes('Akceptuję') ||
+                b.textContent?.includes('Accept') ||
+                b.textContent?.includes('Zgadzam')
+            );
+            if (acceptBtn) (acceptBtn as HTMLElement).click();
+        });
+    } catch (error) {
+        // Cookie consent handling is best-effort, don't fail the job
+        logger.debug('Cookie consent handling skipped:', error);
+    }
+}
+
+
+/**
+ * Sleep for a random duration to avoid detection patterns
+ */
+export function randomDelay(min: number, max: number): Promise<void> {
+    const delay = Math.floor(Math.random() * (max - min) + min);
+    return new Promise(resolve => setTimeout(resolve, delay));
+}
@@ -1,64 +1,28 @@
 // @ts-nocheck - Uses Playwright DOM types
 import { Page } from 'playwright';
 import { logger } from '../utils/logger.js';
-
-/**
- * Phone Extractor Configuration
- * Service-specific selectors for revealing and extracting phone numbers
- */
-interface PhoneExtractorConfig {
-    revealButtonSelector: string;
-    phoneSelector: string;
-    phoneAttribute: 'textContent' | 'href';
-    requiresLogin: boolean;
-}
-
-/**
- * Service-specific phone extraction configurations
- * Based on browser analysis of OLX and OTOMOTO
- */
-const PHONE_EXTRACTORS: Record<string, PhoneExtractorConfig> = {
-    olx: {
-        revealButtonSelector: 'button[data-testid="ad-contact-phone"]',
-        phoneSelector: 'a[data-testid="contact-phone"]',
-        phoneAttribute: 'href', // Format: tel:123456789
-        requiresLogin: false,
-    },
-    otomoto: {
-        revealButtonSelector: 'button[data-testid="show-phone"]',
-        phoneSelector: 'a[href^="tel:"]',
-        phoneAttribute: 'href',
-        requiresLogin: false,
-    },
-    // Allegro blocked - no phone extraction
-    // Autoplac - needs analysis
-};
+import type { PhoneExtractorConfig } from '../schemas/index.js';
 
 /**
  * Extract phone number from a listing detail page
  * @param page Playwright page object (already on the detail page)
- * @param serviceName Name of the service (e.g., "OLX.pl", "OTOMOTO")
+ * @param config Phone selectors from the service config
+ * @param serviceName Name of the service (e.g., "OLX.pl", "OTOMOTO"), used for logging
+ * @param loggedIn Whether the page's session is logged in (required when config.requiresLogin)
  * @returns Extracted phone number or null
  */
 export async function extractPhoneFromDetailPage(
     page: Page,
-    serviceName: string
+    config: PhoneExtractorConfig | undefined,
+    serviceName: string,
+    loggedIn = false
 ): Promise<string | null> {
-    // Normalize service name
-    const serviceKey = serviceName
-        .toLowerCase()
-        .replace(/\.pl$/i, '')
-        .replace(/\.com$/i, '')
-        .replace(/[^a-z]/g, '');
-
-    const config = PHONE_EXTRACTORS[serviceKey];
-
     if (!config) {
         logger.debug(`No phone extractor config for service: ${serviceName}`);
         return null;
     }
 
-    if (config.requiresLogin) {
+    if (config.requiresLogin && !loggedIn) {
         logger.debug(`Phone extraction for ${serviceName} requires login - skipping`);
         return null;
     }
@@ -138,12 +102,6 @@ export function parsePhoneNumber(rawPhone: string): string {
 /**
  * Check if a service supports phone extraction
  */
-export function supportsPhoneExtraction(serviceName: string): boolean {
-    const serviceKey = serviceName
-        .toLowerCase()
-        .replace(/\.pl$/i, '')
-        .replace(/\.com$/i, '')
-        .replace(/[^a-z]/g, '');
-
-    return serviceKey in PHONE_EXTRACTORS;
+export function supportsPhoneExtraction(config: PhoneExtractorConfig | undefined): boolean {
+    return !!config && !config.requiresLogin;
 }
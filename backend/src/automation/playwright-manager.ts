@@ -7,20 +7,58 @@ import {
 } from 'playwright';
 import { config } from '../config/env.js';
 import { logger } from '../utils/logger.js';
+import {
+    browserProfileService,
+    type BrowserProfileScope,
+    type StorageState,
+} from '../services/browser-profile.service.js';
 
-interface BrowserSession {
+export interface BrowserSession {
+    id: number;
     browser: Browser;
     context: BrowserContext;
     page: Page;
     createdAt: Date;
     lastUsedAt: Date;
+    inUse: boolean;
+    crashed: boolean;
+    // Set while leased with a persistent profile; its storageState is saved on release
+    profile: BrowserProfileScope | null;
+}
+
+export interface AcquireOptions {
+    timeoutMs?: number;
+    // Restore (and on release, save) the storageState of this profile
+    profile?: BrowserProfileScope;
+}
+
+interface Waiter {
+    resolve: (session: BrowserSession) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+    settled: boolean;
+}
+
+export class BrowserPoolTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`Timed out after ${timeoutMs}ms waiting for a browser session`);
+        this.name = 'BrowserPoolTimeoutError';
+    }
 }
 
-const MAX_POOL_SIZE = 3;
 const SESSION_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+const HEALTH_PROBE_TIMEOUT_MS = 5000;
 
+/**
+ * Pool of browser sessions leased to one job at a time
+ * Waiting callers are served in FIFO order; crashed browsers are dropped and replaced on demand.
+ */
 class PlaywrightManager {
     private pool: BrowserSession[] = [];
+    private waiters: Waiter[] = [];
+    private pendingCreates = 0;
+    private nextSessionId = 1;
+    private healthCheckTimer: NodeJS.Timeout | null = null;
     private isShuttingDown = false;
 
     private getLaunchOptions(): LaunchOptions {
@@ -35,41 +73,98 @@ class PlaywrightManager {
         };
     }
 
-    async acquire(): Promise<BrowserSession> {
-        // Clean up stale sessions
-        this.cleanupStaleSessions();
+    /**
+     * Lease a session; it stays reserved for the caller until release()
+     * With a profile, the session gets a fresh context restored from the saved storageState.
+     * @throws BrowserPoolTimeoutError when no session frees up within the timeout
+     */
+    async acquire(options: AcquireOptions = {}): Promise<BrowserSession> {
+        const session = await this.lease(options.timeoutMs ?? config.playwright.acquireTimeout);
 
-        // Try to reuse existing session
-        const available = this.pool.find(s => !this.isSessionInUse(s));
-        if (available) {
-            available.lastUsedAt = new Date();
-            logger.debug('Reusing existing browser session');
-            return available;
+        if (options.profile) {
+            try {
+                const storageState = await browserProfileService.load(options.profile);
+                await this.replaceContext(session, storageState);
+                session.profile = options.profile;
+                logger.debug(`Session ${session.id} using browser profile ${browserProfileService.getProfileKey(options.profile)}${storageState ? '' : ' (new)'}`);
+            } catch (error) {
+                await this.release(session);
+                throw error;
+            }
         }
 
-        // Create new session if pool not full
-        if (this.pool.length < MAX_POOL_SIZE) {
-            const session = await this.createSession();
-            this.pool.push(session);
-            logger.info(`Created new browser session (pool size: ${this.pool.length})`);
-            return session;
+        return session;
+    }
+
+    async release(session: BrowserSession): Promise<void> {
+        if (!session.inUse || !this.pool.includes(session)) return;
+
+        if (this.isHealthy(session)) {
+            try {
+                if (session.profile) {
+                    await this.saveProfile(session, session.profile);
+                    // Profile state must not leak into the next lease
+                    await this.replaceContext(session);
+                } else {
+                    // Clear cookies and storage between uses
+                    await session.context.clearCookies();
+                    await session.page.goto('about:blank');
+                }
+            } catch (error) {
+                logger.error('Failed to clear session state:', error);
+                session.crashed = true;
+            }
         }
 
-        // Wait for available session
-        logger.warn('Browser pool exhausted, waiting for available session');
-        await this.waitForAvailable();
-        return this.acquire();
+        session.profile = null;
+
+        if (this.isHealthy(session)) {
+            session.inUse = false;
+            session.lastUsedAt = new Date();
+        } else {
+            logger.warn(`Browser session ${session.id} crashed, replacing it`);
+            await this.destroySession(session);
+        }
+
+        this.dispatch();
     }
 
-    async release(session: BrowserSession): Promise<void> {
-        session.lastUsedAt = new Date();
+    private async lease(timeoutMs: number): Promise<BrowserSession> {
+        if (this.isShuttingDown) {
+            throw new Error('Browser pool is shutting down');
+        }
 
-        // Clear cookies and storage between uses
+        this.startHealthChecks();
+        this.cleanupStaleSessions();
+
+        return new Promise<BrowserSession>((resolve, reject) => {
+            const waiter: Waiter = {
+                resolve,
+                reject,
+                settled: false,
+                timer: setTimeout(() => {
+                    waiter.settled = true;
+                    this.waiters = this.waiters.filter(w => w !== waiter);
+                    reject(new BrowserPoolTimeoutError(timeoutMs));
+                }, timeoutMs),
+            };
+
+            this.waiters.push(waiter);
+            this.dispatch();
+
+            if (!waiter.settled && this.waiters.includes(waiter)) {
+                logger.warn(`Browser pool exhausted, waiting for available session (queue: ${this.waiters.length})`);
+            }
+        });
+    }
+
+    private async saveProfile(session: BrowserSession, profile: BrowserProfileScope): Promise<void> {
         try {
-            await session.context.clearCookies();
-            await session.page.goto('about:blank');
+            const state = await session.context.storageState();
+            await browserProfileService.save(profile, state);
         } catch (error) {
-            logger.error('Failed to clear session state:', error);
+            // Losing the profile only costs a cookie consent click next time
+            logger.warn(`Failed to save browser profile ${browserProfileService.getProfileKey(profile)}:`, error);
         }
     }
 
@@ -77,62 +172,217 @@ class PlaywrightManager {
         this.isShuttingDown = true;
         logger.info('Shutting down browser pool...');
 
+        if (this.healthCheckTimer) {
+            clearInterval(this.healthCheckTimer);
+            this.healthCheckTimer = null;
+        }
+
+        for (const waiter of this.waiters) {
+            clearTimeout(waiter.timer);
+            waiter.settled = true;
+            waiter.reject(new Error('Browser pool is shutting down'));
+        }
+        this.waiters = [];
+
+        for (const session of [...this.pool]) {
+            await this.destroySession(session);
+        }
+
+        logger.info('Browser pool shutdown complete');
+    }
+
+    /**
+     * Hand idle sessions (or newly created ones, while under the pool size) to waiters in order
+     */
+    private dispatch(): void {
+        while (this.waiters.length > 0 && !this.isShuttingDown) {
+            const idle = this.takeIdleSession();
+
+            if (idle) {
+                this.grant(this.waiters.shift()!, idle);
+                continue;
+            }
+
+            if (this.pool.length + this.pendingCreates >= config.playwright.poolSize) {
+                return;
+            }
+
+            const waiter = this.waiters.shift()!;
+            this.pendingCreates++;
+
+            this.createSession()
+                .then(session => {
+                    this.pool.push(session);
+                    logger.info(`Created new browser session (pool size: ${this.pool.length})`);
+
+                    // The waiter may have timed out in the meantime; the session then goes to the next one
+                    if (!this.grant(waiter, session)) {
+                        session.inUse = false;
+                    }
+                })
+                .catch(error => {
+                    logger.error('Failed to launch browser session:', error);
+                    if (!waiter.settled) {
+                        clearTimeout(waiter.timer);
+                        waiter.settled = true;
+                        waiter.reject(error);
+                    }
+                })
+                .finally(() => {
+                    this.pendingCreates--;
+                    this.dispatch();
+                });
+        }
+    }
+
+    private grant(waiter: Waiter, session: BrowserSession): boolean {
+        if (waiter.settled) return false;
+
+        clearTimeout(waiter.timer);
+        waiter.settled = true;
+        session.inUse = true;
+        session.lastUsedAt = new Date();
+        waiter.resolve(session);
+        return true;
+    }
+
+    private takeIdleSession(): BrowserSession | null {
         for (const session of this.pool) {
-            try {
-                await session.context.close();
-                await session.browser.close();
-            } catch (error) {
-                logger.error('Error closing browser session:', error);
+            if (session.inUse) continue;
+
+            if (!this.isHealthy(session)) {
+                this.destroySession(session);
+                continue;
             }
+
+            return session;
         }
+        return null;
+    }
 
-        this.pool = [];
-        logger.info('Browser pool shutdown complete');
+    private isHealthy(session: BrowserSession): boolean {
+        return !session.crashed && session.browser.isConnected() && !session.page.isClosed();
     }
 
     private async createSession(): Promise<BrowserSession> {
         const browser = await chromium.launch(this.getLaunchOptions());
+        const { context, page } = await this.createContext(browser);
+
+        const session: BrowserSession = {
+            id: this.nextSessionId++,
+            browser,
+            context,
+            page,
+            createdAt: new Date(),
+            lastUsedAt: new Date(),
+            inUse: true,
+            crashed: false,
+            profile: null,
+        };
+
+        // A leased session is replaced on release; an idle one right away
+        browser.on('disconnected', () => {
+            session.crashed = true;
+            if (!session.inUse && !this.isShuttingDown) {
+                logger.warn(`Idle browser session ${session.id} disconnected`);
+                this.destroySession(session).then(() => this.dispatch());
+            }
+        });
+
+        return session;
+    }
+
+    private async createContext(
+        browser: Browser,
+        storageState?: StorageState
+    ): Promise<{ context: BrowserContext; page: Page }> {
         const context = await browser.newContext({
             viewport: { width: 1280, height: 720 },
             userAgent: this.getRandomUserAgent(),
             locale: 'pl-PL',
             timezoneId: 'Europe/Warsaw',
+            storageState,
         });
         const page = await context.newPage();
 
         // Set default timeout
         page.setDefaultTimeout(config.playwright.timeout);
 
-        return {
-            browser,
-            context,
-            page,
-            createdAt: new Date(),
-            lastUsedAt: new Date(),
-        };
+        return { context, page };
+    }
+
+    /**
+     * Swap the session's context for a new one, optionally restored from a storageState
+     */
+    private async replaceContext(session: BrowserSession, storageState?: StorageState): Promise<void> {
+        const previous = session.context;
+        const { context, page } = await this.createContext(session.browser, storageState);
+
+        session.context = context;
+        session.page = page;
+
+        await previous.close().catch(() => { });
+    }
+
+    /**
+     * Remove a session from the pool and close its browser (errors ignored, the browser may be gone already)
+     */
+    private async destroySession(session: BrowserSession): Promise<void> {
+        this.pool = this.pool.filter(s => s !== session);
+        session.inUse = false;
+
+        try {
+            await session.context.close();
+            await session.browser.close();
+        } catch (error) {
+            logger.debug(`Error closing browser session ${session.id}:`, error);
+        }
     }
 
     private cleanupStaleSessions(): void {
         const now = Date.now();
-        this.pool = this.pool.filter(session => {
+        for (const session of this.pool) {
             const age = now - session.lastUsedAt.getTime();
-            if (age > SESSION_TIMEOUT_MS) {
+            if (!session.inUse && age > SESSION_TIMEOUT_MS) {
                 logger.debug('Cleaning up stale browser session');
-                session.context.close().catch(() => { });
-                session.browser.close().catch(() => { });
-                return false;
+                this.destroySession(session);
             }
-            return true;
-        });
+        }
     }
 
-    private isSessionInUse(_session: BrowserSession): boolean {
-        // For now, assume sessions are not locked
-        return false;
+    private startHealthChecks(): void {
+        if (this.healthCheckTimer) return;
+
+        this.healthCheckTimer = setInterval(() => {
+            this.checkHealth().catch(error => logger.error('Browser health check failed:', error));
+        }, config.playwright.healthCheckInterval);
+
+        // Don't keep the process alive just for health checks
+        this.healthCheckTimer.unref();
     }
 
-    private async waitForAvailable(): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, 1000));
+    /**
+     * Probe idle sessions and drop the ones whose browser no longer responds
+     */
+    private async checkHealth(): Promise<void> {
+        this.cleanupStaleSessions();
+
+        for (const session of [...this.pool]) {
+            if (session.inUse) continue;
+
+            const responsive = this.isHealthy(session) && await Promise.race([
+                session.page.evaluate(() => true).catch(() => false),
+                new Promise<boolean>(resolve => setTimeout(() => resolve(false), HEALTH_PROBE_TIMEOUT_MS)),
+            ]);
+
+            // The session may have been leased while the probe was running
+            if (!responsive && !session.inUse) {
+                logger.warn(`Browser session ${session.id} failed health check, replacing it`);
+                await this.destroySession(session);
+            }
+        }
+
+        this.dispatch();
     }
 
     private getRandomUserAgent(): string {
@@ -0,0 +1,45 @@
+// @ts-nocheck - Uses Playwright DOM types
+import { Page } from 'playwright';
+import { logger } from '../utils/logger.js';
+import type { RemovalCheckConfig } from '../schemas/index.js';
+import { handleCookieConsent } from './page-utils.js';
+
+// Shown by most Polish classifieds instead of a sold or withdrawn listing
+const DEFAULT_TEXT_MARKERS = [
+    'ogłoszenie nieaktualne',
+    'ogłoszenie jest nieaktualne',
+    'ogłoszenie zostało zakończone',
+    'ogłoszenie zostało usunięte',
+    'to ogłoszenie nie jest już dostępne',
+    'this listing is no longer available',
+];
+
+/**
+ * Open a listing's detail page and check whether the listing is gone
+ * Removed when the page answers 404/410, shows a removal phrase or matches config.selector.
+ */
+export async function isListingRemoved(
+    page: Page,
+    listingUrl: string,
+    config: RemovalCheckConfig | undefined,
+    serviceName: string
+): Promise<boolean> {
+    const response = await page.goto(listingUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    const status = response?.status();
+
+    if (status === 404 || status === 410) {
+        logger.debug(`Listing page on ${serviceName} answered ${status}: ${listingUrl}`);
+        return true;
+    }
+
+    await handleCookieConsent(page);
+
+    if (config?.selector && await page.$(config.selector)) {
+        return true;
+    }
+
+    const text = ((await page.textContent('body')) ?? '').toLowerCase();
+    const markers = config?.textMarkers ?? DEFAULT_TEXT_MARKERS;
+
+    return markers.some(marker => text.includes(marker.toLowerCase()));
+}
@@ -0,0 +1,96 @@
+import type { VehicleFilters } from '../schemas/index.js';
+import type { ExtractedListing } from './listing-extractor.js';
+
+export type VehicleFilterKey = keyof VehicleFilters;
+
+const FILTER_KEYS: VehicleFilterKey[] = [
+    'make', 'model', 'yearMin', 'yearMax', 'mileageMin', 'mileageMax', 'fuelType', 'gearbox', 'bodyType', 'radiusKm',
+];
+
+/**
+ * Pick the vehicle filters off a SearchConfig row (unset filters are left out)
+ */
+export function getVehicleFilters(config: Partial<Record<VehicleFilterKey, unknown>>): VehicleFilters {
+    const filters: Record<string, unknown> = {};
+    for (const key of FILTER_KEYS) {
+        if (config[key] !== null && config[key] !== undefined && config[key] !== '') {
+            filters[key] = config[key];
+        }
+    }
+    return filters as VehicleFilters;
+}
+
+/**
+ * Drop listings that don't match filters the site couldn't apply server-side (see buildSearchUrl `used`)
+ * Attributes a listing card doesn't show (null) never exclude it; make/model are matched against the title.
+ * Body type and radius aren't shown on listing cards and are ignored here.
+ */
+export function filterListings(
+    listings: ExtractedListing[],
+    filters: VehicleFilters,
+    handledServerSide: ReadonlySet<string> = new Set()
+): ExtractedListing[] {
+    const pending = (key: VehicleFilterKey) =>
+        filters[key] !== null && filters[key] !== undefined && !handledServerSide.has(key);
+
+    return listings.filter(listing => {
+        const title = normalizeText(listing.title);
+
+        if (pending('make') && !title.includes(normalizeText(filters.make!))) return false;
+        if (pending('model') && !title.includes(normalizeText(filters.model!))) return false;
+
+        if (!inRange(listing.year, pending('yearMin') ? filters.yearMin : null, pending('yearMax') ? filters.yearMax : null)) {
+            return false;
+        }
+        if (!inRange(listing.mileage, pending('mileageMin') ? filters.mileageMin : null, pending('mileageMax') ? filters.mileageMax : null)) {
+            return false;
+        }
+
+        if (pending('fuelType') && listing.fuelType && normalizeFuelType(listing.fuelType) !== filters.fuelType) {
+            return false;
+        }
+        if (pending('gearbox') && listing.gearbox && normalizeGearbox(listing.gearbox) !== filters.gearbox) {
+            return false;
+        }
+
+        return true;
+    });
+}
+
+/**
+ * Map site fuel labels ("Benzyna+LPG", "Hybryda") to canonical FUEL_TYPES values
+ */
+export function normalizeFuelType(value: string): string | null {
+    const text = normalizeText(value);
+    if (text.includes('lpg') || text.includes('cng')) return 'lpg';
+    if (text.includes('hybr')) return 'hybrid';
+    if (text.includes('elektr') || text.includes('electric')) return 'electric';
+    if (text.includes('diesel')) return 'diesel';
+    if (text.includes('benzyn') || text.includes('petrol')) return 'petrol';
+    return null;
+}
+
+/**
+ * Map site gearbox labels ("Manualna", "Automatyczna") to canonical GEARBOX_TYPES values
+ */
+export function normalizeGearbox(value: string): string | null {
+    const text = normalizeText(value);
+    if (text.includes('manual')) return 'manual';
+    if (text.includes('automat')) return 'automatic';
+    return null;
+}
+
+function inRange(value: number | null | undefined, min?: number | null, max?: number | null): boolean {
+    if (value === null || value === undefined) return true;
+    if (min !== null && min !== undefined && value < min) return false;
+    if (max !== null && max !== undefined && value > max) return false;
+    return true;
+}
+
+function normalizeText(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/ł/g, 'l')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '');
+}
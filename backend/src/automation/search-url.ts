@@ -0,0 +1,156 @@
+import {
+    SEARCH_URL_PLACEHOLDER,
+    type SearchUrlRules,
+    type SearchUrlVariable,
+    type ServiceConfig,
+    type VehicleFilters,
+} from '../schemas/index.js';
+
+export type SearchUrlVariables = Partial<Record<SearchUrlVariable, string | number | null | undefined>>;
+
+export interface BuiltSearchUrl {
+    url: string;
+    // Variables that ended up in the URL (a variable whose segment or parameter was omitted is not listed)
+    used: Set<SearchUrlVariable>;
+}
+
+// Used for services without a searchUrlPattern
+export const DEFAULT_SEARCH_URL_PATTERN = '?q={{keywords}}&price_from={{priceMin}}&price_to={{priceMax}}&city={{location}}';
+
+/**
+ * Collect template variables from search config values
+ */
+export function getSearchUrlVariables(input: {
+    keywords: string[];
+    priceMin: number | null;
+    priceMax: number | null;
+    location: string | null;
+    filters?: VehicleFilters;
+}): SearchUrlVariables {
+    return {
+        keywords: input.keywords.join(' ').trim(),
+        priceMin: input.priceMin,
+        priceMax: input.priceMax,
+        location: input.location,
+        ...input.filters,
+    };
+}
+
+/**
+ * Render a service's searchUrlPattern
+ *
+ * Relative patterns ("/osobowe?...", "?q=...") are appended to baseUrl.
+ * A path segment or query parameter is omitted when any placeholder in it has no value,
+ * so "/osobowe/{{make|slug}}/{{model|slug}}" becomes "/osobowe" without a make.
+ * Placeholders are URI-encoded unless the `raw` filter is used; `slug` applies the service's slug rules.
+ */
+export function buildSearchUrl(
+    serviceConfig: ServiceConfig,
+    baseUrl: string,
+    variables: SearchUrlVariables
+): BuiltSearchUrl {
+    const pattern = serviceConfig.searchUrlPattern || DEFAULT_SEARCH_URL_PATTERN;
+    const rules = serviceConfig.searchUrl ?? {};
+    const used = new Set<SearchUrlVariable>();
+
+    const queryStart = pattern.indexOf('?');
+    const pathPart = queryStart === -1 ? pattern : pattern.slice(0, queryStart);
+    const queryPart = queryStart === -1 ? '' : pattern.slice(queryStart + 1);
+
+    const path = pathPart
+        .split('/')
+        .map(segment => renderPart(segment, variables, rules, 'path', used))
+        .filter((segment): segment is string => segment !== null)
+        .join('/');
+
+    const query = queryPart
+        .split('&')
+        .filter(Boolean)
+        .map(param => {
+            const separator = param.indexOf('=');
+            if (separator === -1) return param;
+
+            const value = renderPart(param.slice(separator + 1), variables, rules, 'query', used);
+            return value === null ? null : `${param.slice(0, separator)}=${value}`;
+        })
+        .filter((param): param is string => param !== null)
+        .join('&');
+
+    const rendered = query ? `${path}?${query}` : path;
+    const absolute = /^https?:\/\//i.test(rendered)
+        ? rendered
+        : `${baseUrl.replace(/\/+$/, '')}${/^[/?]/.test(rendered) ? '' : '/'}${rendered}`;
+
+    return { url: new URL(absolute).toString(), used };
+}
+
+/**
+ * Render one path segment or query value, or null when a placeholder in it has no value
+ */
+function renderPart(
+    template: string,
+    variables: SearchUrlVariables,
+    rules: SearchUrlRules,
+    location: 'path' | 'query',
+    used: Set<SearchUrlVariable>
+): string | null {
+    const names: SearchUrlVariable[] = [];
+    let missing = false;
+
+    const rendered = template.replace(SEARCH_URL_PLACEHOLDER, (_match, name: SearchUrlVariable, filter?: string) => {
+        const value = resolveValue(name, variables, rules);
+        if (value === null) {
+            missing = true;
+            return '';
+        }
+
+        names.push(name);
+
+        if (filter === 'raw') return value;
+
+        const text = filter === 'slug' ? slugify(value, rules) : value;
+        const encoded = encodeURIComponent(text);
+        return location === 'query' && rules.spaceEncoding === 'plus'
+            ? encoded.replace(/%20/g, '+')
+            : encoded;
+    });
+
+    if (missing) return null;
+
+    names.forEach(name => used.add(name));
+    return rendered;
+}
+
+function resolveValue(name: SearchUrlVariable, variables: SearchUrlVariables, rules: SearchUrlRules): string | null {
+    const value = variables[name];
+    if (value === null || value === undefined || value === '') return null;
+
+    const valueMap = rules.values?.[name];
+    if (valueMap) {
+        return valueMap[String(value)] ?? null;
+    }
+
+    return String(value);
+}
+
+function slugify(value: string, rules: SearchUrlRules): string {
+    const separator = rules.slug?.separator ?? '-';
+    let text = value.trim();
+
+    if (rules.slug?.lowercase ?? true) {
+        text = text.toLowerCase();
+    }
+
+    if (rules.slug?.stripDiacritics ?? true) {
+        text = text
+            .replace(/ł/g, 'l')
+            .replace(/Ł/g, 'L')
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '');
+    }
+
+    return text
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .join(separator);
+}
@@ -0,0 +1,45 @@
+import { buildSearchUrl, getSearchUrlVariables } from './search-url.js';
+import { resolveServiceConfig } from './service-config.js';
+import { BUILT_IN_SERVICE_CONFIGS } from './service-defaults.js';
+
+jest.mock('../config/database.js', () => ({ prisma: {} }));
+
+// Service.defaultConfig of OLX as the old seed stored it
+const legacyOlxConfig = {
+    searchUrlPattern: '/motoryzacja/samochody/?search[filter_float_price:from]={{priceMin}}&search[filter_float_price:to]={{priceMax}}&search[dist]=100',
+    listingSelector: '[data-cy="l-card"]',
+    titleSelector: 'h6',
+    priceSelector: '[data-testid="ad-price"]',
+};
+
+const variables = getSearchUrlVariables({ keywords: ['golf'], priceMin: 20000, priceMax: 40000, location: 'Kraków' });
+
+describe('resolveServiceConfig', () => {
+    it('uses the built-in searchUrlPattern instead of one left by the old seed', () => {
+        const config = resolveServiceConfig({ name: 'OLX.pl', defaultConfig: legacyOlxConfig });
+
+        expect(config.searchUrlPattern).toBe(BUILT_IN_SERVICE_CONFIGS.olx.searchUrlPattern);
+
+        const { url, used } = buildSearchUrl(config, 'https://www.olx.pl', variables);
+        expect(url).toContain('/q-golf/');
+        expect(used).toEqual(new Set(['keywords', 'priceMin', 'priceMax', 'location']));
+    });
+
+    it('keeps the other sections of a config with a legacy searchUrlPattern', () => {
+        const config = resolveServiceConfig({
+            name: 'OLX.pl',
+            defaultConfig: { ...legacyOlxConfig, persistProfile: false },
+        });
+
+        expect(config.persistProfile).toBe(false);
+    });
+
+    it('keeps a searchUrlPattern set by an admin', () => {
+        const config = resolveServiceConfig({
+            name: 'OLX.pl',
+            defaultConfig: { searchUrlPattern: '/motoryzacja/samochody/?search[filter_float_price:from]={{priceMin}}' },
+        });
+
+        expect(config.searchUrlPattern).toBe('/motoryzacja/samochody/?search[filter_float_price:from]={{priceMin}}');
+    });
+});
@@ -0,0 +1,49 @@
+import { prisma } from '../config/database.js';
+import { logger } from '../utils/logger.js';
+import { serviceConfigSchema, type ServiceConfig } from '../schemas/index.js';
+import { BUILT_IN_SERVICE_CONFIGS, LEGACY_SEARCH_URL_PATTERNS, getServiceKey } from './service-defaults.js';
+
+/**
+ * Resolve the effective config for a service
+ * Sections present in Service.defaultConfig win; missing sections fall back to built-in defaults.
+ * An invalid defaultConfig is ignored entirely (with a warning) rather than failing the search.
+ * A searchUrlPattern left over from the old seed is ignored too, so the built-in one applies.
+ */
+export function resolveServiceConfig(service: { name: string; defaultConfig: unknown }): ServiceConfig {
+    const builtIn = BUILT_IN_SERVICE_CONFIGS[getServiceKey(service.name)] ?? {};
+
+    if (!service.defaultConfig) {
+        return builtIn;
+    }
+
+    const parsed = serviceConfigSchema.safeParse(service.defaultConfig);
+
+    if (!parsed.success) {
+        logger.warn(`Invalid defaultConfig for service ${service.name}, using built-in defaults`, {
+            errors: parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        });
+        return builtIn;
+    }
+
+    const { searchUrlPattern, ...sections } = parsed.data;
+
+    if (searchUrlPattern && LEGACY_SEARCH_URL_PATTERNS.has(searchUrlPattern)) {
+        logger.debug(`Ignoring legacy searchUrlPattern of service ${service.name}`);
+        return { ...builtIn, ...sections };
+    }
+
+    return { ...builtIn, ...parsed.data };
+}
+
+export async function loadServiceConfig(serviceId: string): Promise<ServiceConfig> {
+    const service = await prisma.service.findUnique({
+        where: { id: serviceId },
+        select: { name: true, defaultConfig: true },
+    });
+
+    if (!service) {
+        throw new Error(`Service not found: ${serviceId}`);
+    }
+
+    return resolveServiceConfig(service);
+}
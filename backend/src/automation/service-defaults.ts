@@ -0,0 +1,236 @@
+import type { ServiceConfig } from '../schemas/index.js';
+
+/**
+ * Built-in service configs, keyed by normalized service name (see getServiceKey)
+ * Used when Service.defaultConfig is missing a section or fails validation.
+ * Kept free of runtime imports so prisma/seed.ts can load it.
+ */
+export const BUILT_IN_SERVICE_CONFIGS: Record<string, ServiceConfig> = {
+    olx: {
+        persistProfile: true,
+        searchUrlPattern: [
+            'https://www.olx.pl/motoryzacja/samochody/{{make|slug}}/q-{{keywords|slug}}/',
+            '?search[filter_float_price:from]={{priceMin}}',
+            '&search[filter_float_price:to]={{priceMax}}',
+            '&search[city_name]={{location}}',
+            '&search[filter_enum_model][0]={{model|slug}}',
+            '&search[filter_float_year:from]={{yearMin}}',
+            '&search[filter_float_year:to]={{yearMax}}',
+            '&search[filter_float_milage:from]={{mileageMin}}',
+            '&search[filter_float_milage:to]={{mileageMax}}',
+            '&search[filter_enum_petrol][0]={{fuelType}}',
+            '&search[filter_enum_transmission][0]={{gearbox}}',
+            '&search[filter_enum_car_body][0]={{bodyType}}',
+            '&search[dist]={{radiusKm}}',
+        ].join(''),
+        searchUrl: {
+            values: {
+                bodyType: {
+                    sedan: 'sedan',
+                    hatchback: 'hatchback',
+                    combi: 'estate-car',
+                    suv: 'suv',
+                    coupe: 'coupe',
+                    cabrio: 'cabriolet',
+                    minivan: 'minivan',
+                    pickup: 'pickup',
+                },
+            },
+        },
+        listing: {
+            containerSelector: '[data-cy="l-card"]',
+            fields: {
+                title: { selector: 'h4, h6' },
+                price: { selector: '[data-testid="ad-price"]', regex: '([\\d\\s]+)' },
+                location: { selector: '[data-testid="location-date"]' },
+                link: { selector: 'a', attribute: 'href' },
+                image: { selector: 'img', attribute: 'src' },
+                externalId: { selector: 'a', attribute: 'href', regex: '/d/oferta/([^/]+)|/oferta/([^/]+)' },
+            },
+            pagination: { type: 'urlParam', param: 'page', maxPages: 5 },
+        },
+        phone: {
+            revealButtonSelector: 'button[data-testid="ad-contact-phone"]',
+            phoneSelector: 'a[data-testid="contact-phone"]',
+            phoneAttribute: 'href', // Format: tel:123456789
+            requiresLogin: false,
+        },
+        detail: {
+            fields: {
+                description: { selector: '[data-cy="ad_description"] div' },
+                images: { selector: '[data-testid="ad-photo"] img', attribute: 'src' },
+                mileage: { selector: 'p:has-text("Przebieg")', regex: 'Przebieg:\\s*([\\d\\s]+)' },
+                year: { selector: 'p:has-text("Rok produkcji")', regex: 'Rok produkcji:\\s*(\\d{4})' },
+                fuelType: { selector: 'p:has-text("Paliwo")', regex: 'Paliwo:\\s*(.+)' },
+                gearbox: { selector: 'p:has-text("Skrzynia biegów")', regex: 'Skrzynia biegów:\\s*(.+)' },
+                sellerType: { selector: '[data-testid="ad-parameters-container"] p:first-child' },
+            },
+        },
+    },
+    otomoto: {
+        persistProfile: true,
+        searchUrlPattern: [
+            'https://www.otomoto.pl/osobowe/{{make|slug}}/{{model|slug}}',
+            '?search[filter_string_search]={{keywords}}',
+            '&search[filter_float_price:from]={{priceMin}}',
+            '&search[filter_float_price:to]={{priceMax}}',
+            '&search[filter_enum_city]={{location}}',
+            '&search[filter_float_year:from]={{yearMin}}',
+            '&search[filter_float_year:to]={{yearMax}}',
+            '&search[filter_float_mileage:from]={{mileageMin}}',
+            '&search[filter_float_mileage:to]={{mileageMax}}',
+            '&search[filter_enum_fuel_type]={{fuelType}}',
+            '&search[filter_enum_gearbox]={{gearbox}}',
+            '&search[filter_enum_body_type]={{bodyType}}',
+            '&search[dist]={{radiusKm}}',
+        ].join(''),
+        searchUrl: {
+            values: {
+                fuelType: { petrol: 'petrol', diesel: 'diesel', lpg: 'petrol-lpg', hybrid: 'hybrid', electric: 'electric' },
+                // No pickup body type on OTOMOTO
+                bodyType: {
+                    sedan: 'sedan',
+                    hatchback: 'compact',
+                    combi: 'combi',
+                    suv: 'suv',
+                    coupe: 'coupe',
+                    cabrio: 'cabrio',
+                    minivan: 'minivan',
+                },
+            },
+        },
+        listing: {
+            // OTOMOTO.pl - uses article elements with h3 for price
+            containerSelector: 'article',
+            fields: {
+                title: { selector: 'h2, h1' },
+                price: { selector: 'h3', regex: '([\\d\\s]+)' },
+                location: { selector: '[class*="location"], p[class*="location"]' },
+                link: { selector: 'a', attribute: 'href' },
+                image: { selector: 'img', attribute: 'src' },
+                externalId: { selector: 'a', attribute: 'href', regex: '/oferta/([^/\\.]+)' },
+                year: { selector: 'dd[data-parameter="year"]' },
+                mileage: { selector: 'dd[data-parameter="mileage"]' },
+                fuelType: { selector: 'dd[data-parameter="fuel_type"]' },
+                gearbox: { selector: 'dd[data-parameter="gearbox"]' },
+            },
+            pagination: { type: 'urlParam', param: 'page', maxPages: 5 },
+        },
+        phone: {
+            revealButtonSelector: 'button[data-testid="show-phone"]',
+            phoneSelector: 'a[href^="tel:"]',
+            phoneAttribute: 'href',
+            requiresLogin: false,
+        },
+        detail: {
+            fields: {
+                description: { selector: '[data-testid="textWrapper"]' },
+                images: { selector: '[data-testid="photo-gallery-item"] img', attribute: 'src' },
+                mileage: { selector: '[data-testid="mileage"]' },
+                year: { selector: '[data-testid="year"]' },
+                fuelType: { selector: '[data-testid="fuel_type"]', regex: 'Rodzaj paliwa\\s*(.+)' },
+                gearbox: { selector: '[data-testid="gearbox"]', regex: 'Skrzynia biegów\\s*(.+)' },
+                vin: { selector: '[data-testid="advert-vin"]', regex: '([A-HJ-NPR-Z0-9]{17})' },
+                sellerType: { selector: '[data-testid="seller-type"], [data-testid="aside-seller-info"] p' },
+            },
+        },
+    },
+    allegro: {
+        searchUrlPattern: 'https://allegro.pl/listing?string={{keywords}}&price_from={{priceMin}}&price_to={{priceMax}}',
+        // Allegro blocked - no phone extraction
+        listing: {
+            containerSelector: 'article[data-item]',
+            fields: {
+                title: { selector: 'h2, .mgn2_14' },
+                price: { selector: '[data-role="price"]', regex: '([\\d\\s,]+)' },
+                location: { selector: '[data-role="delivery"]' },
+                link: { selector: 'a[href*="/oferta/"]', attribute: 'href' },
+                image: { selector: 'img', attribute: 'src' },
+                externalId: { selector: 'article', attribute: 'data-item' },
+            },
+        },
+    },
+    sprzedajemy: {
+        searchUrlPattern: '/motoryzacja/samochody-osobowe/?inp_text[v]={{keywords}}&inp_cena_od={{priceMin}}&inp_cena_do={{priceMax}}',
+        listing: {
+            containerSelector: '.offer',
+            fields: {
+                title: { selector: '.title a' },
+                price: { selector: '.price', regex: '([\\d\\s]+)' },
+                location: { selector: '.location' },
+                link: { selector: '.title a', attribute: 'href' },
+                image: { selector: 'img', attribute: 'src' },
+                externalId: { selector: 'article', attribute: 'data-id' },
+            },
+        },
+    },
+    autoplac: {
+        persistProfile: true,
+        // No gearbox, body type or radius filters on Autoplac search
+        searchUrlPattern: [
+            'https://autoplac.pl/oferty/samochody-osobowe',
+            '?q={{keywords}}',
+            '&cena_od={{priceMin}}',
+            '&cena_do={{priceMax}}',
+            '&lokalizacja={{location}}',
+            '&marka={{make|slug}}',
+            '&model={{model|slug}}',
+            '&rok_od={{yearMin}}',
+            '&rok_do={{yearMax}}',
+            '&przebieg_od={{mileageMin}}',
+            '&przebieg_do={{mileageMax}}',
+            '&paliwo={{fuelType}}',
+        ].join(''),
+        searchUrl: {
+            values: {
+                fuelType: { petrol: 'benzyna', diesel: 'diesel', lpg: 'benzyna-lpg', hybrid: 'hybryda', electric: 'elektryczny' },
+            },
+        },
+        // Autoplac - phone extraction needs analysis
+        listing: {
+            // Autoplac.pl - uses a.tile as container
+            containerSelector: 'a.tile',
+            fields: {
+                title: { selector: 'h3' },
+                price: { selector: 'nwa-offer-tile-price p', regex: '([\\d\\s]+)' },
+                location: { selector: 'nwa-offer-tile-location' },
+                link: { selector: 'a.tile', attribute: 'href' },
+                image: { selector: 'img', attribute: 'src' },
+                externalId: { selector: 'a.tile', attribute: 'href', regex: '/oferta/([^/]+)' },
+            },
+        },
+    },
+    facebookmarketplace: {
+        searchUrlPattern: '/?query={{keywords}}&minPrice={{priceMin}}&maxPrice={{priceMax}}',
+        requiresLogin: true,
+        login: {
+            checkUrl: 'https://www.facebook.com/marketplace/',
+            loggedInSelector: '[aria-label="Twój profil"], [aria-label="Your profile"]',
+            loginErrorSelector: '#error_box, div[role="alert"]',
+        },
+    },
+};
+
+/**
+ * searchUrlPattern values the seed stored in Service.defaultConfig before patterns had keywords and location
+ * They filter by price only, so resolveServiceConfig uses the built-in pattern instead.
+ */
+export const LEGACY_SEARCH_URL_PATTERNS: ReadonlySet<string> = new Set([
+    '/motoryzacja/samochody/?search[filter_float_price:from]={{priceMin}}&search[filter_float_price:to]={{priceMax}}&search[dist]=100',
+    '/osobowe?search[filter_float_price:from]={{priceMin}}&search[filter_float_price:to]={{priceMax}}',
+    '?price_from={{priceMin}}&price_to={{priceMax}}',
+    '/?minPrice={{priceMin}}&maxPrice={{priceMax}}',
+    '/motoryzacja/samochody-osobowe/?inp_cena_od={{priceMin}}&inp_cena_do={{priceMax}}',
+    '/samochody-osobowe/?cena_od={{priceMin}}&cena_do={{priceMax}}',
+]);
+
+/**
+ * Normalize service name: "OLX.pl" -> "olx", "OTOMOTO.pl" -> "otomoto"
+ */
+export function getServiceKey(serviceName: string): string {
+    return serviceName
+        .toLowerCase()
+        .replace(/\.pl$/i, '')  // Remove .pl suffix
+        .replace(/\.com$/i, '') // Remove .com suffix
+        .replace(/[^a-z]/g, ''); // Remove any remaining non-letter chars
+}
@@ -0,0 +1,85 @@
+// @ts-nocheck - Uses Playwright DOM types
+import { Page } from 'playwright';
+import { logger } from '../utils/logger.js';
+import type { LoginConfig } from '../schemas/index.js';
+import { WorkflowExecutor, getServiceLoginWorkflow } from './workflow-executor.js';
+import { handleCookieConsent } from './page-utils.js';
+
+/**
+ * The site rejected the credentials (or the session is still logged out after the login workflow)
+ * Unlike workflow errors this is not retried: the credentials need to be replaced.
+ */
+export class LoginFailedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LoginFailedError';
+    }
+}
+
+export interface LoginTarget {
+    serviceId: string;
+    serviceName: string;
+    baseUrl: string;
+    login: LoginConfig;
+}
+
+const LOGIN_STATE_TIMEOUT_MS = 5000;
+
+/**
+ * Check whether the page's session is logged in, by opening the check URL
+ */
+export async function isLoggedIn(page: Page, target: LoginTarget): Promise<boolean> {
+    await page.goto(target.login.checkUrl || target.baseUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    await handleCookieConsent(page);
+
+    return isLoggedInOnCurrentPage(page, target.login);
+}
+
+/**
+ * Make sure the session is logged in, running the service's login workflow when it isn't
+ * Credentials are only decrypted when a login is actually needed.
+ * @returns true when a login was performed, false when the restored session was still valid
+ * @throws LoginFailedError when the site rejects the credentials
+ */
+export async function ensureLoggedIn(
+    page: Page,
+    target: LoginTarget,
+    getCredentials: () => Promise<{ username: string; password: string }>
+): Promise<boolean> {
+    if (await isLoggedIn(page, target)) {
+        logger.debug(`Restored session for ${target.serviceName} is logged in`);
+        return false;
+    }
+
+    const workflow = await getServiceLoginWorkflow(target.serviceId);
+    if (!workflow) {
+        throw new Error(`Service ${target.serviceName} requires login but has no login workflow`);
+    }
+
+    const { username, password } = await getCredentials();
+
+    logger.info(`Logging in to ${target.serviceName} with workflow "${workflow.name}"`);
+
+    const executor = new WorkflowExecutor(page);
+    executor.setVariables({ username, password, baseUrl: target.baseUrl });
+    await executor.execute(workflow);
+
+    if (target.login.loginErrorSelector && await page.$(target.login.loginErrorSelector)) {
+        throw new LoginFailedError(`${target.serviceName} rejected the credentials`);
+    }
+
+    if (!(await isLoggedIn(page, target))) {
+        throw new LoginFailedError(`Still logged out of ${target.serviceName} after login`);
+    }
+
+    return true;
+}
+
+async function isLoggedInOnCurrentPage(page: Page, login: LoginConfig): Promise<boolean> {
+    try {
+        await page.waitForSelector(login.loggedInSelector, { state: 'attached', timeout: LOGIN_STATE_TIMEOUT_MS });
+        return true;
+    } catch {
+        return false;
+    }
+}
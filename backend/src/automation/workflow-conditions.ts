@@ -0,0 +1,89 @@
+import { Page } from 'playwright';
+import type { ExecutionContext } from './workflow-executor.js';
+
+/**
+ * Condition used by IF, LOOP and GOTO_LABEL steps
+ * Exactly one subject (selector, variable, result or a combinator) is expected per condition
+ */
+export interface WorkflowCondition {
+    // Page checks
+    selector?: string;
+    visible?: boolean;
+
+    // Context variable checks
+    variable?: string;
+    equals?: string | number | null;
+    notEquals?: string | number | null;
+    matches?: string;
+
+    // Extraction result checks
+    result?: string;
+    minCount?: number;
+
+    // Presence check for selector / variable / result (default: true)
+    exists?: boolean;
+
+    // Combinators
+    not?: WorkflowCondition;
+    all?: WorkflowCondition[];
+    any?: WorkflowCondition[];
+}
+
+/**
+ * Evaluate a workflow condition against the current page and execution context
+ */
+export async function evaluateCondition(
+    page: Page,
+    condition: WorkflowCondition,
+    context: ExecutionContext
+): Promise<boolean> {
+    if (condition.not) {
+        return !(await evaluateCondition(page, condition.not, context));
+    }
+
+    if (condition.all) {
+        for (const child of condition.all) {
+            if (!(await evaluateCondition(page, child, context))) return false;
+        }
+        return true;
+    }
+
+    if (condition.any) {
+        for (const child of condition.any) {
+            if (await evaluateCondition(page, child, context)) return true;
+        }
+        return false;
+    }
+
+    const expectPresent = condition.exists ?? true;
+
+    if (condition.selector) {
+        const element = await page.$(condition.selector);
+        if (!element) return !expectPresent;
+
+        const present = condition.visible ? await element.isVisible() : true;
+        return present === expectPresent;
+    }
+
+    if (condition.variable) {
+        const value = context.variables[condition.variable];
+        const isSet = value !== null && value !== undefined && value !== '';
+
+        if (condition.equals !== undefined) return String(value ?? '') === String(condition.equals ?? '');
+        if (condition.notEquals !== undefined) return String(value ?? '') !== String(condition.notEquals ?? '');
+        if (condition.matches) return new RegExp(condition.matches).test(String(value ?? ''));
+
+        return isSet === expectPresent;
+    }
+
+    if (condition.result) {
+        const result = context.results[condition.result];
+        const count = Array.isArray(result) ? result.length : (result === undefined || result === null ? 0 : 1);
+
+        if (condition.minCount !== undefined) return count >= condition.minCount;
+
+        return (count > 0) === expectPresent;
+    }
+
+    throw new Error(`Invalid workflow condition: ${JSON.stringify(condition)}`);
+}
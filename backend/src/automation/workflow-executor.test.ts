@@ -0,0 +1,168 @@
+import type { Page } from 'playwright';
+import { fakeDatabase } from '../test/fake-prisma.js';
+import { WorkflowExecutor, type Workflow, type WorkflowStep } from './workflow-executor.js';
+
+// Called workflows are loaded from the in-memory fake
+jest.mock('../config/database.js', () => ({ prisma: require('../test/fake-prisma.js').fakeDatabase.prisma }));
+
+const SERVICE_ID = 'service-otomoto';
+
+/**
+ * Playwright page stand-in where the given selectors exist; clicks are recorded in order
+ */
+function createPage(present: string[] = []) {
+    const clicks: string[] = [];
+    const page = {
+        click: async (selector: string) => {
+            clicks.push(selector);
+        },
+        $: async (selector: string) => present.includes(selector) ? { isVisible: async () => true } : null,
+        screenshot: async () => Buffer.from('png'),
+    } as unknown as Page;
+
+    return { page, clicks };
+}
+
+type StepInput = Omit<WorkflowStep, 'stepOrder' | 'parameters'> & { parameters?: Record<string, unknown> };
+
+function workflow(name: string, steps: StepInput[]): Workflow {
+    return {
+        id: `workflow-${name}`,
+        name,
+        serviceId: SERVICE_ID,
+        version: 1,
+        isActive: true,
+        steps: steps.map((step, index) => ({ parameters: {}, ...step, stepOrder: index + 1 })),
+    };
+}
+
+const click = (selector: string, parameters: Record<string, unknown> = {}): StepInput =>
+    ({ actionType: 'click', cssSelector: selector, parameters });
+
+/**
+ * Store a workflow so call_workflow steps can load it
+ */
+function storeWorkflow({ id, name, serviceId, version, isActive, steps }: Workflow): void {
+    fakeDatabase.seed('automationWorkflow', [{ id, name, serviceId, version, isActive }]);
+    fakeDatabase.seed('workflowStep', steps.map(step => ({
+        workflowId: id,
+        stepOrder: step.stepOrder,
+        actionType: step.actionType.toUpperCase(),
+        cssSelector: step.cssSelector ?? null,
+        xpathSelector: null,
+        parameters: step.parameters,
+        validationRules: null,
+        errorRecovery: null,
+    })));
+}
+
+describe('WorkflowExecutor', () => {
+    beforeEach(() => {
+        fakeDatabase.reset({
+            automationWorkflow: {
+                relations: { steps: { model: 'workflowStep', foreignKey: 'workflowId', many: true } },
+            },
+            workflowStep: {},
+        });
+    });
+
+    it('runs the matching branches of nested if/else blocks', async () => {
+        const { page, clicks } = createPage(['.account-menu']);
+        const executor = new WorkflowExecutor(page);
+        executor.setVariables({ make: 'volkswagen' });
+
+        await executor.execute(workflow('search', [
+            { actionType: 'if', cssSelector: '.account-menu' },
+            { actionType: 'if', parameters: { condition: { variable: 'make', equals: 'bmw' } } },
+            click('#make-bmw'),
+            { actionType: 'else' },
+            click('#make-other'),
+            { actionType: 'if', parameters: { condition: { selector: '.cookie-banner' } } },
+            click('#accept-cookies'),
+            { actionType: 'end' },
+            { actionType: 'end' },
+            click('#my-searches'),
+            { actionType: 'else' },
+            click('#login'),
+            { actionType: 'end' },
+            click('#search'),
+        ]));
+
+        expect(clicks).toEqual(['#make-other', '#my-searches', '#search']);
+    });
+
+    it('stops a loop at MAX_LOOP_ITERATIONS', async () => {
+        const { page, clicks } = createPage(['.next-page']);
+        const executor = new WorkflowExecutor(page);
+
+        await executor.execute(workflow('search', [
+            { actionType: 'loop', cssSelector: '.next-page', parameters: { maxIterations: 500, indexVariable: 'page' } },
+            click('.next-page'),
+            { actionType: 'end' },
+            click('#done'),
+        ]));
+
+        expect(clicks).toHaveLength(101);
+        expect(clicks.at(-1)).toBe('#done');
+        expect(executor.getContext().variables.page).toBe(100);
+        expect(executor.getContext().logs.some(line => line.includes('stopped at max iterations (100)'))).toBe(true);
+    });
+
+    it('fails on a jump to an unknown label', async () => {
+        const { page, clicks } = createPage();
+
+        await expect(new WorkflowExecutor(page).execute(workflow('search', [
+            click('#search', { label: 'search' }),
+            { actionType: 'goto_label', parameters: { target: 'results' } },
+            click('#done'),
+        ]))).rejects.toThrow('Workflow failed at step 2: unknown label "results"');
+        expect(clicks).toEqual(['#search']);
+    });
+
+    it('fails after MAX_EXECUTED_STEPS on an endless jump', async () => {
+        const { page, clicks } = createPage();
+
+        await expect(new WorkflowExecutor(page).execute(workflow('search', [
+            click('#refresh', { label: 'top' }),
+            { actionType: 'goto_label', parameters: { target: 'top' } },
+        ]))).rejects.toThrow('Workflow search exceeded 1000 executed steps');
+        expect(clicks).toHaveLength(500);
+    });
+
+    it('runs a called workflow loaded by name', async () => {
+        const { page, clicks } = createPage();
+        storeWorkflow(workflow('accept-cookies', [click('#accept-cookies')]));
+
+        await new WorkflowExecutor(page).execute(workflow('search', [
+            { actionType: 'call_workflow', parameters: { name: 'accept-cookies' } },
+            click('#search'),
+        ]));
+
+        expect(clicks).toEqual(['#accept-cookies', '#search']);
+    });
+
+    it('fails on recursive calls past MAX_CALL_DEPTH', async () => {
+        const { page, clicks } = createPage();
+        const recursive = workflow('next-page', [
+            click('.next-page'),
+            { actionType: 'call_workflow', parameters: { name: 'next-page' } },
+        ]);
+        storeWorkflow(recursive);
+
+        await expect(new WorkflowExecutor(page).execute(recursive))
+            .rejects.toThrow('Workflow failed at step 2: call depth exceeds 5');
+        // The top-level run and five nested calls
+        expect(clicks).toHaveLength(6);
+    });
+
+    it('fails on a call to an inactive workflow', async () => {
+        const { page, clicks } = createPage();
+        storeWorkflow({ ...workflow('accept-cookies', [click('#accept-cookies')]), isActive: false });
+
+        await expect(new WorkflowExecutor(page).execute(workflow('search', [
+            { actionType: 'call_workflow', parameters: { name: 'accept-cookies' } },
+            click('#search'),
+        ]))).rejects.toThrow('Workflow failed at step 1: called workflow accept-cookies is inactive');
+        expect(clicks).toEqual([]);
+    });
+});
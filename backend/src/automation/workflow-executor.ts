@@ -1,30 +1,50 @@
 // @ts-nocheck - Playwright uses DOM types
 import { Page } from 'playwright';
+import type { AutomationWorkflow, WorkflowStep as WorkflowStepRow } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { logger } from '../utils/logger.js';
+import { extractListingsWithConfig, type ListingExtractorConfig } from './listing-extractor.js';
+import { evaluateCondition, type WorkflowCondition } from './workflow-conditions.js';
+import { validateStep, StepValidationError, type StepValidationRules } from './workflow-validation.js';
 
 export interface WorkflowStep {
     id?: string;
     stepOrder: number;
-    actionType: 'navigate' | 'click' | 'fill' | 'wait' | 'extract' | 'screenshot' | 'scroll';
+    actionType:
+        | 'navigate' | 'click' | 'fill' | 'wait' | 'extract' | 'screenshot' | 'scroll' | 'select'
+        | 'if' | 'else' | 'end' | 'loop' | 'goto_label' | 'call_workflow';
     cssSelector?: string;
     xpathSelector?: string;
     parameters: Record<string, unknown>;
-    validationRules?: Record<string, unknown>;
+    validationRules?: StepValidationRules;
     errorRecovery?: Record<string, unknown>;
 }
 
+interface BlockInfo {
+    start: number;
+    else?: number;
+    end: number;
+}
+
+const DEFAULT_LOOP_ITERATIONS = 10;
+const MAX_LOOP_ITERATIONS = 100;
+const MAX_EXECUTED_STEPS = 1000;
+const MAX_CALL_DEPTH = 5;
+
 export interface Workflow {
     id: string;
     name: string;
     serviceId: string;
     steps: WorkflowStep[];
     version: number;
+    isActive: boolean;
 }
 
 export interface ExecutionContext {
     variables: Record<string, string | number | null>;
     results: Record<string, unknown>;
+    // Whether each structured EXTRACT result covers every results page, by result key
+    resultsComplete: Record<string, boolean>;
     screenshots: string[];
     logs: string[];
 }
@@ -33,12 +53,14 @@ export class WorkflowExecutor {
     private page: Page;
     private context: ExecutionContext;
     private maxRetries = 3;
+    private workflowName = '';
 
     constructor(page: Page) {
         this.page = page;
         this.context = {
             variables: {},
             results: {},
+            resultsComplete: {},
             screenshots: [],
             logs: [],
         };
@@ -50,42 +72,199 @@ export class WorkflowExecutor {
 
     async execute(workflow: Workflow): Promise<ExecutionContext> {
         logger.info(`Executing workflow: ${workflow.name}`);
+        this.workflowName = workflow.name;
         this.log(`Starting workflow: ${workflow.name}`);
 
-        const sortedSteps = [...workflow.steps].sort((a, b) => a.stepOrder - b.stepOrder);
+        await this.runWorkflow(workflow, 0);
+
+        this.log('Workflow completed successfully');
+        return this.context;
+    }
+
+    /**
+     * Results, logs and screenshots collected so far, also after execute() failed
+     */
+    getContext(): ExecutionContext {
+        return this.context;
+    }
+
+    /**
+     * Run a workflow's steps with a program counter so IF/ELSE, LOOP and GOTO_LABEL can jump
+     * Called workflows share the execution context with their caller
+     */
+    private async runWorkflow(workflow: Workflow, depth: number): Promise<void> {
+        const steps = [...workflow.steps].sort((a, b) => a.stepOrder - b.stepOrder);
+        const blocks = resolveBlocks(steps);
+        const labels = resolveLabels(steps);
+        const loopIterations = new Map<number, number>();
+
+        let pc = 0;
+        let executedSteps = 0;
+
+        while (pc < steps.length) {
+            if (++executedSteps > MAX_EXECUTED_STEPS) {
+                throw new Error(`Workflow ${workflow.name} exceeded ${MAX_EXECUTED_STEPS} executed steps`);
+            }
+
+            const step = steps[pc];
+            const block = blocks.get(pc);
 
-        for (const step of sortedSteps) {
-            let success = false;
-            let lastError: Error | null = null;
+            switch (step.actionType) {
+                case 'if': {
+                    const passed = await this.evaluateStepCondition(step);
+                    this.log(`Step ${step.stepOrder} (if) evaluated to ${passed}`);
+                    pc = passed ? pc + 1 : (block.else ?? block.end) + 1;
+                    break;
+                }
 
-            for (let attempt = 1; attempt <= this.maxRetries && !success; attempt++) {
-                try {
-                    await this.executeStep(step);
-                    success = true;
-                    this.log(`Step ${step.stepOrder} (${step.actionType}) completed`);
-                } catch (error) {
-                    lastError = error as Error;
-                    logger.warn(`Step ${step.stepOrder} failed (attempt ${attempt}/${this.maxRetries}):`, error);
+                case 'else':
+                    // Reached only when the IF branch ran to completion
+                    pc = block.end + 1;
+                    break;
 
-                    if (attempt < this.maxRetries) {
-                        await this.handleErrorRecovery(step);
-                        await this.delay(1000 * attempt);
+                case 'loop': {
+                    const iteration = loopIterations.get(pc) ?? 0;
+                    const maxIterations = Math.min(
+                        Number(step.parameters.maxIterations) || DEFAULT_LOOP_ITERATIONS,
+                        MAX_LOOP_ITERATIONS
+                    );
+                    const hasCondition = !!(step.parameters.condition || step.cssSelector || step.xpathSelector);
+                    const passed = hasCondition ? await this.evaluateStepCondition(step) : true;
+
+                    if (passed && iteration < maxIterations) {
+                        loopIterations.set(pc, iteration + 1);
+                        if (step.parameters.indexVariable) {
+                            this.context.variables[step.parameters.indexVariable as string] = iteration + 1;
+                        }
+                        pc = pc + 1;
+                    } else {
+                        if (passed && hasCondition) {
+                            this.log(`Step ${step.stepOrder} (loop) stopped at max iterations (${maxIterations})`);
+                        }
+                        loopIterations.delete(pc);
+                        pc = block.end + 1;
                     }
+                    break;
                 }
+
+                case 'end':
+                    pc = steps[block.start].actionType === 'loop' ? block.start : pc + 1;
+                    break;
+
+                case 'goto_label': {
+                    const label = step.parameters.target as string;
+                    const target = labels.get(label);
+                    if (target === undefined) {
+                        throw new Error(`Workflow failed at step ${step.stepOrder}: unknown label "${label}"`);
+                    }
+
+                    const passed = step.parameters.condition ? await this.evaluateStepCondition(step) : true;
+                    if (!passed) {
+                        pc = pc + 1;
+                        break;
+                    }
+
+                    // Leaving a loop body restarts its iteration count on re-entry
+                    for (const loopStart of [...loopIterations.keys()]) {
+                        const loopEnd = blocks.get(loopStart).end;
+                        if (target <= loopStart || target > loopEnd) loopIterations.delete(loopStart);
+                    }
+
+                    this.log(`Step ${step.stepOrder} (goto_label) jumping to "${label}"`);
+                    pc = target;
+                    break;
+                }
+
+                case 'call_workflow':
+                    await this.callWorkflow(step, workflow, depth);
+                    pc = pc + 1;
+                    break;
+
+                default:
+                    await this.executeStepWithRetries(step);
+                    pc = pc + 1;
             }
+        }
+    }
 
-            if (!success && lastError) {
-                this.log(`Step ${step.stepOrder} failed after ${this.maxRetries} attempts: ${lastError.message}`);
+    private async executeStepWithRetries(step: WorkflowStep): Promise<void> {
+        let success = false;
+        let lastError: Error | null = null;
 
-                // Take failure screenshot
-                await this.takeScreenshot(`failure_step_${step.stepOrder}`);
+        for (let attempt = 1; attempt <= this.maxRetries && !success; attempt++) {
+            try {
+                await this.executeStep(step);
+                if (step.validationRules) {
+                    await validateStep(this.page, step.validationRules, this.context, this.getResultKey(step));
+                }
+                success = true;
+                this.log(`Step ${step.stepOrder} (${step.actionType}) completed`);
+            } catch (error) {
+                lastError = error as Error;
+                logger.warn(`Step ${step.stepOrder} failed (attempt ${attempt}/${this.maxRetries}):`, error);
+
+                if (error instanceof StepValidationError) {
+                    this.log(`Step ${step.stepOrder} validation failed: ${JSON.stringify(error.failure)}`);
+                }
 
-                throw new Error(`Workflow failed at step ${step.stepOrder}: ${lastError.message}`);
+                if (attempt < this.maxRetries) {
+                    await this.handleErrorRecovery(step);
+                    await this.delay(1000 * attempt);
+                }
             }
         }
 
-        this.log('Workflow completed successfully');
-        return this.context;
+        if (!success && lastError) {
+            this.log(`Step ${step.stepOrder} failed after ${this.maxRetries} attempts: ${lastError.message}`);
+
+            // Take failure screenshot
+            await this.takeScreenshot(`failure_step_${step.stepOrder}`);
+
+            throw new Error(`Workflow failed at step ${step.stepOrder}: ${lastError.message}`, { cause: lastError });
+        }
+    }
+
+    private getResultKey(step: WorkflowStep): string {
+        return (step.parameters.key as string) || (step.parameters.fields ? 'listings' : 'extracted');
+    }
+
+    /**
+     * Condition comes from parameters.condition, or the step selector as an "element exists" shorthand
+     */
+    private async evaluateStepCondition(step: WorkflowStep): Promise<boolean> {
+        const condition = (step.parameters.condition as WorkflowCondition | undefined)
+            ?? { selector: step.cssSelector || step.xpathSelector };
+
+        return evaluateCondition(this.page, condition, this.context);
+    }
+
+    private async callWorkflow(step: WorkflowStep, caller: Workflow, depth: number): Promise<void> {
+        if (depth + 1 > MAX_CALL_DEPTH) {
+            throw new Error(`Workflow failed at step ${step.stepOrder}: call depth exceeds ${MAX_CALL_DEPTH}`);
+        }
+
+        const { workflowId, name, serviceId } = step.parameters as {
+            workflowId?: string;
+            name?: string;
+            serviceId?: string;
+        };
+
+        const workflow = workflowId
+            ? await getWorkflowById(workflowId)
+            : await getWorkflowByName(serviceId || caller.serviceId, name);
+
+        if (!workflow) {
+            throw new Error(`Workflow failed at step ${step.stepOrder}: called workflow ${workflowId || name} not found`);
+        }
+
+        // Deactivated workflows don't run, same as a service's search or login workflow
+        if (!workflow.isActive) {
+            throw new Error(`Workflow failed at step ${step.stepOrder}: called workflow ${workflow.name} is inactive`);
+        }
+
+        this.log(`Step ${step.stepOrder} calling workflow: ${workflow.name}`);
+        await this.runWorkflow(workflow, depth + 1);
+        this.log(`Returned from workflow: ${workflow.name}`);
     }
 
     private async executeStep(step: WorkflowStep): Promise<void> {
@@ -127,8 +306,24 @@ export class WorkflowExecutor {
                 await this.delay(500);
                 break;
 
+            case 'select':
+                if (selector && params.value !== undefined) {
+                    await this.page.selectOption(selector, String(params.value));
+                }
+                break;
+
             case 'extract':
-                if (selector) {
+                if (selector && params.fields) {
+                    // Structured listing extraction: the step selector is the listing container
+                    const extractorConfig: ListingExtractorConfig = {
+                        containerSelector: selector,
+                        fields: params.fields as ListingExtractorConfig['fields'],
+                        pagination: params.pagination as ListingExtractorConfig['pagination'],
+                    };
+                    const { listings, complete } = await extractListingsWithConfig(this.page, extractorConfig, this.workflowName);
+                    this.context.results[this.getResultKey(step)] = listings;
+                    this.context.resultsComplete[this.getResultKey(step)] = complete;
+                } else if (selector) {
                     const elements = await this.page.$$(selector);
                     const extracted = await Promise.all(
                         elements.map(async (el) => {
@@ -137,7 +332,7 @@ export class WorkflowExecutor {
                             return { text, href };
                         })
                     );
-                    this.context.results[params.key as string || 'extracted'] = extracted;
+                    this.context.results[this.getResultKey(step)] = extracted;
                 }
                 break;
 
@@ -212,20 +407,138 @@ export async function getWorkflowById(workflowId: string): Promise<Workflow | nu
 
     if (!workflow) return null;
 
+    return toWorkflow(workflow);
+}
+
+export async function getWorkflowByName(serviceId: string, name: string): Promise<Workflow | null> {
+    const workflow = await prisma.automationWorkflow.findUnique({
+        where: { serviceId_name: { serviceId, name } },
+        include: { steps: { orderBy: { stepOrder: 'asc' } } },
+    });
+
+    if (!workflow) return null;
+
+    return toWorkflow(workflow);
+}
+
+/**
+ * Get the active search workflow a service points at
+ * Returns null when the service has none, so callers can fall back to built-in extractors
+ */
+export async function getServiceSearchWorkflow(serviceId: string): Promise<Workflow | null> {
+    const service = await prisma.service.findUnique({
+        where: { id: serviceId },
+        include: {
+            searchWorkflow: {
+                include: { steps: { orderBy: { stepOrder: 'asc' } } },
+            },
+        },
+    });
+
+    const workflow = service?.searchWorkflow;
+    if (!workflow || !workflow.isActive) return null;
+
+    return toWorkflow(workflow);
+}
+
+/**
+ * Get the active login workflow a service points at (run before searching when login is needed)
+ */
+export async function getServiceLoginWorkflow(serviceId: string): Promise<Workflow | null> {
+    const service = await prisma.service.findUnique({
+        where: { id: serviceId },
+        include: {
+            loginWorkflow: {
+                include: { steps: { orderBy: { stepOrder: 'asc' } } },
+            },
+        },
+    });
+
+    const workflow = service?.loginWorkflow;
+    if (!workflow || !workflow.isActive) return null;
+
+    return toWorkflow(workflow);
+}
+
+function toWorkflow(workflow: AutomationWorkflow & { steps: WorkflowStepRow[] }): Workflow {
     return {
         id: workflow.id,
         name: workflow.name,
         serviceId: workflow.serviceId,
         version: workflow.version,
+        isActive: workflow.isActive,
         steps: workflow.steps.map(s => ({
             id: s.id,
             stepOrder: s.stepOrder,
-            actionType: s.actionType as WorkflowStep['actionType'],
+            actionType: s.actionType.toLowerCase() as WorkflowStep['actionType'],
             cssSelector: s.cssSelector || undefined,
             xpathSelector: s.xpathSelector || undefined,
             parameters: s.parameters as Record<string, unknown> || {},
-            validationRules: s.validationRules as Record<string, unknown> || undefined,
+            validationRules: s.validationRules as StepValidationRules || undefined,
             errorRecovery: s.errorRecovery as Record<string, unknown> || undefined,
         })),
     };
 }
+
+/**
+ * Match IF/ELSE/LOOP openers with their END steps (by index in the sorted step list)
+ */
+function resolveBlocks(steps: WorkflowStep[]): Map<number, BlockInfo> {
+    const blocks = new Map<number, BlockInfo>();
+    const open: BlockInfo[] = [];
+
+    steps.forEach((step, index) => {
+        switch (step.actionType) {
+            case 'if':
+            case 'loop':
+                open.push({ start: index, end: -1 });
+                break;
+
+            case 'else': {
+                const block = open[open.length - 1];
+                if (!block || steps[block.start].actionType !== 'if' || block.else !== undefined) {
+                    throw new Error(`Invalid workflow: ELSE at step ${step.stepOrder} has no matching IF`);
+                }
+                block.else = index;
+                break;
+            }
+
+            case 'end': {
+                const block = open.pop();
+                if (!block) {
+                    throw new Error(`Invalid workflow: END at step ${step.stepOrder} has no matching IF or LOOP`);
+                }
+                block.end = index;
+                blocks.set(block.start, block);
+                if (block.else !== undefined) blocks.set(block.else, block);
+                blocks.set(index, block);
+                break;
+            }
+        }
+    });
+
+    if (open.length > 0) {
+        throw new Error(`Invalid workflow: step ${steps[open[0].start].stepOrder} is missing its END`);
+    }
+
+    return blocks;
+}
+
+/**
+ * Collect GOTO_LABEL targets (parameters.target) declared via parameters.label on any step
+ */
+function resolveLabels(steps: WorkflowStep[]): Map<string, number> {
+    const labels = new Map<string, number>();
+
+    steps.forEach((step, index) => {
+        const label = step.parameters.label;
+        if (typeof label === 'string') {
+            if (labels.has(label)) {
+                throw new Error(`Invalid workflow: duplicate label "${label}"`);
+            }
+            labels.set(label, index);
+        }
+    });
+
+    return labels;
+}
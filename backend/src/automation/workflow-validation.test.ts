@@ -0,0 +1,102 @@
+import type { Page } from 'playwright';
+import type { ExecutionContext } from './workflow-executor.js';
+import { validateStep, StepValidationError, type StepValidationFailure, type StepValidationRules } from './workflow-validation.js';
+
+/**
+ * Playwright page stand-in at the given URL, with elements (selector -> text) that never change
+ */
+function createPage(url: string, elements: Record<string, string>) {
+    return {
+        url: () => url,
+        waitForSelector: async (selector: string, { state }: { state: 'attached' | 'detached' }) => {
+            if ((selector in elements) !== (state === 'attached')) {
+                throw new Error(`Timeout waiting for ${selector} to be ${state}`);
+            }
+        },
+        $: async (selector: string) => selector in elements ? { textContent: async () => elements[selector] } : null,
+    } as unknown as Page;
+}
+
+const page = createPage('https://www.otomoto.pl/osobowe?page=2', {
+    body: '  Wyniki wyszukiwania: 32 ogłoszenia  ',
+    '.listing': 'VW Golf VII 1.4 TSI',
+});
+
+const context: ExecutionContext = {
+    variables: {},
+    results: { listings: [{ externalId: 'a' }, { externalId: 'b' }], links: [{ href: '/a' }] },
+    resultsComplete: {},
+    screenshots: [],
+    logs: [],
+};
+
+async function failureOf(rules: StepValidationRules, resultKey?: string): Promise<StepValidationFailure> {
+    const error = await validateStep(page, { timeout: 0, ...rules }, context, resultKey).catch(error => error);
+    expect(error).toBeInstanceOf(StepValidationError);
+    return error.failure;
+}
+
+describe('validateStep', () => {
+    it('passes when every rule holds', async () => {
+        await expect(validateStep(page, {
+            urlMatches: '/osobowe\\?page=\\d+',
+            selectorPresent: ['.listing', 'body'],
+            selectorAbsent: '.captcha',
+            minCount: 2,
+            textContains: { selector: '.listing', value: 'Golf' },
+            timeout: 0,
+        }, context, 'listings')).resolves.toBeUndefined();
+    });
+
+    it('reports a URL that does not match urlMatches', async () => {
+        expect(await failureOf({ urlMatches: '/logowanie' })).toEqual({
+            rule: 'urlMatches',
+            expected: '/logowanie',
+            actual: 'https://www.otomoto.pl/osobowe?page=2',
+        });
+    });
+
+    it('reports the first missing selectorPresent selector', async () => {
+        expect(await failureOf({ selectorPresent: ['.listing', '.pagination', '.filters'] })).toEqual({
+            rule: 'selectorPresent',
+            expected: '.pagination',
+            actual: null,
+        });
+    });
+
+    it('reports a selectorAbsent selector that stays on the page', async () => {
+        expect(await failureOf({ selectorAbsent: '.listing' })).toEqual({
+            rule: 'selectorAbsent',
+            expected: '.listing',
+            actual: 'present',
+        });
+    });
+
+    it('counts the step result for minCount', async () => {
+        expect(await failureOf({ minCount: 3 }, 'listings')).toEqual({ rule: 'minCount', expected: 3, actual: 2 });
+    });
+
+    it('counts the named result for minCount over the step result', async () => {
+        expect(await failureOf({ minCount: 2, result: 'links' }, 'listings')).toEqual({ rule: 'minCount', expected: 2, actual: 1 });
+    });
+
+    it('counts a missing result as empty for minCount', async () => {
+        expect(await failureOf({ minCount: 1 })).toEqual({ rule: 'minCount', expected: 1, actual: 0 });
+    });
+
+    it('reports the trimmed page text missing textContains', async () => {
+        expect(await failureOf({ textContains: 'Brak wyników' })).toEqual({
+            rule: 'textContains',
+            expected: 'Brak wyników',
+            actual: 'Wyniki wyszukiwania: 32 ogłoszenia',
+        });
+    });
+
+    it('reports a missing textContains element', async () => {
+        expect(await failureOf({ textContains: { selector: '.price', value: 'PLN' } })).toEqual({
+            rule: 'textContains',
+            expected: 'PLN',
+            actual: null,
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import { Page } from 'playwright';
+import type { ExecutionContext } from './workflow-executor.js';
+
+/**
+ * Declarative post-conditions stored in WorkflowStep.validationRules
+ * Every rule present must hold after the step ran, otherwise the step fails and is retried
+ */
+export interface StepValidationRules {
+    urlMatches?: string;
+    selectorPresent?: string | string[];
+    selectorAbsent?: string | string[];
+    minCount?: number;
+    result?: string;
+    textContains?: string | { selector?: string; value: string };
+    timeout?: number;
+}
+
+export interface StepValidationFailure {
+    rule: keyof StepValidationRules;
+    expected: unknown;
+    actual: unknown;
+}
+
+export class StepValidationError extends Error {
+    public readonly failure: StepValidationFailure;
+
+    constructor(failure: StepValidationFailure) {
+        super(`Validation "${failure.rule}" failed: expected ${JSON.stringify(failure.expected)}, got ${JSON.stringify(failure.actual)}`);
+        this.name = 'StepValidationError';
+        this.failure = failure;
+    }
+}
+
+const DEFAULT_VALIDATION_TIMEOUT_MS = 5000;
+
+/**
+ * Check a step's validation rules, throwing StepValidationError on the first rule that does not hold
+ * @param resultKey Key of the step's extraction result, used by minCount when rules.result is not set
+ */
+export async function validateStep(
+    page: Page,
+    rules: StepValidationRules,
+    context: ExecutionContext,
+    resultKey?: string
+): Promise<void> {
+    const timeout = rules.timeout ?? DEFAULT_VALIDATION_TIMEOUT_MS;
+
+    if (rules.urlMatches) {
+        const url = page.url();
+        if (!new RegExp(rules.urlMatches).test(url)) {
+            throw new StepValidationError({ rule: 'urlMatches', expected: rules.urlMatches, actual: url });
+        }
+    }
+
+    for (const selector of toArray(rules.selectorPresent)) {
+        try {
+            await page.waitForSelector(selector, { state: 'attached', timeout });
+        } catch {
+            throw new StepValidationError({ rule: 'selectorPresent', expected: selector, actual: null });
+        }
+    }
+
+    for (const selector of toArray(rules.selectorAbsent)) {
+        try {
+            await page.waitForSelector(selector, { state: 'detached', timeout });
+        } catch {
+            throw new StepValidationError({ rule: 'selectorAbsent', expected: selector, actual: 'present' });
+        }
+    }
+
+    if (rules.minCount !== undefined) {
+        const key = rules.result ?? resultKey;
+        const result = key ? context.results[key] : undefined;
+        const count = Array.isArray(result) ? result.length : 0;
+
+        if (count < rules.minCount) {
+            throw new StepValidationError({ rule: 'minCount', expected: rules.minCount, actual: count });
+        }
+    }
+
+    if (rules.textContains) {
+        const { selector, value } = typeof rules.textContains === 'string'
+            ? { selector: 'body', value: rules.textContains }
+            : { selector: rules.textContains.selector || 'body', value: rules.textContains.value };
+
+        const element = await page.$(selector);
+        const text = element ? await element.textContent() : null;
+
+        if (!text || !text.includes(value)) {
+            throw new StepValidationError({
+                rule: 'textContains',
+                expected: value,
+                actual: text ? text.trim().slice(0, 100) : null,
+            });
+        }
+    }
+}
+
+function toArray(value?: string | string[]): string[] {
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+}
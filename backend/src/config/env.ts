@@ -24,8 +24,9 @@ const envSchema = z.object({
     JWT_ACCESS_EXPIRY: z.string().default('1h'),
     JWT_REFRESH_EXPIRY: z.string().default('30d'),
 
-    // Encryption
-    ENCRYPTION_KEY: z.string().length(32),
+    // Encryption (ENCRYPTION_KEYS: comma-separated "keyId:key" pairs, oldest first; the last one encrypts)
+    ENCRYPTION_KEY: z.string().length(32).optional(),
+    ENCRYPTION_KEYS: z.string().optional(),
     ENCRYPTION_IV_LENGTH: z.coerce.number().default(16),
 
     // Firebase (optional)
@@ -33,9 +34,37 @@ const envSchema = z.object({
     FCM_PRIVATE_KEY: z.string().optional(),
     FCM_CLIENT_EMAIL: z.string().optional(),
 
+    // Push delivery (auto: Expo or FCM by token format; stub: record pushes without sending)
+    PUSH_PROVIDER: z.enum(['auto', 'stub']).default('auto'),
+    EXPO_ACCESS_TOKEN: z.string().optional(),
+
+    // Email (SMTP; emails are disabled without SMTP_HOST)
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.coerce.number().default(587),
+    SMTP_SECURE: z.enum(['true', 'false']).default('false').transform(v => v === 'true'),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: z.string().optional(),
+    EMAIL_FROM: z.string().default('SprintSale <noreply@sprintsale.local>'),
+
     // Playwright
     PLAYWRIGHT_HEADLESS: z.coerce.boolean().default(true),
     PLAYWRIGHT_TIMEOUT: z.coerce.number().default(30000),
+    PLAYWRIGHT_POOL_SIZE: z.coerce.number().int().min(1).default(3),
+    PLAYWRIGHT_ACQUIRE_TIMEOUT: z.coerce.number().default(120000),
+    PLAYWRIGHT_HEALTH_CHECK_INTERVAL: z.coerce.number().default(30000),
+    PLAYWRIGHT_PROFILE_MAX_AGE_HOURS: z.coerce.number().default(72),
+
+    // Listing lifecycle
+    LISTING_REMOVED_AFTER_MISSED_RUNS: z.coerce.number().int().min(1).default(3),
+    LISTING_REMOVAL_DETAIL_CHECK: z.enum(['true', 'false']).default('true').transform(v => v === 'true'),
+
+    // Search scheduling (quiet hours and active days are evaluated in this timezone)
+    SCHEDULE_TIMEZONE: z.string().default('Europe/Warsaw'),
+    SEARCH_RUN_RETENTION_DAYS: z.coerce.number().int().min(1).default(14),
+
+    // Blob storage (failure screenshots)
+    BLOB_STORE_DRIVER: z.enum(['local']).default('local'),
+    BLOB_STORE_PATH: z.string().default('./data/blobs'),
 
     // Logging
     LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
@@ -50,7 +79,12 @@ const envSchema = z.object({
     ADMIN_PASSWORD: z.string().min(8).optional(),
 });
 
-const parsed = envSchema.safeParse(process.env);
+const parsed = envSchema
+    .refine(data => data.ENCRYPTION_KEY || data.ENCRYPTION_KEYS, {
+        message: 'ENCRYPTION_KEY or ENCRYPTION_KEYS is required',
+        path: ['ENCRYPTION_KEYS'],
+    })
+    .safeParse(process.env);
 
 if (!parsed.success) {
     console.error('❌ Invalid environment variables:');
@@ -60,6 +94,31 @@ if (!parsed.success) {
 
 export const env = parsed.data;
 
+/**
+ * Build the encryption keyring, oldest key first
+ * ENCRYPTION_KEY (if set) is the oldest key, with ID "default".
+ */
+function parseEncryptionKeys(legacyKey: string | undefined, keys: string | undefined): { id: string; key: string }[] {
+    const keyring = legacyKey ? [{ id: 'default', key: legacyKey }] : [];
+
+    for (const entry of (keys ?? '').split(',').map(e => e.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        if (separator <= 0) {
+            throw new Error(`Invalid ENCRYPTION_KEYS entry, expected "keyId:key"`);
+        }
+        const id = entry.slice(0, separator);
+        // A repeated ID would replace the earlier key and leave its envelopes undecryptable
+        if (keyring.some(existing => existing.id === id)) {
+            throw new Error(id === 'default'
+                ? 'ENCRYPTION_KEYS must not use the key ID "default", it is reserved for ENCRYPTION_KEY'
+                : `Duplicate encryption key ID "${id}" in ENCRYPTION_KEYS`);
+        }
+        keyring.push({ id, key: entry.slice(separator + 1) });
+    }
+
+    return keyring;
+}
+
 export const config = {
     isDev: env.NODE_ENV === 'development',
     isProd: env.NODE_ENV === 'production',
@@ -89,7 +148,7 @@ export const config = {
     },
 
     encryption: {
-        key: env.ENCRYPTION_KEY,
+        keys: parseEncryptionKeys(env.ENCRYPTION_KEY, env.ENCRYPTION_KEYS),
         ivLength: env.ENCRYPTION_IV_LENGTH,
     },
 
@@ -99,9 +158,42 @@ export const config = {
         clientEmail: env.FCM_CLIENT_EMAIL,
     },
 
+    push: {
+        provider: env.PUSH_PROVIDER,
+        expoAccessToken: env.EXPO_ACCESS_TOKEN,
+    },
+
+    email: {
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: env.EMAIL_FROM,
+    },
+
     playwright: {
         headless: env.PLAYWRIGHT_HEADLESS,
         timeout: env.PLAYWRIGHT_TIMEOUT,
+        poolSize: env.PLAYWRIGHT_POOL_SIZE,
+        acquireTimeout: env.PLAYWRIGHT_ACQUIRE_TIMEOUT,
+        healthCheckInterval: env.PLAYWRIGHT_HEALTH_CHECK_INTERVAL,
+        profileMaxAgeHours: env.PLAYWRIGHT_PROFILE_MAX_AGE_HOURS,
+    },
+
+    listings: {
+        removedAfterMissedRuns: env.LISTING_REMOVED_AFTER_MISSED_RUNS,
+        removalDetailCheck: env.LISTING_REMOVAL_DETAIL_CHECK,
+    },
+
+    schedule: {
+        timezone: env.SCHEDULE_TIMEZONE,
+        runRetentionDays: env.SEARCH_RUN_RETENTION_DAYS,
+    },
+
+    blobStore: {
+        driver: env.BLOB_STORE_DRIVER,
+        localPath: env.BLOB_STORE_PATH,
     },
 
     logging: {
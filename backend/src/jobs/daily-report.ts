@@ -0,0 +1,51 @@
+import Bull, { Queue } from 'bull';
+import { redis } from '../config/redis.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { notificationDispatcher } from './notification-dispatcher.js';
+
+// In the morning, covering the previous day
+const REPORT_CRON = '0 7 * * *';
+const REPORT_JOB_ID = 'daily-report';
+
+// Queues the daily email reports (sent by the email queue)
+export const dailyReportQueue: Queue = new Bull('daily-report', {
+    redis: {
+        host: redis.options.host as string,
+        port: redis.options.port as number,
+        password: redis.options.password as string | undefined,
+    },
+    defaultJobOptions: {
+        removeOnComplete: 10,
+        removeOnFail: 10,
+        attempts: 3,
+        backoff: {
+            type: 'exponential',
+            delay: 60000,
+        },
+    },
+});
+
+dailyReportQueue.process(1, async (): Promise<{ reports: number }> => {
+    const reports = await notificationDispatcher.sendDailyReports();
+    return { reports };
+});
+
+// Queue event handlers
+dailyReportQueue.on('failed', (job, err) => {
+    logger.error(`Daily report job ${job.id} failed:`, err);
+});
+
+/**
+ * Register the daily report job (every morning in SCHEDULE_TIMEZONE); safe to call on every worker start
+ */
+export async function scheduleDailyReports(): Promise<void> {
+    await dailyReportQueue.add({}, {
+        jobId: REPORT_JOB_ID,
+        repeat: { cron: REPORT_CRON, tz: config.schedule.timezone },
+    });
+
+    logger.info(`Daily email reports scheduled (${REPORT_CRON}, ${config.schedule.timezone})`);
+}
+
+export default dailyReportQueue;
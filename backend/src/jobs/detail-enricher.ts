@@ -0,0 +1,151 @@
+import Bull, { Queue, Job } from 'bull';
+import { redis } from '../config/redis.js';
+import { prisma } from '../config/database.js';
+import { logger } from '../utils/logger.js';
+import {
+    playwrightManager,
+    extractListingDetails,
+    extractPhoneFromDetailPage,
+    handleCookieConsent,
+    randomDelay,
+    resolveServiceConfig,
+} from '../automation/index.js';
+import { acquireServiceSession, isPermanentLoginError } from './service-session.js';
+import { listingClusterService } from '../services/listing-cluster.service.js';
+
+export interface DetailJobData {
+    listingId: string;
+}
+
+// Detail pages are visited one at a time so enrichment never starves search jobs of browsers
+export const detailQueue: Queue<DetailJobData> = new Bull('detail-enrichment', {
+    redis: {
+        host: redis.options.host as string,
+        port: redis.options.port as number,
+        password: redis.options.password as string | undefined,
+    },
+    defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 50,
+        attempts: 2,
+        backoff: {
+            type: 'exponential',
+            delay: 10000,
+        },
+    },
+});
+
+detailQueue.process(1, async (job: Job<DetailJobData>) => {
+    const { listingId } = job.data;
+
+    const listing = await prisma.listing.findUnique({
+        where: { id: listingId },
+        include: {
+            service: { select: { name: true, baseUrl: true, defaultConfig: true } },
+            // Enriched once for everyone; logged-in services use the account of the first matching user
+            matches: {
+                take: 1,
+                orderBy: { matchedAt: 'asc' },
+                select: { searchConfig: { select: { userId: true } } },
+            },
+        },
+    });
+
+    if (!listing || listing.matches.length === 0) {
+        logger.debug(`Listing ${listingId} no longer exists, skipping enrichment`);
+        return { enriched: false };
+    }
+
+    if (listing.enrichedAt) {
+        return { enriched: false };
+    }
+
+    const serviceName = listing.service.name;
+    const serviceConfig = resolveServiceConfig(listing.service);
+
+    if (!serviceConfig.detail && !serviceConfig.phone) {
+        logger.debug(`No detail or phone config for ${serviceName}, skipping enrichment`);
+        return { enriched: false };
+    }
+
+    let session;
+    try {
+        // Revealing phone numbers may need a login even where browsing doesn't
+        let loggedIn: boolean;
+        ({ session, loggedIn } = await acquireServiceSession({
+            userId: listing.matches[0].searchConfig.userId,
+            serviceId: listing.serviceId,
+            serviceName,
+            serviceBaseUrl: listing.service.baseUrl,
+            serviceConfig,
+            login: serviceConfig.requiresLogin
+                ? 'required'
+                : serviceConfig.phone?.requiresLogin ? 'optional' : 'none',
+        }));
+
+        await session.page.goto(listing.listingUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+        await randomDelay(1500, 3000);
+        await handleCookieConsent(session.page);
+
+        const details = await extractListingDetails(session.page, serviceConfig.detail, serviceName);
+        const phone = listing.phone
+            ?? await extractPhoneFromDetailPage(session.page, serviceConfig.phone, serviceName, loggedIn);
+
+        const images = details?.images.length ? details.images : listing.images;
+
+        await prisma.listing.update({
+            where: { id: listing.id },
+            data: {
+                description: details?.description ?? listing.description,
+                images,
+                mileage: details?.mileage ?? null,
+                year: details?.year ?? null,
+                fuelType: details?.fuelType ?? null,
+                gearbox: details?.gearbox ?? null,
+                vin: details?.vin ?? null,
+                sellerType: details?.sellerType ?? null,
+                phone,
+                normalizedPhone: listingClusterService.normalizePhone(phone),
+                enrichedAt: new Date(),
+            },
+        });
+
+        // Phone and vehicle data from the detail page can reveal duplicates the search card didn't
+        await listingClusterService.assign(listing.id);
+
+        logger.info(`Enriched listing ${listing.id} from ${serviceName}`);
+        return { enriched: true };
+    } catch (error) {
+        logger.error(`Detail enrichment failed for listing ${listingId}:`, error);
+        if (isPermanentLoginError(error)) {
+            await job.discard();
+        }
+        throw error;
+    } finally {
+        if (session) {
+            await playwrightManager.release(session);
+        }
+    }
+});
+
+/**
+ * Queue detail page visits for freshly created listings
+ * Existing listings are never re-enriched, so callers should pass new listing IDs only
+ */
+export async function enqueueDetailEnrichment(listingIds: string[]): Promise<void> {
+    if (listingIds.length === 0) return;
+
+    await detailQueue.addBulk(listingIds.map(listingId => ({
+        data: { listingId },
+        opts: { jobId: `detail:${listingId}` },
+    })));
+
+    logger.debug(`Queued detail enrichment for ${listingIds.length} listings`);
+}
+
+// Queue event handlers
+detailQueue.on('failed', (job, err) => {
+    logger.error(`Detail job ${job.id} failed:`, err);
+});
+
+export default detailQueue;
@@ -0,0 +1,112 @@
+import Bull, { Queue, Job } from 'bull';
+import type { Listing } from '@prisma/client';
+import { redis } from '../config/redis.js';
+import { prisma } from '../config/database.js';
+import { logger } from '../utils/logger.js';
+import { emailService } from '../services/email.service.js';
+import {
+    renderEmail,
+    toEmailLanguage,
+    toEmailListing,
+    type DailyReport,
+    type EmailContent,
+} from '../services/email-templates.js';
+
+export interface EmailJobData {
+    // PENDING EMAIL notification to send
+    notificationId: string;
+}
+
+// Sends EMAIL notifications; the notification row records the outcome (SENT, or FAILED once retries run out)
+export const emailQueue: Queue<EmailJobData> = new Bull('email', {
+    redis: {
+        host: redis.options.host as string,
+        port: redis.options.port as number,
+        password: redis.options.password as string | undefined,
+    },
+    defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 50,
+        attempts: 5,
+        backoff: {
+            type: 'exponential',
+            delay: 60000,
+        },
+    },
+});
+
+emailQueue.process(2, async (job: Job<EmailJobData>) => {
+    const { notificationId } = job.data;
+
+    const notification = await prisma.notification.findUnique({
+        where: { id: notificationId },
+        include: {
+            user: { select: { email: true, language: true, deletedAt: true } },
+            listing: true,
+        },
+    });
+
+    if (!notification || notification.status !== 'PENDING' || notification.user.deletedAt) {
+        logger.debug(`Email notification ${notificationId} no longer pending, skipping`);
+        return { sent: false };
+    }
+
+    const content = getEmailContent(notification.payload as unknown as { type: string; report?: DailyReport }, notification.listing);
+    if (!content) {
+        await prisma.notification.update({
+            where: { id: notificationId },
+            data: { status: 'FAILED', error: 'No email template for this notification' },
+        });
+        return { sent: false };
+    }
+
+    const messageId = await emailService.send({
+        to: notification.user.email,
+        ...renderEmail(content, toEmailLanguage(notification.user.language)),
+    });
+
+    await prisma.notification.update({
+        where: { id: notificationId },
+        data: { status: 'SENT', sentAt: new Date(), externalId: messageId, error: null },
+    });
+
+    return { sent: true };
+});
+
+function getEmailContent(payload: { type: string; report?: DailyReport }, listing: Listing | null): EmailContent | null {
+    switch (payload.type) {
+        case 'new_listing':
+            return listing && { template: 'new_listing', listing: { ...toEmailListing(listing), previousPrice: null } };
+        case 'price_drop':
+            return listing && { template: 'price_drop', listing: toEmailListing(listing) };
+        case 'daily_report':
+            return payload.report ? { template: 'daily_report', report: payload.report } : null;
+        default:
+            return null;
+    }
+}
+
+export async function enqueueEmails(notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+
+    await emailQueue.addBulk(notificationIds.map(notificationId => ({
+        data: { notificationId },
+        opts: { jobId: `email:${notificationId}` },
+    })));
+
+    logger.debug(`Queued ${notificationIds.length} emails`);
+}
+
+// Queue event handlers
+emailQueue.on('failed', (job, err) => {
+    logger.error(`Email job ${job.id} failed:`, err);
+
+    // Keep the latest error; the notification only fails once no retry is left
+    const retriesExhausted = job.attemptsMade >= (job.opts.attempts ?? 1);
+    prisma.notification.updateMany({
+        where: { id: job.data.notificationId, status: 'PENDING' },
+        data: { error: err.message, ...(retriesExhausted && { status: 'FAILED' as const }) },
+    }).catch(error => logger.error(`Failed to record email failure for ${job.data.notificationId}:`, error));
+});
+
+export default emailQueue;
@@ -1,3 +1,10 @@
-export { searchQueue } from './search-processor.js';
+export { searchQueue, enqueueManualRun, type SearchJobData, type SearchJobResult } from './search-queue.js';
+export { detailQueue, enqueueDetailEnrichment } from './detail-enricher.js';
+export { removalCheckQueue, recordSearchRun } from './listing-lifecycle.js';
+export { reencryptionQueue, enqueueReencryption } from './reencryption-queue.js';
 export { searchScheduler } from './search-scheduler.js';
 export { notificationDispatcher } from './notification-dispatcher.js';
+export { notificationDigestQueue, scheduleNotificationDigest } from './notification-digest.js';
+export { pushReceiptsQueue, schedulePushReceipts } from './push-receipts.js';
+export { emailQueue, enqueueEmails, type EmailJobData } from './email-sender.js';
+export { dailyReportQueue, scheduleDailyReports } from './daily-report.js';
@@ -0,0 +1,207 @@
+import Bull, { Queue, Job } from 'bull';
+import { redis } from '../config/redis.js';
+import { prisma } from '../config/database.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { playwrightManager, isListingRemoved, randomDelay, resolveServiceConfig } from '../automation/index.js';
+import { acquireServiceSession, isPermanentLoginError } from './service-session.js';
+import { notificationDispatcher } from './notification-dispatcher.js';
+
+export interface RemovalCheckJobData {
+    listingId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Confirms on the detail page that a listing missing from search results is really gone
+export const removalCheckQueue: Queue<RemovalCheckJobData> = new Bull('listing-removal-check', {
+    redis: {
+        host: redis.options.host as string,
+        port: redis.options.port as number,
+        password: redis.options.password as string | undefined,
+    },
+    defaultJobOptions: {
+        // A listing may be checked again later, so its job ID must be free once done
+        removeOnComplete: true,
+        removeOnFail: true,
+        attempts: 2,
+        backoff: {
+            type: 'exponential',
+            delay: 10000,
+        },
+    },
+});
+
+removalCheckQueue.process(1, async (job: Job<RemovalCheckJobData>) => {
+    const { listingId } = job.data;
+
+    const listing = await prisma.listing.findUnique({
+        where: { id: listingId },
+        include: {
+            service: { select: { name: true, baseUrl: true, defaultConfig: true } },
+            // Any matching user's account can open the listing; use the first one's
+            matches: {
+                take: 1,
+                orderBy: { matchedAt: 'asc' },
+                select: { searchConfig: { select: { userId: true } } },
+            },
+        },
+    });
+
+    if (!listing || listing.status !== 'ACTIVE' || listing.matches.length === 0) {
+        return { removed: false };
+    }
+
+    const serviceName = listing.service.name;
+    const serviceConfig = resolveServiceConfig(listing.service);
+
+    let session;
+    try {
+        ({ session } = await acquireServiceSession({
+            userId: listing.matches[0].searchConfig.userId,
+            serviceId: listing.serviceId,
+            serviceName,
+            serviceBaseUrl: listing.service.baseUrl,
+            serviceConfig,
+            login: serviceConfig.requiresLogin ? 'required' : 'none',
+        }));
+
+        const removed = await isListingRemoved(session.page, listing.listingUrl, serviceConfig.removal, serviceName);
+        await randomDelay(1000, 2000);
+
+        if (removed) {
+            await markListingRemoved(listing.id);
+        } else {
+            // Still online, just no longer in the search results; check again after the next misses
+            await prisma.searchConfigListing.updateMany({
+                where: { listingId: listing.id },
+                data: { missedRuns: 0 },
+            });
+        }
+
+        return { removed };
+    } catch (error) {
+        logger.error(`Removal check failed for listing ${listingId}:`, error);
+        if (isPermanentLoginError(error)) {
+            await job.discard();
+        }
+        throw error;
+    } finally {
+        if (session) {
+            await playwrightManager.release(session);
+        }
+    }
+});
+
+/**
+ * Update the lifecycle of a search config's listings after a run
+ *
+ * Listings found again get lastSeenAt refreshed (a removed listing that reappears is active again).
+ * Missed runs are counted per search config match: active listings the config didn't find again
+ * have their counter increased; after
+ * config.listings.removedAfterMissedRuns misses in a row they're confirmed on the detail page
+ * (or marked removed right away when the detail check is disabled).
+ * Misses are only counted when the run saw every results page: one that stopped paging at known
+ * results didn't look for the older listings.
+ * @param seenPrimaryHashes primary hashes of every listing the run extracted, before vehicle filters
+ * @param allPagesSeen false when the run stopped before the last results page
+ */
+export async function recordSearchRun(searchConfigId: string, seenPrimaryHashes: string[], allPagesSeen: boolean): Promise<void> {
+    // An empty result is more likely a blocked or broken page than every listing gone at once
+    if (seenPrimaryHashes.length === 0) return;
+
+    const now = new Date();
+
+    await prisma.searchConfigListing.updateMany({
+        where: { searchConfigId, listing: { primaryHash: { in: seenPrimaryHashes } } },
+        data: { lastSeenAt: now, missedRuns: 0 },
+    });
+
+    // Listings are shared, so a listing seen by any config is active for everyone
+    await prisma.listing.updateMany({
+        where: { primaryHash: { in: seenPrimaryHashes } },
+        data: { lastSeenAt: now, status: 'ACTIVE', removedAt: null },
+    });
+
+    if (!allPagesSeen) return;
+
+    await prisma.searchConfigListing.updateMany({
+        where: {
+            searchConfigId,
+            listing: { status: 'ACTIVE', primaryHash: { notIn: seenPrimaryHashes } },
+        },
+        data: { missedRuns: { increment: 1 } },
+    });
+
+    const missing = (await prisma.searchConfigListing.findMany({
+        where: {
+            searchConfigId,
+            missedRuns: { gte: config.listings.removedAfterMissedRuns },
+            listing: { status: 'ACTIVE' },
+        },
+        select: { listingId: true },
+    })).map(match => ({ id: match.listingId }));
+
+    if (missing.length === 0) return;
+
+    if (!config.listings.removalDetailCheck) {
+        for (const { id } of missing) {
+            await markListingRemoved(id);
+        }
+        return;
+    }
+
+    await removalCheckQueue.addBulk(missing.map(({ id }) => ({
+        data: { listingId: id },
+        opts: { jobId: `removal:${id}` },
+    })));
+
+    logger.debug(`Queued removal checks for ${missing.length} listings of search ${searchConfigId}`);
+}
+
+/**
+ * Mark a listing removed and notify every user with a matching search that asks for it
+ */
+async function markListingRemoved(listingId: string): Promise<void> {
+    const removedAt = new Date();
+    const { count } = await prisma.listing.updateMany({
+        where: { id: listingId, status: 'ACTIVE' },
+        data: { status: 'REMOVED', removedAt },
+    });
+
+    if (count === 0) return;
+
+    const listing = await prisma.listing.findUnique({
+        where: { id: listingId },
+        select: {
+            title: true,
+            detectedAt: true,
+            matches: {
+                where: { searchConfig: { notifyOnRemoved: true } },
+                select: { searchConfig: { select: { userId: true } } },
+            },
+        },
+    });
+
+    const daysListed = Math.max(1, Math.round((removedAt.getTime() - listing.detectedAt.getTime()) / DAY_MS));
+    logger.info(`Listing ${listingId} removed after ${daysListed} days`);
+
+    const userIds = new Set(listing.matches.map(match => match.searchConfig.userId));
+
+    for (const userId of userIds) {
+        await notificationDispatcher.dispatch({
+            userId,
+            listingId,
+            type: 'listing_removed',
+            title: 'Ogłoszenie nieaktualne',
+            body: `${listing.title} - zniknęło po ${daysListed} ${daysListed === 1 ? 'dniu' : 'dniach'}`,
+        });
+    }
+}
+
+// Queue event handlers
+removalCheckQueue.on('failed', (job, err) => {
+    logger.error(`Removal check job ${job.id} failed:`, err);
+});
+
+export default removalCheckQueue;
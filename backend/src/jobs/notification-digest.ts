@@ -0,0 +1,51 @@
+import Bull, { Queue } from 'bull';
+import { redis } from '../config/redis.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { notificationDispatcher } from './notification-dispatcher.js';
+
+// Shortly before midnight, while the alerts still belong to the day they're summarizing
+const DIGEST_CRON = '55 23 * * *';
+const DIGEST_JOB_ID = 'daily-digest';
+
+// Sends the alerts held back by maxNotificationsDay as one digest per user
+export const notificationDigestQueue: Queue = new Bull('notification-digest', {
+    redis: {
+        host: redis.options.host as string,
+        port: redis.options.port as number,
+        password: redis.options.password as string | undefined,
+    },
+    defaultJobOptions: {
+        removeOnComplete: 10,
+        removeOnFail: 10,
+        attempts: 3,
+        backoff: {
+            type: 'exponential',
+            delay: 60000,
+        },
+    },
+});
+
+notificationDigestQueue.process(1, async (): Promise<{ digests: number }> => {
+    const digests = await notificationDispatcher.sendDigests();
+    return { digests };
+});
+
+// Queue event handlers
+notificationDigestQueue.on('failed', (job, err) => {
+    logger.error(`Notification digest job ${job.id} failed:`, err);
+});
+
+/**
+ * Register the daily digest job (every day in SCHEDULE_TIMEZONE); safe to call on every worker start
+ */
+export async function scheduleNotificationDigest(): Promise<void> {
+    await notificationDigestQueue.add({}, {
+        jobId: DIGEST_JOB_ID,
+        repeat: { cron: DIGEST_CRON, tz: config.schedule.timezone },
+    });
+
+    logger.info(`Notification digest scheduled (${DIGEST_CRON}, ${config.schedule.timezone})`);
+}
+
+export default notificationDigestQueue;
@@ -1,22 +1,56 @@
+import { randomUUID } from 'crypto';
+import type { MobileDevice, Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { logger } from '../utils/logger.js';
-// TODO: Import Firebase Admin for FCM when configured
-// import admin from 'firebase-admin';
+import { listingClusterService } from '../services/listing-cluster.service.js';
+import { usageService, type NotificationQuotaChannel } from '../services/usage.service.js';
+import { pushService, type PushMessage } from '../services/push.service.js';
+import { emailService } from '../services/email.service.js';
+import { entitlementService } from '../services/entitlement.service.js';
+import { toEmailListing, type DailyReport } from '../services/email-templates.js';
+import { enqueueEmails } from './email-sender.js';
 
 export interface NotificationPayload {
     userId: string;
-    listingId: string;
-    type: 'new_listing' | 'price_drop' | 'search_complete' | 'system';
+    // Omitted for system notifications that aren't about a listing
+    listingId?: string;
+    type: 'new_listing' | 'price_drop' | 'listing_removed' | 'search_complete' | 'system' | 'digest' | 'daily_report';
     title: string;
     body: string;
     data?: Record<string, string>;
 }
 
+// Notifications limited by maxNotificationsDay; system notifications and digests always go out
+const ALERT_TYPES = new Set<NotificationPayload['type']>(['new_listing', 'price_drop', 'listing_removed', 'search_complete']);
+
+// Alerts listed in a digest notification; the rest are only counted
+const MAX_DIGEST_ITEMS = 50;
+
+// Alerts also sent by email to users who opted in
+const EMAIL_TYPES = new Set<NotificationPayload['type']>(['new_listing', 'price_drop']);
+
+// Daily reports cover the day before they're sent and list this many listings per section
+const REPORT_PERIOD_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORT_LISTINGS = 20;
+
 class NotificationDispatcher {
     async dispatch(payload: NotificationPayload): Promise<void> {
         const { userId, listingId, type, title, body, data } = payload;
 
         try {
+            // The same car on another service was already announced
+            if (type === 'new_listing' && listingId && await listingClusterService.isClusterNotified(userId, listingId)) {
+                logger.debug(`Skipping notification for listing ${listingId}: duplicate already notified`);
+                return;
+            }
+
+            // Over the daily limit: keep it for the end-of-day digest
+            const { allowed } = await this.applyQuota([payload], p => p, 'IN_APP');
+            if (allowed.length === 0) {
+                await this.queueForDigest([payload]);
+                return;
+            }
+
             // Create in-app notification
             const notification = await prisma.notification.create({
                 data: {
@@ -36,16 +70,18 @@ class NotificationDispatcher {
             logger.debug(`Created in-app notification: ${notification.id}`);
 
             // Send push notifications to registered devices
-            await this.sendPushNotifications(userId, {
+            await this.sendPushNotifications(payload, {
                 notification: { title, body },
                 data: {
                     type,
-                    listingId,
+                    ...(listingId && { listingId }),
                     notificationId: notification.id,
                     ...data,
                 },
             });
 
+            await this.sendEmails([{ id: notification.id, payload }]);
+
             // TODO: WebSocket real-time notification
             // socketServer.sendToUser(userId, 'notification', notification);
 
@@ -54,10 +90,118 @@ class NotificationDispatcher {
         }
     }
 
+    /**
+     * Dispatch a batch of notifications with a few queries instead of several per notification
+     * Same rules as dispatch(), applied in order (a duplicate of a listing earlier in the batch is skipped).
+     */
+    async dispatchMany(payloads: NotificationPayload[]): Promise<void> {
+        if (payloads.length === 0) return;
+
+        try {
+            const notDuplicate = await this.skipNotifiedClusters(payloads);
+            const { allowed: toSend, overflow } = await this.applyQuota(notDuplicate, p => p, 'IN_APP');
+            await this.queueForDigest(overflow);
+            if (toSend.length === 0) return;
+
+            // Create in-app notifications; IDs are generated here so each push can reference its row
+            const notifications = toSend.map(payload => ({ id: randomUUID(), payload }));
+            await prisma.notification.createMany({
+                data: notifications.map(({ id, payload: { userId, listingId, type, title, body, data } }) => ({
+                    id,
+                    userId,
+                    listingId,
+                    channel: 'IN_APP' as const,
+                    status: 'DELIVERED' as const,
+                    payload: {
+                        type,
+                        title,
+                        body,
+                        ...data,
+                    },
+                })),
+            });
+
+            logger.debug(`Created ${notifications.length} in-app notifications`);
+
+            const devices = await prisma.mobileDevice.findMany({
+                where: {
+                    userId: { in: [...new Set(toSend.map(payload => payload.userId))] },
+                    isActive: true,
+                },
+            });
+
+            const withDevices = notifications.filter(({ payload }) => devices.some(device => device.userId === payload.userId));
+            const { allowed: toPush } = await this.applyQuota(withDevices, n => n.payload, 'PUSH');
+
+            for (const { id, payload: { userId, listingId, type, title, body, data } } of toPush) {
+                await this.sendPush(userId, devices.filter(device => device.userId === userId), {
+                    notification: { title, body },
+                    data: {
+                        type,
+                        ...(listingId && { listingId }),
+                        notificationId: id,
+                        ...data,
+                    },
+                });
+            }
+
+            await this.sendEmails(notifications);
+        } catch (error) {
+            logger.error('Failed to dispatch notifications:', error);
+        }
+    }
+
+    /**
+     * Batch counterpart of the cluster check in dispatch()
+     */
+    private async skipNotifiedClusters(payloads: NotificationPayload[]): Promise<NotificationPayload[]> {
+        const listingIds = [...new Set(payloads.map(p => p.listingId).filter((id): id is string => !!id))];
+        const listings = await prisma.listing.findMany({
+            where: { id: { in: listingIds }, clusterId: { not: null } },
+            select: { id: true, clusterId: true },
+        });
+        const clusterOf = new Map(listings.map(listing => [listing.id, listing.clusterId!]));
+
+        if (clusterOf.size === 0) return payloads;
+
+        // Listings notified per user and cluster
+        const notifiedListings = new Map<string, Set<string>>();
+        const markNotified = (userId: string, clusterId: string, listingId: string) => {
+            const key = `${userId}:${clusterId}`;
+            notifiedListings.set(key, (notifiedListings.get(key) ?? new Set()).add(listingId));
+        };
+
+        const notified = await prisma.notification.findMany({
+            where: {
+                userId: { in: [...new Set(payloads.map(p => p.userId))] },
+                listing: { clusterId: { in: [...new Set(clusterOf.values())] } },
+            },
+            select: { userId: true, listingId: true, listing: { select: { clusterId: true } } },
+            distinct: ['userId', 'listingId'],
+        });
+        notified.forEach(n => markNotified(n.userId, n.listing!.clusterId!, n.listingId!));
+
+        return payloads.filter(({ userId, listingId, type }) => {
+            const clusterId = listingId && clusterOf.get(listingId);
+            if (!clusterId) return true;
+
+            const others = [...(notifiedListings.get(`${userId}:${clusterId}`) ?? [])].filter(id => id !== listingId);
+            if (type === 'new_listing' && others.length > 0) {
+                logger.debug(`Skipping notification for listing ${listingId}: duplicate already notified`);
+                return false;
+            }
+
+            markNotified(userId, clusterId, listingId);
+            return true;
+        });
+    }
+
     private async sendPushNotifications(
-        userId: string,
-        message: { notification: { title: string; body: string }; data: Record<string, string> }
+        payload: NotificationPayload,
+        message: PushMessage
     ): Promise<void> {
+        const { userId } = payload;
+
         try {
             // Get user's registered devices
             const devices = await prisma.mobileDevice.findMany({
@@ -67,65 +211,280 @@ class NotificationDispatcher {
                 },
             });
 
+            if (devices.length > 0 && (await this.applyQuota([payload], p => p, 'PUSH')).allowed.length === 0) {
+                logger.debug(`Daily push limit reached for user: ${userId}`);
+                return;
+            }
+
+            await this.sendPush(userId, devices, message);
+        } catch (error) {
+            logger.error('Failed to send push notifications:', error);
+        }
+    }
+
+    private async sendPush(userId: string, devices: MobileDevice[], message: PushMessage): Promise<void> {
+        try {
             if (devices.length === 0) {
                 logger.debug(`No registered devices for user: ${userId}`);
                 return;
             }
 
-            // TODO: Implement actual Firebase push
-            /*
-            const tokens = devices.map(d => d.deviceToken);
-            
-            const response = await admin.messaging().sendEachForMulticast({
-              tokens,
-              notification: message.notification,
-              data: message.data,
-              android: {
-                priority: 'high',
-                notification: {
-                  sound: 'default',
-                  clickAction: 'OPEN_NOTIFICATION',
-                },
-              },
-              apns: {
-                payload: {
-                  aps: {
-                    sound: 'default',
-                    badge: 1,
-                  },
+            await pushService.send(userId, devices, message);
+        } catch (error) {
+            logger.error('Failed to send push notifications:', error);
+        }
+    }
+
+    /**
+     * Queue emails accompanying in-app alerts, for users who opted in to email notifications
+     * Emails count against the EMAIL daily limit; those over it are dropped (the digest covers them in-app).
+     */
+    private async sendEmails(notifications: { id: string; payload: NotificationPayload }[]): Promise<void> {
+        if (!emailService.isEnabled) return;
+
+        try {
+            const alerts = notifications.filter(({ payload }) => EMAIL_TYPES.has(payload.type));
+            if (alerts.length === 0) return;
+
+            const optedIn = await prisma.user.findMany({
+                where: {
+                    id: { in: [...new Set(alerts.map(({ payload }) => payload.userId))] },
+                    emailNotifications: true,
                 },
-              },
+                select: { id: true },
             });
-      
-            // Handle failed tokens
-            response.responses.forEach((resp, idx) => {
-              if (!resp.success && resp.error) {
-                logger.error(`FCM send failed for device ${devices[idx].id}:`, resp.error);
-                
-                // Deactivate invalid tokens
-                if (resp.error.code === 'messaging/invalid-registration-token' ||
-                    resp.error.code === 'messaging/registration-token-not-registered') {
-                  prisma.mobileDevice.update({
-                    where: { id: devices[idx].id },
-                    data: { isActive: false },
-                  }).catch(() => {});
-                }
-              }
+            const optedInIds = new Set(optedIn.map(user => user.id));
+
+            const { allowed } = await this.applyQuota(
+                alerts.filter(({ payload }) => optedInIds.has(payload.userId)),
+                n => n.payload,
+                'EMAIL'
+            );
+            if (allowed.length === 0) return;
+
+            const emails = allowed.map(({ payload }) => ({ id: randomUUID(), payload }));
+            await prisma.notification.createMany({
+                data: emails.map(({ id, payload: { userId, listingId, type, title, body, data } }) => ({
+                    id,
+                    userId,
+                    listingId,
+                    channel: 'EMAIL' as const,
+                    status: 'PENDING' as const,
+                    payload: {
+                        type,
+                        title,
+                        body,
+                        ...data,
+                    },
+                })),
             });
-      
-            logger.info(`Sent push notifications: ${response.successCount}/${tokens.length} successful`);
-            */
 
-            logger.debug(`Would send push to ${devices.length} devices (FCM not configured)`);
+            await enqueueEmails(emails.map(email => email.id));
         } catch (error) {
-            logger.error('Failed to send push notifications:', error);
+            logger.error('Failed to queue email notifications:', error);
+        }
+    }
+
+    /**
+     * Split notifications into those within their users' daily limit for a channel and the rest, keeping order
+     * Only alerts count against the limit (see ALERT_TYPES).
+     */
+    private async applyQuota<T>(
+        items: T[],
+        getPayload: (item: T) => NotificationPayload,
+        channel: NotificationQuotaChannel
+    ): Promise<{ allowed: T[]; overflow: T[] }> {
+        const alertsPerUser = new Map<string, number>();
+        for (const { userId, type } of items.map(getPayload)) {
+            if (ALERT_TYPES.has(type)) {
+                alertsPerUser.set(userId, (alertsPerUser.get(userId) ?? 0) + 1);
+            }
+        }
+
+        const remaining = new Map<string, number>();
+        for (const [userId, count] of alertsPerUser) {
+            remaining.set(userId, await usageService.reserveNotifications(userId, channel, count));
+        }
+
+        const allowed: T[] = [];
+        const overflow: T[] = [];
+        for (const item of items) {
+            const { userId, type } = getPayload(item);
+            const left = remaining.get(userId) ?? 0;
+
+            if (!ALERT_TYPES.has(type)) {
+                allowed.push(item);
+            } else if (left > 0) {
+                remaining.set(userId, left - 1);
+                allowed.push(item);
+            } else {
+                overflow.push(item);
+            }
         }
+
+        return { allowed, overflow };
+    }
+
+    private async queueForDigest(payloads: NotificationPayload[]): Promise<void> {
+        if (payloads.length === 0) return;
+
+        await prisma.notificationDigestItem.createMany({
+            data: payloads.map(payload => ({ userId: payload.userId, payload: { ...payload } })),
+        });
+
+        logger.debug(`Queued ${payloads.length} notifications for the daily digest`);
+    }
+
+    /**
+     * Send each user one in-app notification (and push) summarizing the alerts held back by their daily limit
+     * Run at the end of the day by the notification digest job.
+     * @returns number of digests sent
+     */
+    async sendDigests(): Promise<number> {
+        const items = await prisma.notificationDigestItem.findMany({
+            orderBy: { createdAt: 'asc' },
+        });
+
+        const itemsByUser = new Map<string, typeof items>();
+        for (const item of items) {
+            itemsByUser.set(item.userId, [...(itemsByUser.get(item.userId) ?? []), item]);
+        }
+
+        for (const [userId, userItems] of itemsByUser) {
+            const alerts = userItems.map(item => item.payload as unknown as NotificationPayload);
+            const title = 'Podsumowanie dnia';
+            const body = `${alerts.length} powiadomień ponad dzienny limit`;
+
+            const [notification] = await prisma.$transaction([
+                prisma.notification.create({
+                    data: {
+                        userId,
+                        channel: 'IN_APP',
+                        status: 'DELIVERED',
+                        payload: {
+                            type: 'digest',
+                            title,
+                            body,
+                            items: alerts.slice(0, MAX_DIGEST_ITEMS).map(({ listingId, type, title, body }) => ({
+                                listingId: listingId ?? null,
+                                type,
+                                title,
+                                body,
+                            })),
+                        },
+                    },
+                }),
+                prisma.notificationDigestItem.deleteMany({
+                    where: { id: { in: userItems.map(item => item.id) } },
+                }),
+            ]);
+
+            await this.sendPushNotifications({ userId, type: 'digest', title, body }, {
+                notification: { title, body },
+                data: { type: 'digest', notificationId: notification.id },
+            });
+        }
+
+        if (itemsByUser.size > 0) {
+            logger.info(`Sent ${itemsByUser.size} daily notification digests (${items.length} alerts)`);
+        }
+
+        return itemsByUser.size;
+    }
+
+    /**
+     * Email a report of the listings found in the last day to each user who opted in to email
+     * notifications and whose plan includes email reports; users with nothing new get none
+     * Run every morning by the daily report job.
+     * @returns number of reports queued
+     */
+    async sendDailyReports(): Promise<number> {
+        if (!emailService.isEnabled) return 0;
+
+        const since = new Date(Date.now() - REPORT_PERIOD_MS);
+        const users = await prisma.user.findMany({
+            where: { emailNotifications: true, deletedAt: null },
+            select: { id: true },
+        });
+
+        const reports: { id: string; userId: string; report: DailyReport }[] = [];
+        for (const { id: userId } of users) {
+            const { hasEmailReports } = await entitlementService.getEntitlements(userId);
+            if (!hasEmailReports) continue;
+
+            const report = await this.buildDailyReport(userId, since);
+            if (report.newListingsTotal + report.priceDropsTotal > 0) {
+                reports.push({ id: randomUUID(), userId, report });
+            }
+        }
+
+        if (reports.length === 0) return 0;
+
+        await prisma.notification.createMany({
+            data: reports.map(({ id, userId, report }) => ({
+                id,
+                userId,
+                channel: 'EMAIL' as const,
+                status: 'PENDING' as const,
+                payload: {
+                    type: 'daily_report',
+                    title: 'Raport dzienny',
+                    body: `${report.newListingsTotal} nowych ogłoszeń, ${report.priceDropsTotal} obniżek cen`,
+                    report: report as unknown as Prisma.InputJsonObject,
+                },
+            })),
+        });
+
+        await enqueueEmails(reports.map(report => report.id));
+        logger.info(`Queued ${reports.length} daily email reports`);
+
+        return reports.length;
+    }
+
+    private async buildDailyReport(userId: string, since: Date): Promise<DailyReport> {
+        // Listings still active that one of the user's searches found (ads excluded)
+        const userListings = {
+            status: 'ACTIVE' as const,
+            matches: { some: { searchConfig: { userId }, isAd: false } },
+        };
+        const newListingsWhere = {
+            ...userListings,
+            matches: { some: { searchConfig: { userId }, isAd: false, matchedAt: { gte: since } } },
+        };
+
+        const [newListings, newListingsTotal, repriced] = await Promise.all([
+            prisma.listing.findMany({
+                where: newListingsWhere,
+                orderBy: { detectedAt: 'desc' },
+                take: MAX_REPORT_LISTINGS,
+            }),
+            prisma.listing.count({ where: newListingsWhere }),
+            prisma.listing.findMany({
+                where: {
+                    ...userListings,
+                    previousPrice: { not: null },
+                    priceHistory: { some: { observedAt: { gte: since } } },
+                },
+                orderBy: { detectedAt: 'desc' },
+            }),
+        ]);
+
+        const priceDrops = repriced.filter(listing => listing.price !== null && listing.price < listing.previousPrice!);
+
+        return {
+            since: since.toISOString(),
+            newListings: newListings.map(toEmailListing),
+            newListingsTotal,
+            priceDrops: priceDrops.slice(0, MAX_REPORT_LISTINGS).map(toEmailListing),
+            priceDropsTotal: priceDrops.length,
+        };
     }
 
     async getUnreadCount(userId: string): Promise<number> {
         return prisma.notification.count({
             where: {
                 userId,
+                channel: 'IN_APP',
                 readAt: null,
             },
         });
@@ -148,6 +507,7 @@ class NotificationDispatcher {
         const result = await prisma.notification.updateMany({
             where: {
                 userId,
+                channel: 'IN_APP',
                 readAt: null,
             },
             data: {
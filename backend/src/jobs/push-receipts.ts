@@ -0,0 +1,44 @@
+import Bull, { Queue } from 'bull';
+import { redis } from '../config/redis.js';
+import { logger } from '../utils/logger.js';
+import { pushService } from '../services/push.service.js';
+
+const RECEIPTS_CRON = '*/15 * * * *';
+const RECEIPTS_JOB_ID = 'push-receipts';
+
+// Moves SENT push notifications to DELIVERED or FAILED once their providers report back
+export const pushReceiptsQueue: Queue = new Bull('push-receipts', {
+    redis: {
+        host: redis.options.host as string,
+        port: redis.options.port as number,
+        password: redis.options.password as string | undefined,
+    },
+    defaultJobOptions: {
+        removeOnComplete: 10,
+        removeOnFail: 10,
+    },
+});
+
+pushReceiptsQueue.process(1, async (): Promise<{ updated: number }> => {
+    const updated = await pushService.checkReceipts();
+    return { updated };
+});
+
+// Queue event handlers
+pushReceiptsQueue.on('failed', (job, err) => {
+    logger.error(`Push receipts job ${job.id} failed:`, err);
+});
+
+/**
+ * Register the receipt check job (every 15 minutes); safe to call on every worker start
+ */
+export async function schedulePushReceipts(): Promise<void> {
+    await pushReceiptsQueue.add({}, {
+        jobId: RECEIPTS_JOB_ID,
+        repeat: { cron: RECEIPTS_CRON },
+    });
+
+    logger.info(`Push receipt checks scheduled (${RECEIPTS_CRON})`);
+}
+
+export default pushReceiptsQueue;
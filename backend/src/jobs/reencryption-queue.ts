@@ -0,0 +1,35 @@
+import Bull, { Queue, Job } from 'bull';
+import { redis } from '../config/redis.js';
+
+export interface ReencryptionJobData {
+    requestedBy?: string;
+}
+
+export interface ReencryptionResult {
+    keyId: string;
+    credentials: { reencrypted: number; invalid: number };
+    browserProfiles: { reencrypted: number; discarded: number };
+    paymentSecrets: { reencrypted: number };
+}
+
+// Re-encrypts stored secrets with the newest key so older keys can be retired
+// Jobs are processed by the worker (reencryption.ts); the API only adds jobs and reads their state
+export const reencryptionQueue: Queue<ReencryptionJobData> = new Bull('reencryption', {
+    redis: {
+        host: redis.options.host as string,
+        port: redis.options.port as number,
+        password: redis.options.password as string | undefined,
+    },
+    defaultJobOptions: {
+        removeOnComplete: 20,
+        removeOnFail: 20,
+        attempts: 1,
+    },
+});
+
+/**
+ * Queue a re-encryption run (runs are processed one at a time)
+ */
+export async function enqueueReencryption(requestedBy?: string): Promise<Job<ReencryptionJobData>> {
+    return reencryptionQueue.add({ requestedBy });
+}
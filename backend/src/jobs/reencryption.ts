@@ -0,0 +1,136 @@
+import type { Job } from 'bull';
+import { prisma } from '../config/database.js';
+import { logger } from '../utils/logger.js';
+import { encryptionService } from '../services/encryption.service.js';
+import { credentialsService, CredentialsDecryptError } from '../services/credentials.service.js';
+import { browserProfileService } from '../services/browser-profile.service.js';
+import { reencryptionQueue, type ReencryptionJobData, type ReencryptionResult } from './reencryption-queue.js';
+
+const BATCH_SIZE = 100;
+const PAYMENT_SECRET_FIELDS = ['clientSecretEnc', 'secondKeyEnc', 'webhookSecretEnc'] as const;
+
+// Process jobs
+reencryptionQueue.process(1, async (job: Job<ReencryptionJobData>): Promise<ReencryptionResult> => {
+    const keyId = encryptionService.getCurrentKeyId();
+    logger.info(`Re-encrypting secrets with key "${keyId}"`);
+
+    const credentials = await reencryptCredentials();
+    await job.progress(40);
+
+    const browserProfiles = await reencryptBrowserProfiles();
+    await job.progress(80);
+
+    const paymentSecrets = await reencryptPaymentSecrets();
+    await job.progress(100);
+
+    logger.info(
+        `Re-encryption with key "${keyId}" done: ${credentials.reencrypted} credentials ` +
+        `(${credentials.invalid} undecryptable), ${browserProfiles.reencrypted} browser profiles ` +
+        `(${browserProfiles.discarded} discarded), ${paymentSecrets.reencrypted} payment secrets`
+    );
+
+    return { keyId, credentials, browserProfiles, paymentSecrets };
+});
+
+async function reencryptCredentials(): Promise<ReencryptionResult['credentials']> {
+    let reencrypted = 0;
+    let invalid = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+        const batch = await prisma.serviceCredentials.findMany({
+            take: BATCH_SIZE,
+            ...(cursor && { skip: 1, cursor: { id: cursor } }),
+            orderBy: { id: 'asc' },
+        });
+
+        if (batch.length === 0) break;
+        cursor = batch[batch.length - 1].id;
+
+        for (const credentials of batch) {
+            if (!credentialsService.needsReencryption(credentials)) continue;
+
+            try {
+                await credentialsService.reencrypt(credentials);
+                reencrypted++;
+            } catch (error) {
+                if (!(error instanceof CredentialsDecryptError)) throw error;
+
+                // Nothing to migrate; the user has to enter the credentials again
+                if (credentials.isValid) {
+                    await credentialsService.markInvalid(credentials.userServiceId, error.message);
+                }
+                invalid++;
+            }
+        }
+    }
+
+    return { reencrypted, invalid };
+}
+
+async function reencryptBrowserProfiles(): Promise<ReencryptionResult['browserProfiles']> {
+    let reencrypted = 0;
+    let discarded = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+        const batch = await prisma.browserProfile.findMany({
+            take: BATCH_SIZE,
+            ...(cursor && { skip: 1, cursor: { id: cursor } }),
+            orderBy: { id: 'asc' },
+        });
+
+        if (batch.length === 0) break;
+        cursor = batch[batch.length - 1].id;
+
+        for (const profile of batch) {
+            if (!browserProfileService.needsReencryption(profile)) continue;
+
+            try {
+                await browserProfileService.reencrypt(profile);
+                reencrypted++;
+            } catch (error) {
+                // Only cookies and local storage; the next session starts fresh and logs in again
+                logger.warn(`Discarding browser profile ${profile.profileKey} that can't be re-encrypted:`, error);
+                await prisma.browserProfile.delete({ where: { id: profile.id } }).catch(() => { });
+                discarded++;
+            }
+        }
+    }
+
+    return { reencrypted, discarded };
+}
+
+async function reencryptPaymentSecrets(): Promise<ReencryptionResult['paymentSecrets']> {
+    let reencrypted = 0;
+    const settings = await prisma.paymentSettings.findMany();
+
+    for (const provider of settings) {
+        const data: Partial<Record<typeof PAYMENT_SECRET_FIELDS[number], Buffer>> = {};
+
+        for (const field of PAYMENT_SECRET_FIELDS) {
+            const value = provider[field];
+            if (!value) continue;
+
+            const envelope = Buffer.from(value);
+            if (!encryptionService.needsReencryption(envelope)) continue;
+
+            // A secret that can't be decrypted fails the job: payment config must not be lost silently
+            data[field] = encryptionService.encryptEnvelope(encryptionService.decryptEnvelope(envelope));
+        }
+
+        if (Object.keys(data).length > 0) {
+            await prisma.paymentSettings.update({ where: { id: provider.id }, data });
+            reencrypted += Object.keys(data).length;
+        }
+    }
+
+    return { reencrypted };
+}
+
+// Queue event handlers
+reencryptionQueue.on('failed', (job, err) => {
+    logger.error(`Re-encryption job ${job.id} failed:`, err);
+});
+
+export default reencryptionQueue;
@@ -0,0 +1,253 @@
+import type { ExtractedListing } from '../automation/index.js';
+import { encryptionService } from '../services/encryption.service.js';
+import { listingClusterService } from '../services/listing-cluster.service.js';
+import { fakeDatabase } from '../test/fake-prisma.js';
+import { notificationDispatcher, type NotificationPayload } from './notification-dispatcher.js';
+import type { SearchJobData } from './search-queue.js';
+import { processListings } from './search-processor.js';
+
+// The database is the in-memory fake; Redis, Bull and Playwright are never loaded
+jest.mock('../config/database.js', () => ({ prisma: require('../test/fake-prisma.js').fakeDatabase.prisma }));
+jest.mock('../config/redis.js', () => ({ redis: { options: {} } }));
+jest.mock('../automation/index.js', () => ({}));
+jest.mock('./search-queue.js', () => ({ searchQueue: { process: jest.fn(), on: jest.fn() } }));
+jest.mock('./notification-dispatcher.js', () => ({
+    notificationDispatcher: { dispatch: jest.fn(), dispatchMany: jest.fn() },
+}));
+jest.mock('./detail-enricher.js', () => ({}));
+jest.mock('./listing-lifecycle.js', () => ({}));
+jest.mock('./service-session.js', () => ({}));
+jest.mock('../services/search-run.service.js', () => ({}));
+jest.mock('../services/usage.service.js', () => ({}));
+
+const SERVICE_ID = 'service-otomoto';
+
+const jobData = {
+    searchConfigId: 'config-own',
+    userId: 'user-own',
+    serviceId: SERVICE_ID,
+    serviceName: 'otomoto',
+    serviceBaseUrl: 'https://www.otomoto.pl',
+    keywords: ['golf'],
+    priceMin: null,
+    priceMax: null,
+    location: null,
+    filters: {},
+} as SearchJobData;
+
+const searchConfigs = [
+    { id: 'config-own', userId: 'user-own', priceDropMinPercent: null },
+    { id: 'config-other', userId: 'user-other', priceDropMinPercent: 5 },
+    { id: 'config-strict', userId: 'user-strict', priceDropMinPercent: 50 },
+    { id: 'config-second', userId: 'user-other', priceDropMinPercent: null },
+];
+
+const seed = [
+    // Matched by this config, unchanged
+    { externalId: 'known', price: 25000, matchedBy: ['config-own'] },
+    // Dropped 10%: notable for every config but the strict one
+    { externalId: 'dropped', price: 40000, matchedBy: ['config-own', 'config-other', 'config-strict', 'config-second'] },
+    // Raised, recorded without a notification
+    { externalId: 'raised', price: 20000, matchedBy: ['config-own'] },
+    // Stored by another config, new to this one
+    { externalId: 'shared', price: 18000, matchedBy: ['config-other'] },
+    // Had no price before, so nothing dropped
+    { externalId: 'priced', price: null, matchedBy: ['config-own'] },
+];
+
+function listing(overrides: Partial<ExtractedListing> & { externalId: string }): ExtractedListing {
+    return {
+        title: `VW Golf ${overrides.externalId}`,
+        description: null,
+        price: 30000,
+        currency: 'PLN',
+        location: 'Warszawa',
+        phone: '+48 600 100 200',
+        listingUrl: `https://www.otomoto.pl/oferta/${overrides.externalId}`,
+        images: [],
+        ...overrides,
+    };
+}
+
+const page: ExtractedListing[] = [
+    listing({ externalId: 'new-1', price: 31000 }),
+    listing({ externalId: 'known', price: 25000 }),
+    listing({ externalId: 'dropped', price: 36000 }),
+    listing({ externalId: 'raised', price: 21000 }),
+    listing({ externalId: 'shared', price: 17000 }),
+    listing({ externalId: 'no-price', price: null, phone: null }),
+    listing({ externalId: 'priced', price: 15000 }),
+    // Promoted listing shown again further down the page
+    listing({ externalId: 'new-1', price: 31000 }),
+    listing({ externalId: 'new-2', price: 12000, location: null }),
+];
+
+/**
+ * Empty tables holding the seed listings, their price history and config matches
+ */
+function seedDatabase() {
+    fakeDatabase.reset({
+        searchConfig: {},
+        listing: {
+            defaults: { previousPrice: null },
+            unique: [['primaryHash']],
+        },
+        listingPriceHistory: {},
+        searchConfigListing: {
+            defaults: { isAd: false },
+            unique: [['searchConfigId', 'listingId']],
+            relations: {
+                listing: { model: 'listing', foreignKey: 'listingId' },
+                searchConfig: { model: 'searchConfig', foreignKey: 'searchConfigId' },
+            },
+        },
+    });
+
+    fakeDatabase.seed('searchConfig', searchConfigs);
+
+    for (const { externalId, price, matchedBy } of seed) {
+        const [row] = fakeDatabase.seed('listing', [{
+            serviceId: SERVICE_ID,
+            externalId,
+            title: `VW Golf ${externalId}`,
+            price,
+            currency: 'PLN',
+            primaryHash: encryptionService.createListingPrimaryHash(SERVICE_ID, externalId),
+            detectedAt: new Date('2024-01-01'),
+        }]);
+        if (price) {
+            fakeDatabase.seed('listingPriceHistory', [{ listingId: row.id, price, currency: 'PLN' }]);
+        }
+        fakeDatabase.seed('searchConfigListing', matchedBy.map(searchConfigId => ({ searchConfigId, listingId: row.id })));
+    }
+}
+
+function storedListing(externalId: string) {
+    const rows = fakeDatabase.tables.listing.filter(row => row.externalId === externalId);
+    expect(rows).toHaveLength(1);
+    return rows[0];
+}
+
+function priceHistoryOf(externalId: string): number[] {
+    const { id } = storedListing(externalId);
+    return fakeDatabase.tables.listingPriceHistory.filter(row => row.listingId === id).map(row => row.price);
+}
+
+function configsMatching(externalId: string): string[] {
+    const { id } = storedListing(externalId);
+    return fakeDatabase.tables.searchConfigListing.filter(row => row.listingId === id).map(row => row.searchConfigId).sort();
+}
+
+function dispatched(): NotificationPayload[] {
+    return jest.mocked(notificationDispatcher.dispatchMany).mock.calls.flatMap(([payloads]) => payloads);
+}
+
+function notificationsFor(externalId: string) {
+    const { id } = storedListing(externalId);
+    return dispatched()
+        .filter(notification => notification.listingId === id)
+        .map(({ userId, type, title, body }) => ({ userId, type, title, body }));
+}
+
+describe('processListings', () => {
+    let result: Awaited<ReturnType<typeof processListings>>;
+
+    beforeEach(async () => {
+        seedDatabase();
+        jest.clearAllMocks();
+        jest.spyOn(listingClusterService, 'assign').mockResolvedValue(null);
+
+        result = await processListings(jobData, page);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('leaves an unchanged listing this config already matched alone', () => {
+        expect(storedListing('known')).toMatchObject({ price: 25000, previousPrice: null });
+        expect(priceHistoryOf('known')).toEqual([25000]);
+        expect(configsMatching('known')).toEqual(['config-own']);
+        expect(notificationsFor('known')).toEqual([]);
+    });
+
+    it('records a price drop and notifies each user whose threshold it passes once', () => {
+        expect(storedListing('dropped')).toMatchObject({ price: 36000, previousPrice: 40000 });
+        expect(priceHistoryOf('dropped')).toEqual([40000, 36000]);
+        expect(configsMatching('dropped')).toEqual(['config-other', 'config-own', 'config-second', 'config-strict']);
+        expect(notificationsFor('dropped')).toEqual([
+            { userId: 'user-own', type: 'price_drop', title: 'Spadek ceny: VW Golf dropped', body: '40000 → 36000 PLN' },
+            { userId: 'user-other', type: 'price_drop', title: 'Spadek ceny: VW Golf dropped', body: '40000 → 36000 PLN' },
+        ]);
+    });
+
+    it('records a price increase without notifying', () => {
+        expect(storedListing('raised')).toMatchObject({ price: 21000, previousPrice: 20000 });
+        expect(priceHistoryOf('raised')).toEqual([20000, 21000]);
+        expect(notificationsFor('raised')).toEqual([]);
+    });
+
+    it('matches a listing stored by another config and notifies its drop to that config', () => {
+        const { id } = storedListing('shared');
+
+        expect(storedListing('shared')).toMatchObject({ price: 17000, previousPrice: 18000 });
+        expect(priceHistoryOf('shared')).toEqual([18000, 17000]);
+        expect(configsMatching('shared')).toEqual(['config-other', 'config-own']);
+        // 1000 PLN is 5.5% of the old price, enough for config-other
+        expect(notificationsFor('shared')).toEqual([
+            { userId: 'user-other', type: 'price_drop', title: 'Spadek ceny: VW Golf shared', body: '18000 → 17000 PLN' },
+            { userId: 'user-own', type: 'new_listing', title: 'Nowe ogłoszenie', body: 'VW Golf shared - 17000 PLN' },
+        ]);
+        expect(listingClusterService.assign).toHaveBeenCalledWith(id);
+        expect(result.newListingIds).not.toContain(id);
+    });
+
+    it('records the first price of a listing without calling it a drop', () => {
+        expect(storedListing('priced')).toMatchObject({ price: 15000, previousPrice: null });
+        expect(priceHistoryOf('priced')).toEqual([15000]);
+        expect(notificationsFor('priced')).toEqual([]);
+    });
+
+    it('stores a listing shown twice on the page once', () => {
+        const { id } = storedListing('new-1');
+
+        expect(storedListing('new-1')).toMatchObject({
+            price: 31000,
+            previousPrice: null,
+            location: 'Warszawa',
+            listingUrl: 'https://www.otomoto.pl/oferta/new-1',
+        });
+        expect(priceHistoryOf('new-1')).toEqual([31000]);
+        expect(configsMatching('new-1')).toEqual(['config-own']);
+        expect(notificationsFor('new-1')).toEqual([
+            { userId: 'user-own', type: 'new_listing', title: 'Nowe ogłoszenie', body: 'VW Golf new-1 - 31000 PLN' },
+        ]);
+        expect(jest.mocked(listingClusterService.assign).mock.calls.filter(([listingId]) => listingId === id)).toHaveLength(1);
+    });
+
+    it('stores a new listing without a price with no price history', () => {
+        expect(storedListing('no-price')).toMatchObject({ price: null, phone: null, normalizedPhone: null });
+        expect(priceHistoryOf('no-price')).toEqual([]);
+        expect(notificationsFor('no-price')).toEqual([
+            { userId: 'user-own', type: 'new_listing', title: 'Nowe ogłoszenie', body: 'VW Golf no-price - Brak ceny PLN' },
+        ]);
+    });
+
+    it('returns the new listings and price drops and notifies in page order', () => {
+        const ids = ['new-1', 'no-price', 'new-2'].map(externalId => storedListing(externalId).id);
+
+        expect(result.newListingIds).toEqual(ids);
+        expect(result.priceDrops).toBe(2);
+        expect(fakeDatabase.tables.listing).toHaveLength(seed.length + 3);
+        expect(notificationDispatcher.dispatchMany).toHaveBeenCalledTimes(1);
+        expect(dispatched().map(({ type, userId }) => `${type}:${userId}`)).toEqual([
+            'new_listing:user-own',
+            'price_drop:user-own',
+            'price_drop:user-other',
+            'price_drop:user-other',
+            'new_listing:user-own',
+            'new_listing:user-own',
+            'new_listing:user-own',
+        ]);
+    });
+});
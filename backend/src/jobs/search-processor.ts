@@ -1,210 +1,418 @@
 // @ts-nocheck - Uses Playwright with DOM APIs
-import Bull, { Queue, Job } from 'bull';
-import { redis } from '../config/redis.js';
+import { createHash } from 'crypto';
+import type { Job } from 'bull';
 import { prisma } from '../config/database.js';
+import { redis } from '../config/redis.js';
 import { logger } from '../utils/logger.js';
-import { playwrightManager, extractListings, extractPhoneFromDetailPage, supportsPhoneExtraction } from '../automation/index.js';
+import {
+    playwrightManager,
+    extractListings,
+    handleCookieConsent,
+    randomDelay,
+    WorkflowExecutor,
+    getServiceSearchWorkflow,
+    loadServiceConfig,
+    buildSearchUrl,
+    getSearchUrlVariables,
+    filterListings,
+    type ExtractedListing,
+    type ListingExtraction,
+} from '../automation/index.js';
+import type { Workflow } from '../automation/workflow-executor.js';
 import { encryptionService } from '../services/encryption.service.js';
-import { notificationDispatcher } from './notification-dispatcher.js';
-
-export interface SearchJobData {
-    searchConfigId: string;
-    userId: string;
-    serviceId: string;
-    serviceName: string;
-    serviceBaseUrl: string;
-    keywords: string[];
-    priceMin: number | null;
-    priceMax: number | null;
-    location: string | null;
-}
+import { listingClusterService } from '../services/listing-cluster.service.js';
+import { notificationDispatcher, type NotificationPayload } from './notification-dispatcher.js';
+import { enqueueDetailEnrichment } from './detail-enricher.js';
+import { recordSearchRun } from './listing-lifecycle.js';
+import { acquireServiceSession, isPermanentLoginError } from './service-session.js';
+import { searchQueue, type SearchJobData, type SearchJobResult } from './search-queue.js';
+import { searchRunService, type SearchRunDiagnostics } from '../services/search-run.service.js';
+import { usageService } from '../services/usage.service.js';
 
-// Create queue
-export const searchQueue: Queue<SearchJobData> = new Bull('search-jobs', {
-    redis: {
-        host: redis.options.host as string,
-        port: redis.options.port as number,
-        password: redis.options.password as string | undefined,
-    },
-    defaultJobOptions: {
-        removeOnComplete: 100,
-        removeOnFail: 50,
-        attempts: 3,
-        backoff: {
-            type: 'exponential',
-            delay: 5000,
-        },
-    },
-});
+type StoredListing = { id: string; primaryHash: string; price: number | null };
+
+// How long listings rejected by a config's vehicle filters are remembered for isPageKnown
+const FILTERED_LISTINGS_TTL_SECONDS = 30 * 24 * 60 * 60;
 
 // Process jobs
-searchQueue.process(2, async (job: Job<SearchJobData>) => {
-    const { searchConfigId, serviceName, serviceBaseUrl, keywords, priceMin, priceMax, location } = job.data;
+searchQueue.process(2, async (job: Job<SearchJobData>): Promise<SearchJobResult> => {
+    const { searchConfigId, userId, serviceId, serviceName, serviceBaseUrl, keywords, priceMin, priceMax, location } = job.data;
+    const filters = job.data.filters ?? {};
 
     logger.info(`Processing search job: ${searchConfigId}`);
 
+    const run = await searchRunService.start({
+        searchConfigId,
+        jobId: String(job.id),
+        attempt: job.attemptsMade + 1,
+        manual: !!job.data.manual,
+    });
+    const diagnostics: SearchRunDiagnostics = { url: null, logs: [], screenshots: [] };
+
+    // Browser time counts against the user's daily search minutes, failed jobs included
+    const startedAt = Date.now();
     let session;
     try {
-        // Acquire browser session
-        session = await playwrightManager.acquire();
+        const serviceConfig = await loadServiceConfig(serviceId);
 
-        // Build search URL based on service
-        const searchUrl = buildSearchUrl(serviceName, serviceBaseUrl, keywords, priceMin, priceMax, location);
-        logger.info(`Navigating to: ${searchUrl}`);
+        // Acquire browser session, logged in with the user's credentials when the service requires it
+        ({ session } = await acquireServiceSession({
+            userId,
+            serviceId,
+            serviceName,
+            serviceBaseUrl,
+            serviceConfig,
+            login: serviceConfig.requiresLogin ? 'required' : 'none',
+        }));
+        // Progress in percent, shown for manual runs
+        await job.progress(10);
+
+        // Prefer the workflow stored for the service, fall back to built-in extractors
+        const workflow = await getServiceSearchWorkflow(serviceId);
+        let extractedListings: ExtractedListing[];
+        // Whether the run looked at every results page, so listings it didn't find count as missed
+        let extractionComplete: boolean;
+        // Vehicle filters the site already applied; the rest are checked after extraction
+        let serverSideFilters: ReadonlySet<string> = new Set();
+
+        if (workflow) {
+            ({ listings: extractedListings, complete: extractionComplete } = await runSearchWorkflow(
+                session.page,
+                workflow,
+                job.data,
+                diagnostics
+            ));
+        } else {
+            // Build search URL from the service's searchUrlPattern
+            const { url: searchUrl, used } = buildSearchUrl(
+                serviceConfig,
+                serviceBaseUrl,
+                getSearchUrlVariables({ keywords, priceMin, priceMax, location, filters })
+            );
+            serverSideFilters = used;
+            diagnostics.url = searchUrl;
+            logger.info(`Navigating to: ${searchUrl}`);
 
-        // Navigate and extract
-        await session.page.goto(searchUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
-        await randomDelay(2000, 4000);
+            // Navigate and extract
+            await session.page.goto(searchUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+            await randomDelay(2000, 4000);
 
-        // Handle cookie consent popups
-        await handleCookieConsent(session.page);
+            // Handle cookie consent popups
+            await handleCookieConsent(session.page);
 
-        // Scroll to load lazy content
-        await session.page.evaluate(() => window.scrollBy(0, 500));
-        await randomDelay(1000, 2000);
+            // Scroll to load lazy content
+            await session.page.evaluate(() => window.scrollBy(0, 500));
+            await randomDelay(1000, 2000);
 
-        // Extract listings from search results page
-        const extractedListings = await extractListings(session.page, serviceName);
+            // Extract listings from search results page
+            ({ listings: extractedListings, complete: extractionComplete } = await extractListings(
+                session.page,
+                serviceConfig,
+                serviceName,
+                { isPageKnown: (pageListings) => isPageKnown(job.data, pageListings) }
+            ));
+        }
 
-        // Extract phone numbers for first 5 listings (to avoid rate limiting)
-        const listingsWithPhones = await extractPhoneNumbers(
-            session.page,
-            extractedListings,
-            serviceName,
-            5 // Max listings to extract phones for
-        );
+        await job.progress(60);
+
+        const matchingListings = filterListings(extractedListings, filters, serverSideFilters);
+        if (matchingListings.length < extractedListings.length) {
+            logger.debug(`Filtered out ${extractedListings.length - matchingListings.length} listings not matching vehicle filters`);
+            await rememberFilteredListings(job.data, extractedListings.filter(listing => !matchingListings.includes(listing)));
+        }
 
         // Process and deduplicate
-        const newListings = await processListings(job.data, listingsWithPhones);
+        const { newListingIds: newListings, priceDrops } = await processListings(job.data, matchingListings);
+
+        // Visit detail pages of new listings only (description, gallery, phone, vehicle data)
+        await enqueueDetailEnrichment(newListings);
+        await job.progress(90);
+
+        // Refresh lastSeenAt of listings still online, count misses for the rest
+        await recordSearchRun(
+            searchConfigId,
+            extractedListings.map(listing => encryptionService.createListingPrimaryHash(serviceId, listing.externalId)),
+            extractionComplete
+        );
 
-        // Update last run time
+        // Update last run time (the scheduler sets nextRunAt when queueing the run)
         await prisma.searchConfig.update({
             where: { id: searchConfigId },
             data: {
                 lastRunAt: new Date(),
-                nextRunAt: calculateNextRun(job.data),
             },
         });
 
         logger.info(`Search job ${searchConfigId} completed: ${newListings.length} new listings`);
 
-        return { newListingsCount: newListings.length };
+        await searchRunService.complete(run, {
+            url: diagnostics.url,
+            listingsExtracted: extractedListings.length,
+            listingsMatched: matchingListings.length,
+            newListings: newListings.length,
+            priceDrops,
+            logs: diagnostics.logs,
+        });
+
+        return { newListingsCount: newListings.length, listingsCount: matchingListings.length };
     } catch (error) {
         logger.error(`Search job failed: ${searchConfigId}`, error);
+
+        // Workflows screenshot their failing step; otherwise capture the page as the run left it
+        if (session && diagnostics.screenshots.length === 0) {
+            try {
+                diagnostics.url ??= session.page.url();
+                diagnostics.screenshots.push(await session.page.screenshot({ fullPage: false }));
+            } catch (screenshotError) {
+                logger.debug('Failed to take failure screenshot:', screenshotError);
+            }
+        }
+        await searchRunService.fail(run, error, diagnostics);
+
+        if (isPermanentLoginError(error)) {
+            // Retrying can't fix missing or rejected credentials
+            await job.discard();
+        }
         throw error;
     } finally {
         if (session) {
             await playwrightManager.release(session);
+            await recordSearchTime(userId, Date.now() - startedAt);
         }
     }
 });
 
 /**
- * Extract phone numbers by visiting each listing's detail page
- * Limited to maxCount to avoid rate limiting
+ * Add the job's browser time to the user's daily usage and tell them when it used up their limit
+ * The scheduler stops running their searches until the limit resets at midnight.
+ */
+async function recordSearchTime(userId: string, durationMs: number): Promise<void> {
+    try {
+        const usage = await usageService.addSearchTime(userId, durationMs);
+
+        if (usage.limitReached) {
+            await notificationDispatcher.dispatch({
+                userId,
+                type: 'system',
+                title: 'Wykorzystano dzienny limit wyszukiwania',
+                body: `Wyszukiwania wykorzystały ${usage.limitMinutes} min dostępnych na dziś i zostały wstrzymane do północy.`,
+                data: { reason: 'daily_search_limit' },
+            });
+        }
+    } catch (error) {
+        logger.error(`Failed to record search time of user ${userId}:`, error);
+    }
+}
+
+/**
+ * Run a stored search workflow and collect the listings from its EXTRACT steps
+ * Search config values are exposed to steps as {{variable}} placeholders
+ * The run is complete only when it had structured EXTRACT steps and each covered every results page
  */
-async function extractPhoneNumbers(
+async function runSearchWorkflow(
     page: any,
-    listings: Awaited<ReturnType<typeof extractListings>>,
-    serviceName: string,
-    maxCount: number
-): Promise<Awaited<ReturnType<typeof extractListings>>> {
-    // Check if service supports phone extraction
-    if (!supportsPhoneExtraction(serviceName)) {
-        logger.debug(`Service ${serviceName} does not support phone extraction`);
-        return listings;
+    workflow: Workflow,
+    jobData: SearchJobData,
+    diagnostics: SearchRunDiagnostics
+): Promise<ListingExtraction> {
+    logger.info(`Running search workflow "${workflow.name}" (v${workflow.version}) for ${jobData.serviceName}`);
+
+    const executor = new WorkflowExecutor(page);
+    executor.setVariables(buildWorkflowVariables(jobData));
+
+    let context;
+    try {
+        context = await executor.execute(workflow);
+    } finally {
+        const { logs, screenshots } = executor.getContext();
+        diagnostics.url = page.url();
+        diagnostics.logs = logs;
+        // Screenshots are kept as data URLs by the executor
+        diagnostics.screenshots = screenshots.map(dataUrl => Buffer.from(dataUrl.split(',')[1], 'base64'));
     }
 
-    const results = [];
-    const toExtract = listings.slice(0, maxCount);
-    const remaining = listings.slice(maxCount);
+    // Only structured EXTRACT results (steps with `fields`) produce listings
+    const listings = Object.values(context.results)
+        .filter(Array.isArray)
+        .flat()
+        .filter((item: Partial<ExtractedListing>) => !!item?.externalId && !!item?.listingUrl) as ExtractedListing[];
+    const completeness = Object.values(context.resultsComplete);
 
-    for (const listing of toExtract) {
-        try {
-            logger.debug(`Extracting phone for: ${listing.title}`);
+    return { listings, complete: completeness.length > 0 && completeness.every(Boolean) };
+}
 
-            // Navigate to detail page
-            await page.goto(listing.listingUrl, {
-                waitUntil: 'domcontentloaded',
-                timeout: 15000
-            });
-            await randomDelay(1000, 2000);
+/**
+ * A results page is "known" when this config already matched or filtered out every listing on it,
+ * meaning later pages were seen in earlier runs too
+ */
+async function isPageKnown(jobData: SearchJobData, pageListings: ExtractedListing[]): Promise<boolean> {
+    const hashes = pageListings.map(listing =>
+        encryptionService.createListingPrimaryHash(jobData.serviceId, listing.externalId)
+    );
+
+    const matches = await prisma.searchConfigListing.findMany({
+        where: {
+            searchConfigId: jobData.searchConfigId,
+            listing: { primaryHash: { in: hashes } },
+        },
+        select: { listing: { select: { primaryHash: true } } },
+    });
+    const matched = new Set(matches.map(match => match.listing.primaryHash));
 
-            // Handle cookie consent on detail page
-            await handleCookieConsent(page);
+    // Listings the vehicle filters rejected are never stored, so check the ones remembered from earlier runs
+    const unmatched = hashes.filter(hash => !matched.has(hash));
+    if (unmatched.length === 0) return true;
 
-            // Extract phone
-            const phone = await extractPhoneFromDetailPage(page, serviceName);
+    const filtered = await redis.smismember(filteredListingsKey(jobData), ...unmatched);
+    return filtered.every(Boolean);
+}
 
-            results.push({
-                ...listing,
-                phone: phone || listing.phone,
-            });
+/**
+ * Remember listings the config's vehicle filters rejected, so pages holding them can count as known
+ */
+async function rememberFilteredListings(jobData: SearchJobData, listings: ExtractedListing[]): Promise<void> {
+    const key = filteredListingsKey(jobData);
 
-            // Random delay between extractions to avoid detection
-            await randomDelay(1500, 3000);
-        } catch (error) {
-            logger.debug(`Failed to extract phone for ${listing.listingUrl}:`, error);
-            results.push(listing);
-        }
-    }
+    await redis.multi()
+        .sadd(key, ...listings.map(listing => encryptionService.createListingPrimaryHash(jobData.serviceId, listing.externalId)))
+        .expire(key, FILTERED_LISTINGS_TTL_SECONDS)
+        .exec();
+}
 
-    // Add remaining listings without phone extraction
-    return [...results, ...remaining];
+// Keyed by the filters too: listings rejected by earlier filters may match the current ones
+function filteredListingsKey(jobData: SearchJobData): string {
+    const filtersHash = createHash('md5').update(JSON.stringify(jobData.filters ?? {})).digest('hex');
+    return `search:filtered:${jobData.searchConfigId}:${filtersHash}`;
 }
 
-async function processListings(
-    jobData: SearchJobData,
-    extractedListings: Awaited<ReturnType<typeof extractListings>>
-): Promise<string[]> {
-    const newListingIds: string[] = [];
+function buildWorkflowVariables(jobData: SearchJobData): Record<string, string | number | null> {
+    const keywordString = jobData.keywords.join(' ');
+
+    return {
+        baseUrl: jobData.serviceBaseUrl,
+        keywords: encodeURIComponent(keywordString),
+        keywordsSlug: encodeURIComponent(keywordString.trim().toLowerCase().replace(/\s+/g, '-')),
+        priceMin: jobData.priceMin,
+        priceMax: jobData.priceMax,
+        location: jobData.location ? encodeURIComponent(jobData.location) : null,
+        make: jobData.filters?.make ?? null,
+        model: jobData.filters?.model ?? null,
+        yearMin: jobData.filters?.yearMin ?? null,
+        yearMax: jobData.filters?.yearMax ?? null,
+        mileageMin: jobData.filters?.mileageMin ?? null,
+        mileageMax: jobData.filters?.mileageMax ?? null,
+        fuelType: jobData.filters?.fuelType ?? null,
+        gearbox: jobData.filters?.gearbox ?? null,
+        bodyType: jobData.filters?.bodyType ?? null,
+        radiusKm: jobData.filters?.radiusKm ?? null,
+    };
+}
 
+/**
+ * Store extracted listings and match them to the search config
+ * Listing data is shared between configs; a config gets its own SearchConfigListing
+ * and new listing notification the first time it finds a listing.
+ * Works on the whole batch at once: one lookup, bulk inserts and bulk notifications.
+ * @returns IDs of listings that weren't stored before (for detail enrichment) and the number of price drops
+ */
+export async function processListings(
+    jobData: SearchJobData,
+    extractedListings: ExtractedListing[]
+): Promise<{ newListingIds: string[]; priceDrops: number }> {
+    // Create deduplication hashes; a listing shown twice (e.g. promoted and regular) counts once
+    const batch = new Map<string, ExtractedListing>();
     for (const listing of extractedListings) {
-        // Create deduplication hashes
-        const primaryHash = encryptionService.createListingPrimaryHash(
-            jobData.serviceId,
-            listing.externalId
-        );
-
-        const semanticHash = encryptionService.createListingSemanticHash(
-            listing.title,
-            listing.price,
-            listing.phone
-        );
+        const primaryHash = encryptionService.createListingPrimaryHash(jobData.serviceId, listing.externalId);
+        if (!batch.has(primaryHash)) {
+            batch.set(primaryHash, listing);
+        }
+    }
 
-        // Check for existing listing by primary hash
-        const existing = await prisma.listing.findUnique({
-            where: { primaryHash },
+    if (batch.size === 0) return { newListingIds: [], priceDrops: 0 };
+
+    const stored = await prisma.listing.findMany({
+        where: { primaryHash: { in: [...batch.keys()] } },
+        select: { id: true, primaryHash: true, price: true },
+    });
+    const storedByHash = new Map(stored.map(listing => [listing.primaryHash, listing]));
+
+    // Record every price change, increases included
+    const priceChanges = stored.filter(({ primaryHash, price }) => {
+        const listing = batch.get(primaryHash)!;
+        return listing.price && listing.price !== price;
+    });
+    const priceDropNotifications = await recordPriceChanges(priceChanges, batch);
+    const priceDrops = priceChanges.filter(({ primaryHash, price }) => price && batch.get(primaryHash)!.price! < price).length;
+
+    const created = await createListings(jobData, [...batch].filter(([primaryHash]) => !storedByHash.has(primaryHash)));
+    created.forEach(listing => storedByHash.set(listing.primaryHash, listing));
+
+    // Inserted by another job between the lookup and the insert
+    const raced = [...batch.keys()].filter(primaryHash => !storedByHash.has(primaryHash));
+    if (raced.length > 0) {
+        const racedListings = await prisma.listing.findMany({
+            where: { primaryHash: { in: raced } },
+            select: { id: true, primaryHash: true, price: true },
         });
+        racedListings.forEach(listing => storedByHash.set(listing.primaryHash, listing));
+    }
 
-        if (existing) {
-            // Check for price change
-            if (listing.price && existing.price && listing.price < existing.price) {
-                await prisma.listing.update({
-                    where: { id: existing.id },
-                    data: {
-                        previousPrice: existing.price,
-                        price: listing.price,
-                    },
-                });
-
-                // Notify about price drop
-                await notificationDispatcher.dispatch({
-                    userId: jobData.userId,
-                    listingId: existing.id,
-                    type: 'price_drop',
-                    title: `Spadek ceny: ${listing.title}`,
-                    body: `${existing.price} → ${listing.price} PLN`,
-                });
-            }
-            continue;
+    // Match the listings to this config; only newly inserted matches come back
+    const newMatches = await prisma.searchConfigListing.createManyAndReturn({
+        data: [...storedByHash.values()].map(listing => ({
+            searchConfigId: jobData.searchConfigId,
+            listingId: listing.id,
+        })),
+        skipDuplicates: true,
+        select: { listingId: true },
+    });
+    const newMatchIds = new Set(newMatches.map(match => match.listingId));
+
+    // Group with the same car on other services before notifying, so duplicates are not alerted twice
+    for (const listingId of newMatchIds) {
+        await listingClusterService.assign(listingId);
+    }
+
+    // Keep the notification order of the results page
+    const notifications: NotificationPayload[] = [];
+    for (const [primaryHash, listing] of batch) {
+        const id = storedByHash.get(primaryHash)?.id;
+        if (!id) continue;
+
+        notifications.push(...(priceDropNotifications.get(id) ?? []));
+
+        if (newMatchIds.has(id)) {
+            notifications.push({
+                userId: jobData.userId,
+                listingId: id,
+                type: 'new_listing',
+                title: 'Nowe ogłoszenie',
+                body: `${listing.title} - ${listing.price || 'Brak ceny'} PLN`,
+            });
         }
+    }
 
-        // Create new listing
-        const newListing = await prisma.listing.create({
-            data: {
+    await notificationDispatcher.dispatchMany(notifications);
+
+    return { newListingIds: created.map(listing => listing.id), priceDrops };
+}
+
+/**
+ * Insert listings seen for the first time, with their initial price
+ * @returns the inserted listings, without those another job inserted meanwhile
+ */
+async function createListings(
+    jobData: SearchJobData,
+    listings: [primaryHash: string, listing: ExtractedListing][]
+): Promise<StoredListing[]> {
+    if (listings.length === 0) return [];
+
+    const detectedAt = new Date();
+
+    return prisma.$transaction(async (tx) => {
+        const created = await tx.listing.createManyAndReturn({
+            data: listings.map(([primaryHash, listing]) => ({
                 serviceId: jobData.serviceId,
-                searchConfigId: jobData.searchConfigId,
                 externalId: listing.externalId,
                 title: listing.title,
                 description: listing.description,
@@ -215,154 +423,97 @@ async function processListings(
                 listingUrl: listing.listingUrl,
                 images: listing.images,
                 primaryHash,
-                semanticHash,
-                detectedAt: new Date(),
-            },
+                semanticHash: encryptionService.createListingSemanticHash(listing.title, listing.price, listing.phone),
+                normalizedPhone: listingClusterService.normalizePhone(listing.phone),
+                detectedAt,
+            })),
+            skipDuplicates: true,
+            select: { id: true, primaryHash: true, price: true, currency: true },
         });
 
-        newListingIds.push(newListing.id);
-
-        // Send notification for new listing
-        await notificationDispatcher.dispatch({
-            userId: jobData.userId,
-            listingId: newListing.id,
-            type: 'new_listing',
-            title: 'Nowe ogłoszenie',
-            body: `${listing.title} - ${listing.price || 'Brak ceny'} PLN`,
+        await tx.listingPriceHistory.createMany({
+            data: created
+                .filter(listing => listing.price)
+                .map(listing => ({ listingId: listing.id, price: listing.price!, currency: listing.currency })),
         });
-    }
 
-    return newListingIds;
+        return created.map(({ id, primaryHash, price }) => ({ id, primaryHash, price }));
+    });
 }
 
-function buildSearchUrl(
-    serviceName: string,
-    baseUrl: string,
-    keywords: string[],
-    priceMin: number | null,
-    priceMax: number | null,
-    location: string | null
-): string {
-    const keywordString = keywords.join(' ');
-    const serviceKey = serviceName.toLowerCase().replace(/\.pl$/i, '').replace(/\.com$/i, '').replace(/[^a-z]/g, '');
-
-    // Service-specific URL formats
-    switch (serviceKey) {
-        case 'olx': {
-            // OLX format: https://www.olx.pl/oferty/q-keyword/?search[filter_float_price:from]=X&search[filter_float_price:to]=Y
-            let url = 'https://www.olx.pl/oferty/';
-            if (keywordString) {
-                url += `q-${encodeURIComponent(keywordString.replace(/\s+/g, '-'))}/`;
-            }
-            const params = new URLSearchParams();
-            if (priceMin) params.set('search[filter_float_price:from]', String(priceMin));
-            if (priceMax) params.set('search[filter_float_price:to]', String(priceMax));
-            if (location) params.set('search[city_name]', location);
-            const paramString = params.toString();
-            return paramString ? `${url}?${paramString}` : url;
-        }
-
-        case 'otomoto': {
-            // OTOMOTO format: https://www.otomoto.pl/osobowe?search[filter_float_price:from]=X
-            let url = 'https://www.otomoto.pl/osobowe';
-            const params = new URLSearchParams();
-            if (keywordString) params.set('search[filter_string_search]', keywordString);
-            if (priceMin) params.set('search[filter_float_price:from]', String(priceMin));
-            if (priceMax) params.set('search[filter_float_price:to]', String(priceMax));
-            if (location) params.set('search[filter_enum_city]', location);
-            const paramString = params.toString();
-            return paramString ? `${url}?${paramString}` : url;
-        }
+/**
+ * Store new prices of listings and prepare price drop notifications for every search config
+ * that matched them. Each user is notified once per listing, when the drop passes the threshold
+ * of one of their configs.
+ * @returns price drop notifications keyed by listing ID
+ */
+async function recordPriceChanges(
+    changes: StoredListing[],
+    batch: Map<string, ExtractedListing>
+): Promise<Map<string, NotificationPayload[]>> {
+    const notifications = new Map<string, NotificationPayload[]>();
 
-        case 'allegro': {
-            // Allegro format: https://allegro.pl/listing?string=keyword&price_from=X&price_to=Y
-            const url = new URL('https://allegro.pl/listing');
-            if (keywordString) url.searchParams.set('string', keywordString);
-            if (priceMin) url.searchParams.set('price_from', String(priceMin));
-            if (priceMax) url.searchParams.set('price_to', String(priceMax));
-            return url.toString();
-        }
+    if (changes.length === 0) return notifications;
 
-        case 'autoplac': {
-            // Autoplac format: https://autoplac.pl/oferty/samochody-osobowe?q=keyword
-            let url = 'https://autoplac.pl/oferty/samochody-osobowe';
-            const params = new URLSearchParams();
-            if (keywordString) params.set('q', keywordString);
-            if (priceMin) params.set('cena_od', String(priceMin));
-            if (priceMax) params.set('cena_do', String(priceMax));
-            if (location) params.set('lokalizacja', location);
-            const paramString = params.toString();
-            return paramString ? `${url}?${paramString}` : url;
-        }
+    await prisma.$transaction([
+        ...changes.map(stored => prisma.listing.update({
+            where: { id: stored.id },
+            data: {
+                previousPrice: stored.price,
+                price: batch.get(stored.primaryHash)!.price,
+            },
+        })),
+        prisma.listingPriceHistory.createMany({
+            data: changes.map(stored => {
+                const listing = batch.get(stored.primaryHash)!;
+                return { listingId: stored.id, price: listing.price!, currency: listing.currency };
+            }),
+        }),
+    ]);
+
+    const drops = changes.filter(stored => stored.price && batch.get(stored.primaryHash)!.price! < stored.price);
+    if (drops.length === 0) return notifications;
+
+    const matches = await prisma.searchConfigListing.findMany({
+        where: { listingId: { in: drops.map(stored => stored.id) }, isAd: false },
+        select: {
+            listingId: true,
+            searchConfig: { select: { userId: true, priceDropMinPercent: true } },
+        },
+    });
+
+    for (const stored of drops) {
+        const listing = batch.get(stored.primaryHash)!;
+        const userIds = new Set(
+            matches
+                .filter(match => match.listingId === stored.id)
+                .filter(match => isNotablePriceDrop(stored.price!, listing.price!, match.searchConfig.priceDropMinPercent))
+                .map(match => match.searchConfig.userId)
+        );
 
-        default: {
-            // Generic fallback using baseUrl
-            const url = new URL(baseUrl);
-            if (keywordString) url.searchParams.set('q', keywordString);
-            if (priceMin) url.searchParams.set('price_from', String(priceMin));
-            if (priceMax) url.searchParams.set('price_to', String(priceMax));
-            if (location) url.searchParams.set('city', location);
-            return url.toString();
-        }
+        notifications.set(stored.id, [...userIds].map(userId => ({
+            userId,
+            listingId: stored.id,
+            type: 'price_drop',
+            title: `Spadek ceny: ${listing.title}`,
+            body: `${stored.price} → ${listing.price} PLN`,
+        })));
     }
-}
 
-async function handleCookieConsent(page: any): Promise<void> {
-    try {
-        // Try common cookie consent button selectors
-        const consentSelectors = [
-            'button:has-text("Akceptuję")',
-            'button:has-text("Zgadzam się")',
-            'button:has-text("Accept")',
-            'button:has-text("Zaakceptuj")',
-            '[data-testid="consent-accept"]',
-            '#onetrust-accept-btn-handler',
-            '.cookie-consent-accept',
-            'button[id*="accept"]',
-        ];
-
-        for (const selector of consentSelectors) {
-            try {
-                const button = await page.$(selector);
-                if (button) {
-                    await button.click();
-                    logger.debug('Cookie consent accepted');
-                    await randomDelay(500, 1000);
-                    return;
-                }
-            } catch {
-                // Selector not found, try next
-            }
-        }
-
-        // Also try clicking via JavaScript for stubborn popups
-        await page.evaluate(() => {
-            const buttons = Array.from(document.querySelectorAll('button'));
-            const acceptBtn = buttons.find(b =>
-                b.textContent?.includes('Akceptuję') ||
-                b.textContent?.includes('Accept') ||
-                b.textContent?.includes('Zgadzam')
-            );
-            if (acceptBtn) (acceptBtn as HTMLElement).click();
-        });
-    } catch (error) {
-        // Cookie consent handling is best-effort, don't fail the job
-        logger.debug('Cookie consent handling skipped:', error);
-    }
+    return notifications;
 }
 
-function calculateNextRun(jobData: SearchJobData): Date {
-    // Add random jitter to avoid detection patterns
-    const baseInterval = 300; // 5 minutes default
-    const jitter = Math.floor(Math.random() * 120) - 60; // ±60 seconds
-    return new Date(Date.now() + (baseInterval + jitter) * 1000);
-}
+/**
+ * A drop counts when it reaches minPercent of the old price (any drop when no threshold is set)
+ */
+function isNotablePriceDrop(oldPrice: number, newPrice: number, minPercent?: number | null): boolean {
+    if (newPrice >= oldPrice) return false;
+    if (!minPercent) return true;
 
-function randomDelay(min: number, max: number): Promise<void> {
-    const delay = Math.floor(Math.random() * (max - min) + min);
-    return new Promise(resolve => setTimeout(resolve, delay));
+    return ((oldPrice - newPrice) / oldPrice) * 100 >= minPercent;
 }
 
+
 // Queue event handlers
 searchQueue.on('completed', (job, result) => {
     logger.debug(`Job ${job.id} completed:`, result);
@@ -0,0 +1,76 @@
+import Bull, { Queue, Job } from 'bull';
+import type { SearchConfig, Service } from '@prisma/client';
+import { redis } from '../config/redis.js';
+import { logger } from '../utils/logger.js';
+import type { VehicleFilters } from '../schemas/index.js';
+import { getVehicleFilters } from '../automation/search-filters.js';
+
+export interface SearchJobData {
+    searchConfigId: string;
+    userId: string;
+    serviceId: string;
+    serviceName: string;
+    serviceBaseUrl: string;
+    keywords: string[];
+    priceMin: number | null;
+    priceMax: number | null;
+    location: string | null;
+    filters: VehicleFilters;
+    // Started by the user ("Run now") rather than the scheduler
+    manual?: boolean;
+}
+
+export interface SearchJobResult {
+    newListingsCount: number;
+    listingsCount: number;
+}
+
+// Bull priority: lower runs first, scheduled runs have none
+const MANUAL_RUN_PRIORITY = 1;
+
+// Create queue
+// Jobs are processed by the worker (search-processor.ts); the API only adds jobs and reads their state
+export const searchQueue: Queue<SearchJobData> = new Bull('search-jobs', {
+    redis: {
+        host: redis.options.host as string,
+        port: redis.options.port as number,
+        password: redis.options.password as string | undefined,
+    },
+    defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 50,
+        attempts: 3,
+        backoff: {
+            type: 'exponential',
+            delay: 5000,
+        },
+    },
+});
+
+export function buildSearchJobData(config: SearchConfig & { service: Service }): SearchJobData {
+    return {
+        searchConfigId: config.id,
+        userId: config.userId,
+        serviceId: config.serviceId,
+        serviceName: config.service.name,
+        serviceBaseUrl: config.service.baseUrl,
+        keywords: config.keywords as string[],
+        priceMin: config.priceMin,
+        priceMax: config.priceMax,
+        location: config.location,
+        filters: getVehicleFilters(config),
+    };
+}
+
+/**
+ * Queue a search to run now, ahead of scheduled runs
+ */
+export async function enqueueManualRun(config: SearchConfig & { service: Service }): Promise<Job<SearchJobData>> {
+    const job = await searchQueue.add({ ...buildSearchJobData(config), manual: true }, {
+        jobId: `manual-${config.id}-${Date.now()}`,
+        priority: MANUAL_RUN_PRIORITY,
+    });
+
+    logger.info(`Manual search triggered: ${config.id}`);
+    return job;
+}
@@ -1,10 +1,17 @@
 import { prisma } from '../config/database.js';
 import { logger } from '../utils/logger.js';
-import { searchQueue, type SearchJobData } from './search-processor.js';
+import type { Job } from 'bull';
+import { searchQueue, buildSearchJobData, enqueueManualRun, type SearchJobData } from './search-queue.js';
+import { schedulingService } from '../services/scheduling.service.js';
+import { searchRunService } from '../services/search-run.service.js';
+import { entitlementService } from '../services/entitlement.service.js';
+
+const RUN_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
 
 class SearchScheduler {
     private intervalId: NodeJS.Timeout | null = null;
     private checkIntervalMs = 30000; // Check every 30 seconds
+    private lastPrunedAt = 0;
 
     async start(): Promise<void> {
         logger.info('Starting search scheduler');
@@ -47,6 +54,9 @@ class SearchScheduler {
                 take: 10, // Process in batches
             });
 
+            // Users out of daily search minutes, checked once per batch
+            const overLimit = new Map<string, boolean>();
+
             for (const config of dueConfigs) {
                 // Check if user is active
                 if (config.user.deletedAt) continue;
@@ -54,33 +64,39 @@ class SearchScheduler {
                 // Check if service is active
                 if (!config.service.isActive) continue;
 
+                // Quiet hours or an inactive day: wait for the next window instead of running
+                if (!schedulingService.isAllowed(config, now)) {
+                    await prisma.searchConfig.update({
+                        where: { id: config.id },
+                        data: { nextRunAt: schedulingService.getWindowStart(config, now) },
+                    });
+                    continue;
+                }
+
+                // Daily search minutes used up: pause until they reset at midnight
+                if (!overLimit.has(config.userId)) {
+                    const check = await entitlementService.check(config.userId, 'run-search');
+                    overLimit.set(config.userId, !check.allowed);
+                }
+                if (overLimit.get(config.userId)) {
+                    await prisma.searchConfig.update({
+                        where: { id: config.id },
+                        data: { nextRunAt: schedulingService.getWindowStart(config, schedulingService.getNextDayStart(now)) },
+                    });
+                    logger.debug(`Search ${config.id} paused until tomorrow: daily search limit reached`);
+                    continue;
+                }
+
                 // Add job to queue
-                const jobData: SearchJobData = {
-                    searchConfigId: config.id,
-                    userId: config.userId,
-                    serviceId: config.serviceId,
-                    serviceName: config.service.name,
-                    serviceBaseUrl: config.service.baseUrl,
-                    keywords: config.keywords as string[],
-                    priceMin: config.priceMin,
-                    priceMax: config.priceMax,
-                    location: config.location,
-                };
-
-                await searchQueue.add(jobData, {
+                await searchQueue.add(buildSearchJobData(config), {
                     jobId: `search-${config.id}-${Date.now()}`,
                     delay: this.getRandomDelay(0, 10000), // Random 0-10s delay
                 });
 
-                // Update nextRunAt with jitter
-                const intervalSeconds = config.intervalSeconds || 300;
-                const jitterSeconds = config.randomRangeSeconds || Math.floor(intervalSeconds * 0.2);
-                const jitter = Math.floor(Math.random() * jitterSeconds * 2) - jitterSeconds;
-
                 await prisma.searchConfig.update({
                     where: { id: config.id },
                     data: {
-                        nextRunAt: new Date(now.getTime() + (intervalSeconds + jitter) * 1000),
+                        nextRunAt: schedulingService.getNextRunAt(config, now),
                     },
                 });
 
@@ -89,13 +105,29 @@ class SearchScheduler {
         } catch (error) {
             logger.error('Error in search scheduler:', error);
         }
+
+        await this.pruneRuns();
+    }
+
+    /**
+     * Delete old run history (hourly)
+     */
+    private async pruneRuns(): Promise<void> {
+        if (Date.now() - this.lastPrunedAt < RUN_PRUNE_INTERVAL_MS) return;
+        this.lastPrunedAt = Date.now();
+
+        try {
+            await searchRunService.prune();
+        } catch (error) {
+            logger.error('Error pruning search runs:', error);
+        }
     }
 
     private getRandomDelay(min: number, max: number): number {
         return Math.floor(Math.random() * (max - min) + min);
     }
 
-    async triggerManualRun(searchConfigId: string): Promise<void> {
+    async triggerManualRun(searchConfigId: string): Promise<Job<SearchJobData>> {
         const config = await prisma.searchConfig.findUnique({
             where: { id: searchConfigId },
             include: {
@@ -108,24 +140,7 @@ class SearchScheduler {
             throw new Error('Search config not found');
         }
 
-        const jobData: SearchJobData = {
-            searchConfigId: config.id,
-            userId: config.userId,
-            serviceId: config.serviceId,
-            serviceName: config.service.name,
-            serviceBaseUrl: config.service.baseUrl,
-            keywords: config.keywords as string[],
-            priceMin: config.priceMin,
-            priceMax: config.priceMax,
-            location: config.location,
-        };
-
-        await searchQueue.add(jobData, {
-            jobId: `manual-${config.id}-${Date.now()}`,
-            priority: 1, // Higher priority for manual runs
-        });
-
-        logger.info(`Manual search triggered: ${searchConfigId}`);
+        return enqueueManualRun(config);
     }
 }
 
@@ -0,0 +1,119 @@
+import { logger } from '../utils/logger.js';
+import { playwrightManager, ensureLoggedIn, LoginFailedError, type BrowserSession } from '../automation/index.js';
+import type { ServiceConfig } from '../schemas/index.js';
+import { credentialsService, CredentialsDecryptError } from '../services/credentials.service.js';
+import { browserProfileService } from '../services/browser-profile.service.js';
+import { notificationDispatcher } from './notification-dispatcher.js';
+
+/**
+ * The service requires login but the user has no usable credentials stored
+ * Retrying won't help until the user updates them.
+ */
+export class LoginRequiredError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LoginRequiredError';
+    }
+}
+
+export interface ServiceSessionOptions {
+    userId: string;
+    serviceId: string;
+    serviceName: string;
+    serviceBaseUrl: string;
+    serviceConfig: ServiceConfig;
+    // required: fail without a login, optional: fall back to an anonymous session, none: never log in
+    login: 'required' | 'optional' | 'none';
+}
+
+export interface ServiceSession {
+    session: BrowserSession;
+    loggedIn: boolean;
+}
+
+/**
+ * Acquire a browser session for a job, logged in with the user's stored credentials when needed
+ * Logged-in sessions use the user's own browser profile so cookies never leak between accounts.
+ * @throws LoginRequiredError / LoginFailedError, both permanent for the job
+ */
+export async function acquireServiceSession(options: ServiceSessionOptions): Promise<ServiceSession> {
+    const { userId, serviceId, serviceName, serviceConfig } = options;
+
+    if (options.login === 'none') {
+        return { session: await acquireAnonymous(options), loggedIn: false };
+    }
+
+    if (!serviceConfig.login) {
+        throw new Error(`Service ${serviceName} requires login but has no login config`);
+    }
+
+    const subscription = await credentialsService.findForUser(userId, serviceId);
+    const credentials = subscription?.credentials;
+
+    if (!subscription || !credentials || !credentials.isValid) {
+        const reason = !credentials
+            ? `No credentials stored for ${serviceName}`
+            : `Stored credentials for ${serviceName} are invalid: ${credentials.lastError ?? 'login failed'}`;
+
+        if (options.login === 'required') {
+            throw new LoginRequiredError(reason);
+        }
+
+        logger.debug(`${reason}, continuing without login`);
+        return { session: await acquireAnonymous(options), loggedIn: false };
+    }
+
+    const profile = { serviceId, userServiceId: subscription.userServiceId };
+    const session = await playwrightManager.acquire({ profile });
+
+    try {
+        await ensureLoggedIn(
+            session.page,
+            { serviceId, serviceName, baseUrl: options.serviceBaseUrl, login: serviceConfig.login },
+            async () => credentialsService.decrypt(credentials)
+        );
+        await credentialsService.markLoggedIn(subscription.userServiceId);
+
+        return { session, loggedIn: true };
+    } catch (error) {
+        if (!(error instanceof LoginFailedError || error instanceof CredentialsDecryptError)) {
+            await playwrightManager.release(session);
+            throw error;
+        }
+
+        logger.warn(`Login to ${serviceName} failed for user ${userId}: ${error.message}`);
+
+        // Don't save the logged-out state over the user's profile
+        session.profile = null;
+        await playwrightManager.release(session);
+        await browserProfileService.clear(profile);
+        await credentialsService.markInvalid(subscription.userServiceId, error.message);
+
+        await notificationDispatcher.dispatch({
+            userId,
+            type: 'system',
+            title: 'Logowanie nie powiodło się',
+            body: `Nie udało się zalogować do ${serviceName}. Zaktualizuj dane logowania.`,
+            data: { serviceId },
+        });
+
+        if (options.login === 'required') {
+            throw new LoginFailedError(error.message);
+        }
+
+        return { session: await acquireAnonymous(options), loggedIn: false };
+    }
+}
+
+/**
+ * Errors that won't go away by retrying the job
+ */
+export function isPermanentLoginError(error: unknown): boolean {
+    return error instanceof LoginRequiredError || error instanceof LoginFailedError;
+}
+
+function acquireAnonymous(options: ServiceSessionOptions): Promise<BrowserSession> {
+    return playwrightManager.acquire({
+        profile: options.serviceConfig.persistProfile ? { serviceId: options.serviceId } : undefined,
+    });
+}
@@ -9,6 +9,7 @@ export interface ErrorResponse {
     error: {
         code: string;
         message: string;
+        details?: Record<string, unknown>;
         stack?: string;
     };
 }
@@ -35,6 +36,7 @@ export const errorHandler = (
             error: {
                 code: err.code,
                 message: err.message,
+                ...(err.details && { details: err.details }),
                 ...(config.isDev && { stack: err.stack }),
             },
         });
@@ -1,9 +1,14 @@
 // @ts-nocheck
 import { Router, type Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/index.js';
 import { authenticate, type AuthRequest } from '../middleware/auth.js';
 import { requireAdmin } from '../middleware/admin.js';
+import { serviceConfigSchema } from '../schemas/index.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { encryptionService } from '../services/encryption.service.js';
+import { enqueueReencryption } from '../jobs/reencryption-queue.js';
+import { searchRunService, SEARCH_RUN_SUMMARY_SELECT } from '../services/search-run.service.js';
 
 const router = Router();
 
@@ -26,6 +31,8 @@ router.get('/dashboard', async (req: AuthRequest, res: Response, next) => {
             todayListings,
             totalPayments,
             pendingPayments,
+            removedListings,
+            daysOnMarket,
         ] = await Promise.all([
             prisma.user.count({ where: { deletedAt: null } }),
             prisma.user.count({
@@ -43,6 +50,13 @@ router.get('/dashboard', async (req: AuthRequest, res: Response, next) => {
             }),
             prisma.payment.count(),
             prisma.payment.count({ where: { status: 'PENDING' } }),
+            prisma.listing.count({ where: { status: 'REMOVED' } }),
+            // How long sold/withdrawn listings stayed online
+            prisma.$queryRaw<{ avg: number | null }[]>`
+                SELECT AVG(EXTRACT(EPOCH FROM (removed_at - detected_at)) / 86400)::float AS avg
+                FROM listings
+                WHERE status = 'REMOVED' AND removed_at IS NOT NULL
+            `,
         ]);
 
         // Recent activity
@@ -68,7 +82,12 @@ router.get('/dashboard', async (req: AuthRequest, res: Response, next) => {
                 stats: {
                     users: { total: totalUsers, active: activeUsers, premium: premiumUsers },
                     searchConfigs: { total: totalSearchConfigs, active: activeSearchConfigs },
-                    listings: { total: totalListings, today: todayListings },
+                    listings: {
+                        total: totalListings,
+                        today: todayListings,
+                        removed: removedListings,
+                        avgDaysOnMarket: daysOnMarket[0]?.avg ?? null,
+                    },
                     payments: { total: totalPayments, pending: pendingPayments },
                 },
                 recentUsers,
@@ -426,6 +445,100 @@ router.get('/payments', async (req: AuthRequest, res: Response, next) => {
     }
 });
 
+// ============================================================================
+// SEARCH RUNS
+// ============================================================================
+
+const SEARCH_RUN_CONFIG_SELECT = {
+    id: true,
+    name: true,
+    user: { select: { id: true, email: true } },
+    service: { select: { id: true, name: true } },
+};
+
+router.get('/search-runs', async (req: AuthRequest, res: Response, next) => {
+    try {
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+        const { status, searchConfigId, serviceId, userId } = req.query as Record<string, string>;
+
+        const where: any = {};
+        if (status) {
+            where.status = status;
+        }
+        if (searchConfigId) {
+            where.searchConfigId = searchConfigId;
+        }
+        if (serviceId || userId) {
+            where.searchConfig = {
+                ...(serviceId && { serviceId }),
+                ...(userId && { userId }),
+            };
+        }
+
+        const [runs, total] = await Promise.all([
+            prisma.searchRun.findMany({
+                where,
+                skip: (page - 1) * limit,
+                take: limit,
+                orderBy: { startedAt: 'desc' },
+                select: {
+                    ...SEARCH_RUN_SUMMARY_SELECT,
+                    searchConfig: { select: SEARCH_RUN_CONFIG_SELECT },
+                },
+            }),
+            prisma.searchRun.count({ where }),
+        ]);
+
+        res.json({
+            success: true,
+            data: runs.map(run => searchRunService.describe(run)),
+            pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.get('/search-runs/:runId', async (req: AuthRequest, res: Response, next) => {
+    try {
+        const run = await prisma.searchRun.findUnique({
+            where: { id: req.params.runId },
+            include: { searchConfig: { select: SEARCH_RUN_CONFIG_SELECT } },
+        });
+
+        if (!run) {
+            throw new NotFoundError('Search run not found');
+        }
+
+        res.json({ success: true, data: searchRunService.describe(run) });
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.get('/search-runs/:runId/screenshots/:index', async (req: AuthRequest, res: Response, next) => {
+    try {
+        const run = await prisma.searchRun.findUnique({
+            where: { id: req.params.runId },
+        });
+
+        if (!run) {
+            throw new NotFoundError('Search run not found');
+        }
+
+        const screenshot = await searchRunService.getScreenshot(run, parseInt(req.params.index));
+
+        if (!screenshot) {
+            throw new NotFoundError('Screenshot not found');
+        }
+
+        res.type('png').send(screenshot);
+    } catch (error) {
+        next(error);
+    }
+});
+
 // ============================================================================
 // SERVICES MANAGEMENT
 // ============================================================================
@@ -435,6 +548,8 @@ router.get('/services', async (req: AuthRequest, res: Response, next) => {
         const services = await prisma.service.findMany({
             orderBy: { name: 'asc' },
             include: {
+                searchWorkflow: { select: { id: true, name: true, version: true, isActive: true } },
+                loginWorkflow: { select: { id: true, name: true, version: true, isActive: true } },
                 _count: { select: { userServices: true, searchConfigs: true, listings: true } }
             }
         });
@@ -454,7 +569,7 @@ router.post('/services', async (req: AuthRequest, res: Response, next) => {
         }
 
         const service = await prisma.service.create({
-            data: { name, baseUrl, logoUrl, defaultConfig, isActive: isActive ?? true },
+            data: { name, baseUrl, logoUrl, defaultConfig: parseServiceConfig(defaultConfig), isActive: isActive ?? true },
         });
 
         res.status(201).json({ success: true, data: service });
@@ -465,7 +580,28 @@ router.post('/services', async (req: AuthRequest, res: Response, next) => {
 
 router.put('/services/:id', async (req: AuthRequest, res: Response, next) => {
     try {
-        const { name, baseUrl, logoUrl, defaultConfig, isActive } = req.body;
+        const { name, baseUrl, logoUrl, defaultConfig, isActive, searchWorkflowId, loginWorkflowId } = req.body;
+
+        // Search workflow must belong to this service
+        if (searchWorkflowId) {
+            const workflow = await prisma.automationWorkflow.findFirst({
+                where: { id: searchWorkflowId, serviceId: req.params.id },
+            });
+
+            if (!workflow) {
+                throw new ValidationError('Search workflow not found for this service');
+            }
+        }
+
+        if (loginWorkflowId) {
+            const workflow = await prisma.automationWorkflow.findFirst({
+                where: { id: loginWorkflowId, serviceId: req.params.id },
+            });
+
+            if (!workflow) {
+                throw new ValidationError('Login workflow not found for this service');
+            }
+        }
 
         const service = await prisma.service.update({
             where: { id: req.params.id },
@@ -473,8 +609,10 @@ router.put('/services/:id', async (req: AuthRequest, res: Response, next) => {
                 ...(name !== undefined && { name }),
                 ...(baseUrl !== undefined && { baseUrl }),
                 ...(logoUrl !== undefined && { logoUrl }),
-                ...(defaultConfig !== undefined && { defaultConfig }),
+                ...(defaultConfig !== undefined && { defaultConfig: parseServiceConfig(defaultConfig) }),
                 ...(isActive !== undefined && { isActive }),
+                ...(searchWorkflowId !== undefined && { searchWorkflowId }),
+                ...(loginWorkflowId !== undefined && { loginWorkflowId }),
             },
         });
 
@@ -484,6 +622,25 @@ router.put('/services/:id', async (req: AuthRequest, res: Response, next) => {
     }
 });
 
+/**
+ * Validate Service.defaultConfig against the service config schema
+ * null clears the config (built-in defaults apply)
+ */
+function parseServiceConfig(defaultConfig: unknown) {
+    if (defaultConfig === null || defaultConfig === undefined) {
+        return defaultConfig === null ? Prisma.DbNull : undefined;
+    }
+
+    const parsed = serviceConfigSchema.safeParse(defaultConfig);
+
+    if (!parsed.success) {
+        const messages = parsed.error.errors.map(e => `defaultConfig.${e.path.join('.')}: ${e.message}`);
+        throw new ValidationError(messages.join(', '));
+    }
+
+    return parsed.data;
+}
+
 router.delete('/services/:id', async (req: AuthRequest, res: Response, next) => {
     try {
         await prisma.service.update({
@@ -572,8 +729,12 @@ router.put('/payment-providers/:provider', async (req: AuthRequest, res: Respons
         const provider = req.params.provider;
         const { isEnabled, isSandbox, clientId, clientSecret, merchantId, posId, secondKey, webhookSecret, config } = req.body;
 
-        // TODO: Encrypt secrets before storing
-        // For now, just store the config (secrets should be encrypted in production)
+        // Secrets are stored as encryption envelopes; an empty string clears a secret
+        const secrets = {
+            ...(clientSecret !== undefined && { clientSecretEnc: encryptSecret(clientSecret) }),
+            ...(secondKey !== undefined && { secondKeyEnc: encryptSecret(secondKey) }),
+            ...(webhookSecret !== undefined && { webhookSecretEnc: encryptSecret(webhookSecret) }),
+        };
 
         await prisma.paymentSettings.upsert({
             where: { provider: provider as any },
@@ -585,8 +746,7 @@ router.put('/payment-providers/:provider', async (req: AuthRequest, res: Respons
                 merchantId,
                 posId,
                 config,
-                // Note: In production, encrypt these values
-                // clientSecretEnc: encrypt(clientSecret),
+                ...secrets,
             },
             update: {
                 ...(isEnabled !== undefined && { isEnabled }),
@@ -595,6 +755,7 @@ router.put('/payment-providers/:provider', async (req: AuthRequest, res: Respons
                 ...(merchantId !== undefined && { merchantId }),
                 ...(posId !== undefined && { posId }),
                 ...(config !== undefined && { config }),
+                ...secrets,
             },
         });
 
@@ -604,6 +765,39 @@ router.put('/payment-providers/:provider', async (req: AuthRequest, res: Respons
     }
 });
 
+function encryptSecret(value: string | null): Buffer | null {
+    return value ? encryptionService.encryptEnvelope(value) : null;
+}
+
+// ============================================================================
+// ENCRYPTION KEYS
+// ============================================================================
+
+router.get('/encryption', async (req: AuthRequest, res: Response, next) => {
+    try {
+        res.json({
+            success: true,
+            data: { currentKeyId: encryptionService.getCurrentKeyId() },
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+// Re-encrypt stored credentials, browser profiles and payment secrets with the newest key
+router.post('/encryption/reencrypt', async (req: AuthRequest, res: Response, next) => {
+    try {
+        const job = await enqueueReencryption(req.user!.id);
+
+        res.status(202).json({
+            success: true,
+            data: { jobId: job.id, keyId: encryptionService.getCurrentKeyId() },
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
 // ============================================================================
 // LEGAL PAGES
 // ============================================================================
@@ -2,9 +2,10 @@
 import { Router, type Response } from 'express';
 import { prisma } from '../config/index.js';
 import { authenticate, type AuthRequest } from '../middleware/auth.js';
-import { validateParams, validateQuery } from '../middleware/validate.js';
-import { listListingsQuerySchema, uuidParamSchema } from '../schemas/index.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { listListingsQuerySchema, markListingSchema, uuidParamSchema } from '../schemas/index.js';
 import { NotFoundError, ForbiddenError } from '../utils/errors.js';
+import { listingClusterService, type ClusterSibling } from '../services/listing-cluster.service.js';
 
 const router = Router();
 
@@ -15,7 +16,7 @@ router.get(
     validateQuery(listListingsQuerySchema),
     async (req: AuthRequest, res: Response, next) => {
         try {
-            const { page, limit, serviceId, searchConfigId, minPrice, maxPrice } =
+            const { page, limit, serviceId, searchConfigId, minPrice, maxPrice, status } =
                 req.query as {
                     page: number;
                     limit: number;
@@ -23,18 +24,23 @@ router.get(
                     searchConfigId?: string;
                     minPrice?: number;
                     maxPrice?: number;
+                    status?: 'ACTIVE' | 'REMOVED';
                 };
             const skip = (page - 1) * limit;
 
+            // The user's matches, optionally only those of one search config
+            const matchWhere = {
+                searchConfig: { userId: req.user!.id },
+                ...(searchConfigId && { searchConfigId }),
+            };
+
             // Build where clause
             const where: Record<string, unknown> = {
-                searchConfig: {
-                    userId: req.user!.id,
-                },
+                matches: { some: matchWhere },
             };
 
             if (serviceId) where.serviceId = serviceId;
-            if (searchConfigId) where.searchConfigId = searchConfigId;
+            if (status) where.status = status;
             if (minPrice || maxPrice) {
                 where.price = {
                     ...(minPrice && { gte: minPrice }),
@@ -53,6 +59,11 @@ router.get(
                                 logoUrl: true,
                             },
                         },
+                        matches: {
+                            where: matchWhere,
+                            select: MATCH_SELECT,
+                            orderBy: { matchedAt: 'asc' },
+                        },
                     },
                     orderBy: { detectedAt: 'desc' },
                     skip,
@@ -61,9 +72,14 @@ router.get(
                 prisma.listing.count({ where }),
             ]);
 
+            const siblings = await listingClusterService.getSiblings(listings, req.user!.id);
+
             res.json({
                 success: true,
-                data: listings,
+                data: listings.map(listing => ({
+                    ...withMatchState(listing),
+                    alsoOn: getAlsoOn(listing, siblings),
+                })),
                 pagination: {
                     page,
                     limit,
@@ -95,12 +111,13 @@ router.get(
                             baseUrl: true,
                         },
                     },
-                    searchConfig: {
+                    matches: {
+                        where: { searchConfig: { userId: req.user!.id } },
                         select: {
-                            id: true,
-                            name: true,
-                            userId: true,
+                            ...MATCH_SELECT,
+                            searchConfig: { select: { id: true, name: true } },
                         },
+                        orderBy: { matchedAt: 'asc' },
                     },
                 },
             });
@@ -109,13 +126,15 @@ router.get(
                 throw new NotFoundError('Listing not found');
             }
 
-            if (listing.searchConfig.userId !== req.user!.id) {
+            if (listing.matches.length === 0) {
                 throw new ForbiddenError('Access denied');
             }
 
+            const siblings = await listingClusterService.getSiblings([listing], req.user!.id);
+
             res.json({
                 success: true,
-                data: listing,
+                data: { ...withMatchState(listing), alsoOn: getAlsoOn(listing, siblings) },
             });
         } catch (error) {
             next(error);
@@ -123,18 +142,19 @@ router.get(
     }
 );
 
-// Mark listing as spam/ad
-router.post(
-    '/:id/mark-spam',
+// Price history of a listing, oldest first
+router.get(
+    '/:id/history',
     authenticate,
     validateParams(uuidParamSchema),
     async (req: AuthRequest, res: Response, next) => {
         try {
             const listing = await prisma.listing.findUnique({
                 where: { id: req.params.id },
-                include: {
-                    searchConfig: {
-                        select: { userId: true },
+                select: {
+                    id: true,
+                    _count: {
+                        select: { matches: { where: { searchConfig: { userId: req.user!.id } } } },
                     },
                 },
             });
@@ -143,15 +163,36 @@ router.post(
                 throw new NotFoundError('Listing not found');
             }
 
-            if (listing.searchConfig.userId !== req.user!.id) {
+            if (listing._count.matches === 0) {
                 throw new ForbiddenError('Access denied');
             }
 
-            await prisma.listing.update({
-                where: { id: req.params.id },
-                data: { isAd: true },
+            const history = await prisma.listingPriceHistory.findMany({
+                where: { listingId: listing.id },
+                select: { price: true, currency: true, observedAt: true },
+                orderBy: { observedAt: 'asc' },
             });
 
+            res.json({
+                success: true,
+                data: history,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Mark listing as spam/ad
+router.post(
+    '/:id/mark-spam',
+    authenticate,
+    validateParams(uuidParamSchema),
+    validateBody(markListingSchema),
+    async (req: AuthRequest, res: Response, next) => {
+        try {
+            await updateMatches(req, { isAd: true });
+
             res.json({
                 success: true,
                 message: 'Listing marked as ad/spam',
@@ -167,27 +208,10 @@ router.post(
     '/:id/mark-success',
     authenticate,
     validateParams(uuidParamSchema),
+    validateBody(markListingSchema),
     async (req: AuthRequest, res: Response, next) => {
         try {
-            const listing = await prisma.listing.findUnique({
-                where: { id: req.params.id },
-                include: {
-                    searchConfig: {
-                        select: { userId: true },
-                    },
-                },
-            });
-
-            if (!listing) {
-                throw new NotFoundError('Listing not found');
-            }
-
-            if (listing.searchConfig.userId !== req.user!.id) {
-                throw new ForbiddenError('Access denied');
-            }
-
-            // Log success for analytics (TODO: add to audit log)
-            // For now, just return success
+            await updateMatches(req, { markedSuccessAt: new Date() });
 
             res.json({
                 success: true,
@@ -199,4 +223,71 @@ router.post(
     }
 );
 
+const MATCH_SELECT = {
+    id: true,
+    searchConfigId: true,
+    isAd: true,
+    markedSuccessAt: true,
+    matchedAt: true,
+} as const;
+
+type MatchState = { isAd: boolean; markedSuccessAt: Date | null };
+
+/**
+ * Listing with the user's marks folded in: an ad only when every matching config marked it,
+ * successful when any did
+ */
+function withMatchState<T extends { matches: MatchState[] }>(listing: T) {
+    const successDates = listing.matches
+        .map(match => match.markedSuccessAt)
+        .filter((date): date is Date => !!date);
+
+    return {
+        ...listing,
+        isAd: listing.matches.every(match => match.isAd),
+        markedSuccessAt: successDates.length > 0
+            ? new Date(Math.max(...successDates.map(date => date.getTime())))
+            : null,
+    };
+}
+
+/**
+ * Update the user's matches of a listing (req.body.searchConfigId narrows them to one config)
+ */
+async function updateMatches(req: AuthRequest, data: Partial<MatchState>): Promise<void> {
+    const listing = await prisma.listing.findUnique({
+        where: { id: req.params.id },
+        select: { id: true },
+    });
+
+    if (!listing) {
+        throw new NotFoundError('Listing not found');
+    }
+
+    const { searchConfigId } = req.body as { searchConfigId?: string };
+    const { count } = await prisma.searchConfigListing.updateMany({
+        where: {
+            listingId: listing.id,
+            searchConfig: { userId: req.user!.id },
+            ...(searchConfigId && { searchConfigId }),
+        },
+        data,
+    });
+
+    if (count === 0) {
+        throw new ForbiddenError('Access denied');
+    }
+}
+
+/**
+ * The same car on other services ("also on OTOMOTO")
+ */
+function getAlsoOn(listing: { id: string; clusterId: string | null }, siblings: Map<string, ClusterSibling[]>) {
+    if (!listing.clusterId) return [];
+
+    return (siblings.get(listing.clusterId) ?? [])
+        .filter(sibling => sibling.id !== listing.id)
+        .map(({ id, listingUrl, price, currency, service }) => ({ id, listingUrl, price, currency, service }));
+}
+
 export default router;
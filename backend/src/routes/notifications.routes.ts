@@ -24,8 +24,10 @@ router.get(
                 };
             const skip = (page - 1) * limit;
 
+            // Push notifications are delivery records of in-app ones, not inbox entries
             const where: Record<string, unknown> = {
                 userId: req.user!.id,
+                channel: 'IN_APP',
             };
 
             if (status) where.status = status;
@@ -79,6 +81,7 @@ router.get(
             const count = await prisma.notification.count({
                 where: {
                     userId: req.user!.id,
+                    channel: 'IN_APP',
                     readAt: null,
                 },
             });
@@ -139,6 +142,7 @@ router.patch(
             await prisma.notification.updateMany({
                 where: {
                     userId: req.user!.id,
+                    channel: 'IN_APP',
                     readAt: null,
                 },
                 data: {
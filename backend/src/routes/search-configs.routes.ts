@@ -1,15 +1,28 @@
 // @ts-nocheck
 import { Router, type Response } from 'express';
+import type { SearchRunStatus } from '@prisma/client';
 import { prisma } from '../config/index.js';
 import { authenticate, type AuthRequest } from '../middleware/auth.js';
+import { scrapingRateLimiter } from '../middleware/rate-limit.js';
 import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
 import {
     createSearchConfigSchema,
     updateSearchConfigSchema,
     uuidParamSchema,
-    paginationQuerySchema
+    searchRunParamsSchema,
+    paginationQuerySchema,
+    listSearchRunsQuerySchema,
+    searchRunHistoryParamsSchema,
+    searchRunScreenshotParamsSchema
 } from '../schemas/index.js';
-import { NotFoundError, ForbiddenError } from '../utils/errors.js';
+import { NotFoundError, ForbiddenError, ConflictError } from '../utils/errors.js';
+import { resolveServiceConfig } from '../automation/service-config.js';
+import { buildSearchUrl, getSearchUrlVariables } from '../automation/search-url.js';
+import { getVehicleFilters } from '../automation/search-filters.js';
+import { schedulingService, SCHEDULE_FIELDS } from '../services/scheduling.service.js';
+import { searchRunService, SEARCH_RUN_SUMMARY_SELECT } from '../services/search-run.service.js';
+import { entitlementService } from '../services/entitlement.service.js';
+import { searchQueue, enqueueManualRun } from '../jobs/search-queue.js';
 
 const router = Router();
 
@@ -46,7 +59,7 @@ router.get(
 
             res.json({
                 success: true,
-                data: searchConfigs,
+                data: searchConfigs.map(withSchedule),
                 pagination: {
                     page,
                     limit,
@@ -82,10 +95,16 @@ router.post(
                 throw new ForbiddenError('You must subscribe to this service first');
             }
 
+            await entitlementService.assert(req.user!.id, 'add-search', req.body.serviceId);
+
             // Calculate next run time
-            const now = new Date();
-            const jitter = Math.floor(Math.random() * req.body.randomRangeSeconds * 2) - req.body.randomRangeSeconds;
-            const nextRunAt = new Date(now.getTime() + (req.body.intervalSeconds + jitter) * 1000);
+            const nextRunAt = schedulingService.getNextRunAt({
+                intervalSeconds: req.body.intervalSeconds,
+                randomRangeSeconds: req.body.randomRangeSeconds,
+                quietHoursStart: req.body.quietHoursStart ?? null,
+                quietHoursEnd: req.body.quietHoursEnd ?? null,
+                activeDays: req.body.activeDays ?? [],
+            });
 
             const searchConfig = await prisma.searchConfig.create({
                 data: {
@@ -96,9 +115,24 @@ router.post(
                     priceMin: req.body.priceMin,
                     priceMax: req.body.priceMax,
                     location: req.body.location,
+                    make: req.body.make,
+                    model: req.body.model,
+                    yearMin: req.body.yearMin,
+                    yearMax: req.body.yearMax,
+                    mileageMin: req.body.mileageMin,
+                    mileageMax: req.body.mileageMax,
+                    fuelType: req.body.fuelType,
+                    gearbox: req.body.gearbox,
+                    bodyType: req.body.bodyType,
+                    radiusKm: req.body.radiusKm,
                     customFilters: req.body.customFilters,
+                    priceDropMinPercent: req.body.priceDropMinPercent,
+                    notifyOnRemoved: req.body.notifyOnRemoved,
                     intervalSeconds: req.body.intervalSeconds,
                     randomRangeSeconds: req.body.randomRangeSeconds,
+                    quietHoursStart: req.body.quietHoursStart,
+                    quietHoursEnd: req.body.quietHoursEnd,
+                    activeDays: req.body.activeDays,
                     nextRunAt,
                 },
                 include: {
@@ -114,7 +148,7 @@ router.post(
 
             res.status(201).json({
                 success: true,
-                data: searchConfig,
+                data: withSchedule(searchConfig),
             });
         } catch (error) {
             next(error);
@@ -140,9 +174,10 @@ router.get(
                             baseUrl: true,
                         },
                     },
-                    listings: {
+                    listingMatches: {
                         take: 10,
-                        orderBy: { detectedAt: 'desc' },
+                        orderBy: { matchedAt: 'desc' },
+                        include: { listing: true },
                     },
                 },
             });
@@ -155,9 +190,18 @@ router.get(
                 throw new ForbiddenError('Access denied');
             }
 
+            // Latest listings found by this search, with its own marks
+            const { listingMatches, ...rest } = searchConfig;
+            const listings = listingMatches.map(({ listing, isAd, markedSuccessAt, matchedAt }) => ({
+                ...listing,
+                isAd,
+                markedSuccessAt,
+                matchedAt,
+            }));
+
             res.json({
                 success: true,
-                data: searchConfig,
+                data: { ...withSchedule(rest), listings },
             });
         } catch (error) {
             next(error);
@@ -185,9 +229,20 @@ router.patch(
                 throw new ForbiddenError('Access denied');
             }
 
+            // Reactivating counts against the search limit
+            const activating = req.body.isActive === true && !existing.isActive;
+            await entitlementService.assert(req.user!.id, activating ? 'add-search' : 'use-service', existing.serviceId);
+
+            // Reschedule when the schedule changed; the pending run may be in a new quiet period
+            const scheduleChanged = SCHEDULE_FIELDS.some(field => field in req.body);
+            const merged = { ...existing, ...req.body };
+            const nextRunAt = scheduleChanged && merged.isActive
+                ? schedulingService.getNextRunAt(merged)
+                : undefined;
+
             const searchConfig = await prisma.searchConfig.update({
                 where: { id: req.params.id },
-                data: req.body,
+                data: { ...req.body, ...(nextRunAt && { nextRunAt }) },
                 include: {
                     service: {
                         select: {
@@ -201,7 +256,7 @@ router.patch(
 
             res.json({
                 success: true,
-                data: searchConfig,
+                data: withSchedule(searchConfig),
             });
         } catch (error) {
             next(error);
@@ -231,6 +286,7 @@ router.delete(
             await prisma.searchConfig.delete({
                 where: { id: req.params.id },
             });
+            await searchRunService.deleteConfigBlobs(req.params.id);
 
             res.json({
                 success: true,
@@ -261,9 +317,14 @@ router.patch(
                 throw new ForbiddenError('Access denied');
             }
 
+            // Pausing is always allowed
+            if (!existing.isActive) {
+                await entitlementService.assert(req.user!.id, 'add-search', existing.serviceId);
+            }
+
             // If activating, calculate next run time
             const nextRunAt = !existing.isActive
-                ? new Date(Date.now() + existing.intervalSeconds * 1000)
+                ? schedulingService.getNextRunAt(existing)
                 : null;
 
             const searchConfig = await prisma.searchConfig.update({
@@ -276,7 +337,65 @@ router.patch(
 
             res.json({
                 success: true,
-                data: searchConfig,
+                data: withSchedule(searchConfig),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Preview the search URL a configuration produces
+router.get(
+    '/:id/preview-url',
+    authenticate,
+    validateParams(uuidParamSchema),
+    async (req: AuthRequest, res: Response, next) => {
+        try {
+            const searchConfig = await prisma.searchConfig.findUnique({
+                where: { id: req.params.id },
+                include: {
+                    service: {
+                        select: {
+                            name: true,
+                            baseUrl: true,
+                            defaultConfig: true,
+                        },
+                    },
+                },
+            });
+
+            if (!searchConfig) {
+                throw new NotFoundError('Search configuration not found');
+            }
+
+            if (searchConfig.userId !== req.user!.id) {
+                throw new ForbiddenError('Access denied');
+            }
+
+            const filters = getVehicleFilters(searchConfig);
+            const { url, used } = buildSearchUrl(
+                resolveServiceConfig(searchConfig.service),
+                searchConfig.service.baseUrl,
+                getSearchUrlVariables({
+                    keywords: searchConfig.keywords as string[],
+                    priceMin: searchConfig.priceMin,
+                    priceMax: searchConfig.priceMax,
+                    location: searchConfig.location,
+                    filters,
+                })
+            );
+
+            const filterKeys = Object.keys(filters);
+
+            res.json({
+                success: true,
+                data: {
+                    url,
+                    // Filters the site applies itself vs. ones checked after extraction
+                    serverSideFilters: filterKeys.filter(key => used.has(key)),
+                    postExtractionFilters: filterKeys.filter(key => !used.has(key)),
+                },
             });
         } catch (error) {
             next(error);
@@ -288,11 +407,13 @@ router.patch(
 router.post(
     '/:id/run',
     authenticate,
+    scrapingRateLimiter,
     validateParams(uuidParamSchema),
     async (req: AuthRequest, res: Response, next) => {
         try {
             const existing = await prisma.searchConfig.findUnique({
                 where: { id: req.params.id },
+                include: { service: true },
             });
 
             if (!existing) {
@@ -303,21 +424,150 @@ router.post(
                 throw new ForbiddenError('Access denied');
             }
 
-            // TODO: Queue the job for immediate execution
-            // This will be implemented with Bull queue
+            if (!existing.service.isActive) {
+                throw new ConflictError('Service is not active');
+            }
+
+            await entitlementService.assert(req.user!.id, 'run-search', existing.serviceId);
+
+            const job = await enqueueManualRun(existing);
+
+            res.status(202).json({
+                success: true,
+                data: { jobId: job.id },
+                message: 'Search triggered. Results will appear soon.',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
 
-            // For now, just update last run time
-            await prisma.searchConfig.update({
+// Status of a manual run
+router.get(
+    '/:id/runs/:jobId',
+    authenticate,
+    validateParams(searchRunParamsSchema),
+    async (req: AuthRequest, res: Response, next) => {
+        try {
+            const existing = await prisma.searchConfig.findUnique({
                 where: { id: req.params.id },
+            });
+
+            if (!existing) {
+                throw new NotFoundError('Search configuration not found');
+            }
+
+            if (existing.userId !== req.user!.id) {
+                throw new ForbiddenError('Access denied');
+            }
+
+            const job = await searchQueue.getJob(req.params.jobId);
+
+            // Finished jobs are removed after a while (see removeOnComplete)
+            if (!job || job.data.searchConfigId !== existing.id) {
+                throw new NotFoundError('Search run not found');
+            }
+
+            const state = await job.getState();
+
+            res.json({
+                success: true,
                 data: {
-                    lastRunAt: new Date(),
-                    nextRunAt: new Date(Date.now() + existing.intervalSeconds * 1000),
+                    jobId: job.id,
+                    state,
+                    progress: job.progress(),
+                    result: state === 'completed' ? job.returnvalue : null,
+                    error: state === 'failed' ? job.failedReason : null,
+                    attemptsMade: job.attemptsMade,
+                    createdAt: new Date(job.timestamp),
+                    startedAt: job.processedOn ? new Date(job.processedOn) : null,
+                    finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Run history (scheduled and manual runs, newest first)
+router.get(
+    '/:id/history',
+    authenticate,
+    validateParams(uuidParamSchema),
+    validateQuery(listSearchRunsQuerySchema),
+    async (req: AuthRequest, res: Response, next) => {
+        try {
+            const { page, limit, status } = req.query as { page: number; limit: number; status?: SearchRunStatus };
+            const skip = (page - 1) * limit;
+
+            const existing = await prisma.searchConfig.findUnique({
+                where: { id: req.params.id },
+            });
+
+            if (!existing) {
+                throw new NotFoundError('Search configuration not found');
+            }
+
+            if (existing.userId !== req.user!.id) {
+                throw new ForbiddenError('Access denied');
+            }
+
+            const where = { searchConfigId: existing.id, ...(status && { status }) };
+
+            const [runs, total] = await Promise.all([
+                prisma.searchRun.findMany({
+                    where,
+                    select: SEARCH_RUN_SUMMARY_SELECT,
+                    orderBy: { startedAt: 'desc' },
+                    skip,
+                    take: limit,
+                }),
+                prisma.searchRun.count({ where }),
+            ]);
+
+            res.json({
+                success: true,
+                data: runs.map(run => searchRunService.describe(run)),
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit),
                 },
             });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Single run with its logs
+router.get(
+    '/:id/history/:runId',
+    authenticate,
+    validateParams(searchRunHistoryParamsSchema),
+    async (req: AuthRequest, res: Response, next) => {
+        try {
+            const run = await prisma.searchRun.findUnique({
+                where: { id: req.params.runId },
+                include: { searchConfig: { select: { userId: true } } },
+            });
+
+            if (!run || run.searchConfigId !== req.params.id) {
+                throw new NotFoundError('Search run not found');
+            }
+
+            if (run.searchConfig.userId !== req.user!.id) {
+                throw new ForbiddenError('Access denied');
+            }
+
+            const { searchConfig, ...rest } = run;
 
             res.json({
                 success: true,
-                message: 'Search triggered. Results will appear soon.',
+                data: searchRunService.describe(rest),
             });
         } catch (error) {
             next(error);
@@ -325,4 +575,44 @@ router.post(
     }
 );
 
+// Screenshot taken when a run failed
+router.get(
+    '/:id/history/:runId/screenshots/:index',
+    authenticate,
+    validateParams(searchRunScreenshotParamsSchema),
+    async (req: AuthRequest, res: Response, next) => {
+        try {
+            const run = await prisma.searchRun.findUnique({
+                where: { id: req.params.runId },
+                include: { searchConfig: { select: { userId: true } } },
+            });
+
+            if (!run || run.searchConfigId !== req.params.id) {
+                throw new NotFoundError('Search run not found');
+            }
+
+            if (run.searchConfig.userId !== req.user!.id) {
+                throw new ForbiddenError('Access denied');
+            }
+
+            const screenshot = await searchRunService.getScreenshot(run, Number(req.params.index));
+
+            if (!screenshot) {
+                throw new NotFoundError('Screenshot not found');
+            }
+
+            res.type('png').send(screenshot);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+/**
+ * Search config with its computed schedule
+ */
+function withSchedule<T extends Parameters<typeof schedulingService.describe>[0]>(searchConfig: T) {
+    return { ...searchConfig, schedule: schedulingService.describe(searchConfig) };
+}
+
 export default router;
@@ -4,7 +4,9 @@ import { prisma } from '../config/index.js';
 import { authenticate, type AuthRequest } from '../middleware/auth.js';
 import { validateBody, validateParams } from '../middleware/validate.js';
 import { storeCredentialsSchema, uuidParamSchema } from '../schemas/index.js';
-import { encryptionService } from '../services/encryption.service.js';
+import { credentialsService } from '../services/credentials.service.js';
+import { browserProfileService } from '../services/browser-profile.service.js';
+import { entitlementService } from '../services/entitlement.service.js';
 import { NotFoundError, ConflictError } from '../utils/errors.js';
 
 const router = Router();
@@ -56,6 +58,9 @@ router.get(
                     credentials: {
                         select: {
                             id: true,
+                            isValid: true,
+                            lastError: true,
+                            lastLoginAt: true,
                             createdAt: true,
                             updatedAt: true,
                         },
@@ -68,6 +73,8 @@ router.get(
                 data: subscriptions.map(sub => ({
                     ...sub.service,
                     hasCredentials: !!sub.credentials,
+                    credentialsValid: sub.credentials?.isValid ?? null,
+                    credentialsError: sub.credentials?.lastError ?? null,
                     subscribedAt: sub.createdAt,
                 })),
             });
@@ -137,11 +144,13 @@ router.post(
                 },
             });
 
-            if (existing) {
-                if (existing.isActive) {
-                    throw new ConflictError('Already subscribed to this service');
-                }
+            if (existing?.isActive) {
+                throw new ConflictError('Already subscribed to this service');
+            }
 
+            await entitlementService.assert(req.user!.id, 'add-service', req.params.id);
+
+            if (existing) {
                 // Reactivate subscription
                 const updated = await prisma.userService.update({
                     where: { id: existing.id },
@@ -229,25 +238,12 @@ router.post(
                 throw new NotFoundError('Subscription not found. Subscribe first.');
             }
 
-            // Encrypt credentials
-            const encryptedUsername = encryptionService.encrypt(req.body.username);
-            const encryptedPassword = encryptionService.encrypt(req.body.password);
+            await entitlementService.assert(req.user!.id, 'use-service', req.params.id);
 
-            // Upsert credentials
-            await prisma.serviceCredentials.upsert({
-                where: { userServiceId: userService.id },
-                create: {
-                    userServiceId: userService.id,
-                    encryptedUsername: Buffer.concat([encryptedUsername.encrypted, encryptedUsername.authTag]),
-                    encryptedPassword: Buffer.concat([encryptedPassword.encrypted, encryptedPassword.authTag]),
-                    iv: encryptedUsername.iv, // Same IV for both (simplified)
-                },
-                update: {
-                    encryptedUsername: Buffer.concat([encryptedUsername.encrypted, encryptedUsername.authTag]),
-                    encryptedPassword: Buffer.concat([encryptedPassword.encrypted, encryptedPassword.authTag]),
-                    iv: encryptedUsername.iv,
-                },
-            });
+            await credentialsService.store(userService.id, req.body.username, req.body.password);
+
+            // Cookies of a previous account must not be reused with the new credentials
+            await browserProfileService.clear({ serviceId: req.params.id, userServiceId: userService.id });
 
             res.json({
                 success: true,
@@ -3,6 +3,10 @@ import { Router, type Response } from 'express';
 import { prisma } from '../config/index.js';
 import { authenticate, type AuthRequest } from '../middleware/auth.js';
 import { NotFoundError, ForbiddenError, ValidationError } from '../utils/errors.js';
+import { entitlementService, type LimitedAction } from '../services/entitlement.service.js';
+import { schedulingService } from '../services/scheduling.service.js';
+
+const LIMITED_ACTIONS: LimitedAction[] = ['add-service', 'add-search', 'add-custom-service', 'use-service', 'run-search'];
 
 const router = Router();
 
@@ -66,9 +70,8 @@ router.get('/current', authenticate, async (req: AuthRequest, res: Response, nex
             throw new NotFoundError('User not found');
         }
 
-        // Get today's usage
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+        // Get today's usage (days start at midnight in SCHEDULE_TIMEZONE)
+        const today = schedulingService.getLocalDay();
 
         const dailyUsage = await prisma.dailyUsage.findUnique({
             where: {
@@ -81,6 +84,8 @@ router.get('/current', authenticate, async (req: AuthRequest, res: Response, nex
 
         const activeSubscription = user.subscriptions[0] || null;
         const currentPlan = activeSubscription?.plan || user.plan;
+        // Limits with the user's custom overrides applied
+        const entitlements = await entitlementService.getEntitlements(req.user!.id);
 
         res.json({
             success: true,
@@ -89,19 +94,23 @@ router.get('/current', authenticate, async (req: AuthRequest, res: Response, nex
                 subscription: activeSubscription,
                 usage: {
                     searchMinutesUsed: dailyUsage?.searchMinutesUsed || 0,
-                    searchMinutesLimit: currentPlan?.dailySearchMinutes || 120,
-                    searchMinutesRemaining: Math.max(0, (currentPlan?.dailySearchMinutes || 120) - (dailyUsage?.searchMinutesUsed || 0)),
+                    searchMinutesLimit: entitlements.dailySearchMinutes,
+                    searchMinutesRemaining: Math.max(0, entitlements.dailySearchMinutes - (dailyUsage?.searchMinutesUsed || 0)),
                     notificationsSent: dailyUsage?.notificationsSent || 0,
-                    notificationsLimit: currentPlan?.maxNotificationsDay || 2,
-                    notificationsRemaining: Math.max(0, (currentPlan?.maxNotificationsDay || 2) - (dailyUsage?.notificationsSent || 0)),
-                    isUnlimited: currentPlan?.dailySearchMinutes === 0,
+                    notificationsLimit: entitlements.maxNotificationsDay,
+                    notificationsRemaining: Math.max(0, entitlements.maxNotificationsDay - (dailyUsage?.notificationsSent || 0)),
+                    pushNotificationsSent: dailyUsage?.pushNotificationsSent || 0,
+                    emailNotificationsSent: dailyUsage?.emailNotificationsSent || 0,
+                    isUnlimited: entitlements.dailySearchMinutes === 0,
+                    resetsAt: schedulingService.getNextDayStart(),
                 },
                 limits: {
-                    maxServices: currentPlan?.maxServices || 1,
-                    maxCustomServices: currentPlan?.maxCustomServices || 0,
-                    maxSearchConfigs: currentPlan?.maxSearchConfigs || 1,
-                    canAddCustomService: currentPlan?.canAddCustomService || false,
-                    hasBonusService: currentPlan?.hasBonusService || false,
+                    maxServices: entitlements.maxServices,
+                    maxCustomServices: entitlements.maxCustomServices,
+                    maxSearchConfigs: entitlements.maxSearchConfigs,
+                    canAddCustomService: entitlements.canAddCustomService,
+                    hasBonusService: entitlements.hasBonusService,
+                    allowedServiceIds: entitlements.allowedServiceIds,
                 },
             },
         });
@@ -111,63 +120,25 @@ router.get('/current', authenticate, async (req: AuthRequest, res: Response, nex
 });
 
 // Check if user can perform action (based on limits)
+// Mutating routes enforce the same checks; this lets clients disable actions up front
 router.get('/can-perform/:action', authenticate, async (req: AuthRequest, res: Response, next) => {
     try {
-        const action = req.params.action;
-        const user = await prisma.user.findUnique({
-            where: { id: req.user!.id },
-            include: {
-                plan: true,
-                _count: {
-                    select: {
-                        userServices: { where: { isActive: true } },
-                        searchConfigs: { where: { isActive: true } },
-                    },
-                },
-            },
-        });
-
-        if (!user || !user.plan) {
-            res.json({ success: true, data: { canPerform: false, reason: 'No plan assigned' } });
-            return;
-        }
+        const action = req.params.action as LimitedAction;
+        const serviceId = typeof req.query.serviceId === 'string' ? req.query.serviceId : undefined;
 
-        let canPerform = true;
-        let reason = '';
-
-        switch (action) {
-            case 'add-service':
-                if (user.plan.maxServices > 0 && user._count.userServices >= user.plan.maxServices) {
-                    canPerform = false;
-                    reason = `Osiągnięto limit ${user.plan.maxServices} serwisów w planie ${user.plan.displayName}`;
-                }
-                break;
-
-            case 'add-search':
-                if (user.plan.maxSearchConfigs > 0 && user._count.searchConfigs >= user.plan.maxSearchConfigs) {
-                    canPerform = false;
-                    reason = `Osiągnięto limit ${user.plan.maxSearchConfigs} wyszukiwań w planie ${user.plan.displayName}`;
-                }
-                break;
-
-            case 'add-custom-service':
-                if (!user.plan.canAddCustomService) {
-                    canPerform = false;
-                    reason = 'Dodawanie własnych serwisów dostępne tylko w planie Premium';
-                }
-                break;
-
-            default:
-                break;
-        }
+        const entitlements = await entitlementService.getEntitlements(req.user!.id);
+        const result = LIMITED_ACTIONS.includes(action)
+            ? await entitlementService.check(req.user!.id, action, serviceId, entitlements)
+            : { allowed: true, reason: null, limit: null };
 
         res.json({
             success: true,
             data: {
-                canPerform,
-                reason,
-                upgradeRequired: !canPerform,
-                currentPlan: user.plan.displayName,
+                canPerform: result.allowed,
+                reason: result.reason ?? '',
+                limit: result.limit,
+                upgradeRequired: !result.allowed,
+                currentPlan: entitlements.plan?.displayName ?? null,
             },
         });
     } catch (error) {
@@ -17,25 +17,101 @@ export const refreshTokenSchema = z.object({
 });
 
 // User update schemas
+// Languages of notification emails
+export const EMAIL_LANGUAGES = ['pl', 'en'] as const;
+
 export const updateUserSchema = z.object({
     name: z.string().min(1).max(100).optional(),
+    emailNotifications: z.boolean().optional(),
+    language: z.enum(EMAIL_LANGUAGES).optional(),
 });
 
+// Vehicle attribute filters (canonical values, mapped per service in automation/search-filters.ts)
+export const FUEL_TYPES = ['petrol', 'diesel', 'lpg', 'hybrid', 'electric'] as const;
+export const GEARBOX_TYPES = ['manual', 'automatic'] as const;
+export const BODY_TYPES = ['sedan', 'hatchback', 'combi', 'suv', 'coupe', 'cabrio', 'minivan', 'pickup'] as const;
+
+const currentYear = new Date().getFullYear();
+
+const vehicleFilterFields = {
+    make: z.string().min(1).max(50).nullable().optional(),
+    model: z.string().min(1).max(50).nullable().optional(),
+    yearMin: z.number().int().min(1900).max(currentYear + 1).nullable().optional(),
+    yearMax: z.number().int().min(1900).max(currentYear + 1).nullable().optional(),
+    mileageMin: z.number().int().min(0).nullable().optional(),
+    mileageMax: z.number().int().min(0).nullable().optional(),
+    fuelType: z.enum(FUEL_TYPES).nullable().optional(),
+    gearbox: z.enum(GEARBOX_TYPES).nullable().optional(),
+    bodyType: z.enum(BODY_TYPES).nullable().optional(),
+    radiusKm: z.number().int().min(0).max(500).nullable().optional(),
+};
+
+type RangeInput = Partial<Record<'yearMin' | 'yearMax' | 'mileageMin' | 'mileageMax' | 'model' | 'make', unknown>>;
+
+const refineVehicleFilters = (data: RangeInput, ctx: z.RefinementCtx) => {
+    const ranges = [['yearMin', 'yearMax'], ['mileageMin', 'mileageMax']] as const;
+
+    for (const [min, max] of ranges) {
+        const from = data[min];
+        const to = data[max];
+        if (typeof from === 'number' && typeof to === 'number' && from > to) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [max], message: `${max} must be greater than or equal to ${min}` });
+        }
+    }
+
+    if (data.model && !data.make) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['make'], message: 'make is required when model is set' });
+    }
+};
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+type ScheduleInput = Partial<Record<'quietHoursStart' | 'quietHoursEnd', string | null>>;
+
+const refineSchedule = (data: ScheduleInput, ctx: z.RefinementCtx) => {
+    if (!('quietHoursStart' in data) && !('quietHoursEnd' in data)) return;
+
+    if (!data.quietHoursStart !== !data.quietHoursEnd) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['quietHoursEnd'], message: 'quietHoursStart and quietHoursEnd must be set together' });
+    } else if (data.quietHoursStart && data.quietHoursStart === data.quietHoursEnd) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['quietHoursEnd'], message: 'quietHoursEnd must differ from quietHoursStart' });
+    }
+};
+
 // Search config schemas
-export const createSearchConfigSchema = z.object({
+const searchConfigFields = z.object({
     serviceId: z.string().uuid(),
     name: z.string().min(1).max(100),
     keywords: z.array(z.string()).default([]),
     priceMin: z.number().int().positive().nullable().optional(),
     priceMax: z.number().int().positive().nullable().optional(),
     location: z.string().max(100).nullable().optional(),
+    ...vehicleFilterFields,
     customFilters: z.record(z.any()).optional(),
+    priceDropMinPercent: z.number().min(0).max(100).nullable().optional(),
+    notifyOnRemoved: z.boolean().optional(),
     intervalSeconds: z.number().int().min(30).max(86400).default(300),
     randomRangeSeconds: z.number().int().min(0).max(300).default(15),
+    quietHoursStart: timeOfDay.nullable().optional(),
+    quietHoursEnd: timeOfDay.nullable().optional(),
+    // ISO weekdays, 1 = Monday; empty = every day
+    activeDays: z.array(z.number().int().min(1).max(7)).max(7)
+        .transform(days => [...new Set(days)].sort((a, b) => a - b))
+        .optional(),
     isActive: z.boolean().optional(),
 });
 
-export const updateSearchConfigSchema = createSearchConfigSchema.partial().omit({ serviceId: true });
+export const createSearchConfigSchema = searchConfigFields
+    .superRefine(refineVehicleFilters)
+    .superRefine(refineSchedule);
+
+export const updateSearchConfigSchema = searchConfigFields
+    .partial()
+    .omit({ serviceId: true })
+    .superRefine(refineVehicleFilters)
+    .superRefine(refineSchedule);
+
+export const vehicleFiltersSchema = z.object(vehicleFilterFields);
 
 // Service credential schemas
 export const storeCredentialsSchema = z.object({
@@ -51,6 +127,12 @@ export const listListingsQuerySchema = z.object({
     searchConfigId: z.string().uuid().optional(),
     minPrice: z.coerce.number().int().positive().optional(),
     maxPrice: z.coerce.number().int().positive().optional(),
+    status: z.enum(['ACTIVE', 'REMOVED']).optional(),
+});
+
+// Marks a listing for one of the user's search configs, or for all of them when omitted
+export const markListingSchema = z.object({
+    searchConfigId: z.string().uuid().optional(),
 });
 
 // Notification schemas
@@ -68,6 +150,161 @@ export const registerDeviceSchema = z.object({
     deviceName: z.string().max(100).optional(),
 });
 
+// Service config schemas (Service.defaultConfig)
+const regexSchema = z.string().refine(value => {
+    try {
+        new RegExp(value);
+        return true;
+    } catch {
+        return false;
+    }
+}, 'Invalid regular expression');
+
+const selectorFieldSchema = z.object({
+    selector: z.string().min(1),
+    attribute: z.string().min(1).optional(),
+    regex: regexSchema.optional(),
+});
+
+const attributeFieldSchema = selectorFieldSchema.extend({
+    attribute: z.string().min(1),
+});
+
+/**
+ * How to reach the next results page
+ * - nextSelector: click a "next page" link/button
+ * - urlParam: set a page number query parameter on the current URL
+ * - infiniteScroll: scroll to the bottom and wait for more containers to load
+ */
+export const paginationConfigSchema = z.object({
+    type: z.enum(['nextSelector', 'urlParam', 'infiniteScroll']),
+    nextSelector: z.string().min(1).optional(),
+    param: z.string().min(1).optional(),
+    maxPages: z.number().int().min(1).max(50),
+    delayMs: z.number().int().min(0).max(30000).optional(),
+}).refine(
+    pagination => pagination.type !== 'nextSelector' || !!pagination.nextSelector,
+    { message: 'nextSelector is required for nextSelector pagination', path: ['nextSelector'] }
+);
+
+export const listingExtractorConfigSchema = z.object({
+    containerSelector: z.string().min(1),
+    fields: z.object({
+        title: selectorFieldSchema,
+        price: selectorFieldSchema,
+        description: selectorFieldSchema.optional(),
+        location: selectorFieldSchema.optional(),
+        phone: selectorFieldSchema.optional(),
+        link: attributeFieldSchema,
+        image: attributeFieldSchema.optional(),
+        externalId: attributeFieldSchema.optional(),
+        // Vehicle attributes shown on the card, used for post-extraction filtering
+        year: selectorFieldSchema.optional(),
+        mileage: selectorFieldSchema.optional(),
+        fuelType: selectorFieldSchema.optional(),
+        gearbox: selectorFieldSchema.optional(),
+    }),
+    pagination: paginationConfigSchema.optional(),
+});
+
+export const phoneExtractorConfigSchema = z.object({
+    revealButtonSelector: z.string().min(1),
+    phoneSelector: z.string().min(1),
+    phoneAttribute: z.enum(['textContent', 'href']),
+    requiresLogin: z.boolean().default(false),
+});
+
+/**
+ * Selectors for a listing detail page, all relative to the document
+ * `images` collects every match (full gallery), the other fields take the first match
+ */
+export const detailExtractorConfigSchema = z.object({
+    fields: z.object({
+        description: selectorFieldSchema.optional(),
+        images: attributeFieldSchema.optional(),
+        mileage: selectorFieldSchema.optional(),
+        year: selectorFieldSchema.optional(),
+        fuelType: selectorFieldSchema.optional(),
+        gearbox: selectorFieldSchema.optional(),
+        vin: selectorFieldSchema.optional(),
+        sellerType: selectorFieldSchema.optional(),
+    }),
+});
+
+/**
+ * Variables available to searchUrlPattern placeholders, e.g. "/osobowe/{{make|slug}}?q={{keywords}}"
+ */
+export const SEARCH_URL_VARIABLES = [
+    'keywords', 'priceMin', 'priceMax', 'location',
+    'make', 'model', 'yearMin', 'yearMax', 'mileageMin', 'mileageMax', 'fuelType', 'gearbox', 'bodyType', 'radiusKm',
+] as const;
+
+export const SEARCH_URL_FILTERS = ['slug', 'raw'] as const;
+
+export const SEARCH_URL_PLACEHOLDER = /\{\{\s*([^}|\s]+)\s*(?:\|\s*([^}\s]+)\s*)?\}\}/g;
+
+const searchUrlPatternSchema = z.string().min(1).superRefine((pattern, ctx) => {
+    for (const [, name, filter] of pattern.matchAll(SEARCH_URL_PLACEHOLDER)) {
+        if (!(SEARCH_URL_VARIABLES as readonly string[]).includes(name)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown variable "${name}"` });
+        }
+        if (filter && !(SEARCH_URL_FILTERS as readonly string[]).includes(filter)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown filter "${filter}" on "${name}"` });
+        }
+    }
+});
+
+/**
+ * How searchUrlPattern values are rendered
+ * - slug: rules for the `slug` filter (default: "-" separator, lowercase, diacritics stripped)
+ * - spaceEncoding: spaces in query values as %20 (default) or +
+ * - values: per-variable value maps (canonical value -> site value); unmapped values omit the parameter
+ */
+export const searchUrlRulesSchema = z.object({
+    slug: z.object({
+        separator: z.string().max(3).optional(),
+        lowercase: z.boolean().optional(),
+        stripDiacritics: z.boolean().optional(),
+    }).optional(),
+    spaceEncoding: z.enum(['percent', 'plus']).optional(),
+    values: z.record(z.enum(SEARCH_URL_VARIABLES), z.record(z.string())).optional(),
+});
+
+/**
+ * How to tell whether the browser is logged in to a service
+ * - checkUrl: page opened to check the session (default: Service.baseUrl)
+ * - loggedInSelector: present only for logged-in visitors (e.g. avatar / account menu)
+ * - loginErrorSelector: shown after the site rejects the credentials
+ */
+export const loginConfigSchema = z.object({
+    checkUrl: z.string().url().optional(),
+    loggedInSelector: z.string().min(1),
+    loginErrorSelector: z.string().min(1).optional(),
+});
+
+/**
+ * How to recognize a listing detail page of a removed listing (besides HTTP 404/410)
+ * - textMarkers: phrases shown instead of the listing (default: common Polish and English phrases)
+ * - selector: element present only on removed listings
+ */
+export const removalCheckConfigSchema = z.object({
+    textMarkers: z.array(z.string().min(1)).optional(),
+    selector: z.string().min(1).optional(),
+});
+
+export const serviceConfigSchema = z.object({
+    searchUrlPattern: searchUrlPatternSchema.optional(),
+    searchUrl: searchUrlRulesSchema.optional(),
+    requiresLogin: z.boolean().optional(),
+    login: loginConfigSchema.optional(),
+    // Keep cookies/localStorage between runs (see BrowserProfile)
+    persistProfile: z.boolean().optional(),
+    listing: listingExtractorConfigSchema.optional(),
+    phone: phoneExtractorConfigSchema.optional(),
+    detail: detailExtractorConfigSchema.optional(),
+    removal: removalCheckConfigSchema.optional(),
+});
+
 // Pagination helpers
 export const paginationQuerySchema = z.object({
     page: z.coerce.number().int().positive().default(1),
@@ -78,10 +315,39 @@ export const uuidParamSchema = z.object({
     id: z.string().uuid(),
 });
 
+export const searchRunParamsSchema = z.object({
+    id: z.string().uuid(),
+    jobId: z.string().min(1).max(200),
+});
+
+// Search run history
+export const listSearchRunsQuerySchema = paginationQuerySchema.extend({
+    status: z.enum(['RUNNING', 'SUCCESS', 'FAILED']).optional(),
+});
+
+export const searchRunHistoryParamsSchema = z.object({
+    id: z.string().uuid(),
+    runId: z.string().uuid(),
+});
+
+export const searchRunScreenshotParamsSchema = searchRunHistoryParamsSchema.extend({
+    index: z.coerce.number().int().min(0),
+});
+
 // Type exports
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type CreateSearchConfigInput = z.infer<typeof createSearchConfigSchema>;
 export type UpdateSearchConfigInput = z.infer<typeof updateSearchConfigSchema>;
+export type VehicleFilters = z.infer<typeof vehicleFiltersSchema>;
 export type StoreCredentialsInput = z.infer<typeof storeCredentialsSchema>;
 export type RegisterDeviceInput = z.infer<typeof registerDeviceSchema>;
+export type ServiceConfig = z.infer<typeof serviceConfigSchema>;
+export type ListingExtractorConfig = z.infer<typeof listingExtractorConfigSchema>;
+export type PaginationConfig = z.infer<typeof paginationConfigSchema>;
+export type PhoneExtractorConfig = z.infer<typeof phoneExtractorConfigSchema>;
+export type DetailExtractorConfig = z.infer<typeof detailExtractorConfigSchema>;
+export type SearchUrlRules = z.infer<typeof searchUrlRulesSchema>;
+export type LoginConfig = z.infer<typeof loginConfigSchema>;
+export type RemovalCheckConfig = z.infer<typeof removalCheckConfigSchema>;
+export type SearchUrlVariable = typeof SEARCH_URL_VARIABLES[number];
@@ -6,6 +6,7 @@ import { prisma, config } from '../config/index.js';
 import { UnauthorizedError, ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
 import type { JwtPayload } from '../middleware/auth.js';
 import type { User, UserTier } from '@prisma/client';
+import type { EmailLanguage } from './email-templates.js';
 
 const SALT_ROUNDS = 12;
 
@@ -33,6 +34,8 @@ export interface UserResponse {
     tier: UserTier;
     isAdmin: boolean;
     emailVerified: boolean;
+    emailNotifications: boolean;
+    language: string;
     createdAt: Date;
 }
 
@@ -167,7 +170,10 @@ class AuthService {
         return this.toUserResponse(user);
     }
 
-    async updateUser(userId: string, data: { name?: string }): Promise<UserResponse> {
+    async updateUser(
+        userId: string,
+        data: { name?: string; emailNotifications?: boolean; language?: EmailLanguage }
+    ): Promise<UserResponse> {
         const user = await prisma.user.update({
             where: { id: userId },
             data,
@@ -266,6 +272,8 @@ class AuthService {
             tier: user.tier,
             isAdmin: user.isAdmin,
             emailVerified: user.emailVerified,
+            emailNotifications: user.emailNotifications,
+            language: user.language,
             createdAt: user.createdAt,
         };
     }
@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Storage for binary files too large for the database (e.g. failure screenshots)
+ * Keys are slash-separated paths like "search-runs/<runId>/0.png".
+ */
+export interface BlobStore {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    // null when the blob doesn't exist
+    get(key: string): Promise<Buffer | null>;
+    // Deletes every blob whose key starts with the prefix
+    deletePrefix(prefix: string): Promise<void>;
+}
+
+/**
+ * Blobs as files below a directory; the API and the worker must share it (see docker-compose.yml)
+ */
+class LocalBlobStore implements BlobStore {
+    constructor(private readonly root: string) { }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const file = this.resolve(key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, data);
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            return await fs.readFile(this.resolve(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async deletePrefix(prefix: string): Promise<void> {
+        await fs.rm(this.resolve(prefix), { recursive: true, force: true });
+    }
+
+    private resolve(key: string): string {
+        const file = path.resolve(this.root, key);
+        if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+            throw new Error(`Invalid blob key: ${key}`);
+        }
+        return file;
+    }
+}
+
+// Add other stores (e.g. S3) here and to BLOB_STORE_DRIVER
+const drivers: Record<typeof config.blobStore.driver, () => BlobStore> = {
+    local: () => new LocalBlobStore(config.blobStore.localPath),
+};
+
+logger.debug(`Using ${config.blobStore.driver} blob store`);
+
+export const blobStore: BlobStore = drivers[config.blobStore.driver]();
@@ -0,0 +1,121 @@
+import type { BrowserProfile } from '@prisma/client';
+import type { BrowserContextOptions } from 'playwright';
+import { prisma, config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { encryptionService } from './encryption.service.js';
+
+export type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+/**
+ * Whose browser state a session uses: the shared per-service profile,
+ * or a user's own profile when running logged in through their UserService
+ */
+export interface BrowserProfileScope {
+    serviceId: string;
+    userServiceId?: string | null;
+}
+
+class BrowserProfileService {
+    /**
+     * Load the saved storageState for a scope
+     * Profiles older than config.playwright.profileMaxAgeHours are deleted and treated as missing
+     */
+    async load(scope: BrowserProfileScope): Promise<StorageState | undefined> {
+        const profileKey = this.getProfileKey(scope);
+        const profile = await prisma.browserProfile.findUnique({ where: { profileKey } });
+
+        if (!profile) return undefined;
+
+        if (this.isExpired(profile.savedAt)) {
+            logger.debug(`Browser profile ${profileKey} expired, starting fresh`);
+            await prisma.browserProfile.delete({ where: { id: profile.id } }).catch(() => { });
+            return undefined;
+        }
+
+        try {
+            return this.decrypt(profile);
+        } catch (error) {
+            logger.warn(`Failed to decrypt browser profile ${profileKey}, discarding it`, error);
+            await prisma.browserProfile.delete({ where: { id: profile.id } }).catch(() => { });
+            return undefined;
+        }
+    }
+
+    async save(scope: BrowserProfileScope, state: StorageState): Promise<void> {
+        const profileKey = this.getProfileKey(scope);
+        const data = {
+            ...this.encryptState(state),
+            savedAt: new Date(),
+        };
+
+        await prisma.browserProfile.upsert({
+            where: { profileKey },
+            create: {
+                profileKey,
+                serviceId: scope.serviceId,
+                userServiceId: scope.userServiceId ?? null,
+                ...data,
+            },
+            update: data,
+        });
+    }
+
+    /**
+     * Whether the profile is in the legacy format or encrypted with an older key
+     */
+    needsReencryption(profile: BrowserProfile): boolean {
+        if (profile.iv) return true;
+
+        return encryptionService.needsReencryption(Buffer.from(profile.encryptedState));
+    }
+
+    /**
+     * Re-encrypt a profile with the current key (also converts legacy rows), keeping its savedAt
+     * @throws when the profile can't be decrypted
+     */
+    async reencrypt(profile: BrowserProfile): Promise<void> {
+        await prisma.browserProfile.update({
+            where: { id: profile.id },
+            data: this.encryptState(this.decrypt(profile)),
+        });
+    }
+
+    /**
+     * Forget a profile, e.g. after a failed login left it in a bad state
+     */
+    async clear(scope: BrowserProfileScope): Promise<void> {
+        await prisma.browserProfile.deleteMany({ where: { profileKey: this.getProfileKey(scope) } });
+    }
+
+    getProfileKey(scope: BrowserProfileScope): string {
+        return scope.userServiceId
+            ? `user-service:${scope.userServiceId}`
+            : `service:${scope.serviceId}`;
+    }
+
+    /**
+     * Legacy rows (`iv` set) store the ciphertext with its IV and auth tag in separate columns
+     */
+    private decrypt(profile: BrowserProfile): StorageState {
+        const json = profile.iv
+            ? encryptionService.decrypt(Buffer.from(profile.encryptedState), Buffer.from(profile.iv), Buffer.from(profile.authTag!))
+            : encryptionService.decryptEnvelope(Buffer.from(profile.encryptedState));
+
+        return JSON.parse(json) as StorageState;
+    }
+
+    private encryptState(state: StorageState) {
+        return {
+            encryptedState: encryptionService.encryptEnvelope(JSON.stringify(state)),
+            iv: null,
+            authTag: null,
+        };
+    }
+
+    private isExpired(savedAt: Date): boolean {
+        const maxAgeMs = config.playwright.profileMaxAgeHours * 60 * 60 * 1000;
+        return Date.now() - savedAt.getTime() > maxAgeMs;
+    }
+}
+
+export const browserProfileService = new BrowserProfileService();
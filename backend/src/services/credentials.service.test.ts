@@ -0,0 +1,54 @@
+import type { ServiceCredentials } from '@prisma/client';
+import { fakeDatabase } from '../test/fake-prisma.js';
+import { credentialsService, CredentialsDecryptError } from './credentials.service.js';
+import { encryptionService } from './encryption.service.js';
+
+jest.mock('../config/database.js', () => ({ prisma: require('../test/fake-prisma.js').fakeDatabase.prisma }));
+jest.mock('../config/redis.js', () => ({ redis: {} }));
+
+/**
+ * A row as the services route stored credentials before envelopes: ciphertext + auth tag per field,
+ * with only the username's IV kept
+ */
+function baselineRow(username: string, password: string): ServiceCredentials {
+    const encryptedUsername = encryptionService.encrypt(username);
+    const encryptedPassword = encryptionService.encrypt(password);
+
+    return {
+        id: 'credentials-1',
+        userServiceId: 'user-service-1',
+        encryptedUsername: Buffer.concat([encryptedUsername.encrypted, encryptedUsername.authTag]),
+        encryptedPassword: Buffer.concat([encryptedPassword.encrypted, encryptedPassword.authTag]),
+        iv: encryptedUsername.iv,
+        isValid: true,
+        lastError: null,
+        lastLoginAt: null,
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01'),
+    };
+}
+
+describe('credentialsService', () => {
+    beforeEach(() => {
+        fakeDatabase.reset({ serviceCredentials: { defaults: { isValid: true, lastError: null } } });
+    });
+
+    it('decrypts stored credentials', async () => {
+        await credentialsService.store('user-service-1', 'jan@example.com', 'tajne-haslo');
+        const [row] = fakeDatabase.tables.serviceCredentials;
+
+        expect(row.iv).toBeNull();
+        expect(credentialsService.needsReencryption(row as ServiceCredentials)).toBe(false);
+        expect(credentialsService.decrypt(row as ServiceCredentials)).toEqual({
+            username: 'jan@example.com',
+            password: 'tajne-haslo',
+        });
+    });
+
+    it('treats rows stored before envelopes as undecryptable', () => {
+        const row = baselineRow('jan@example.com', 'tajne-haslo');
+
+        expect(credentialsService.needsReencryption(row)).toBe(true);
+        expect(() => credentialsService.decrypt(row)).toThrow(CredentialsDecryptError);
+    });
+});
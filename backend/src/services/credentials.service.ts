@@ -0,0 +1,117 @@
+import type { ServiceCredentials } from '@prisma/client';
+import { prisma } from '../config/index.js';
+import { encryptionService } from './encryption.service.js';
+
+export interface DecryptedCredentials {
+    username: string;
+    password: string;
+}
+
+export class CredentialsDecryptError extends Error {
+    constructor(message = 'Stored credentials could not be decrypted') {
+        super(message);
+        this.name = 'CredentialsDecryptError';
+    }
+}
+
+/**
+ * Storage format (ServiceCredentials): each field is an encryption envelope with its own IV, auth tag and key ID.
+ * Rows stored before envelopes (`iv` set) hold each field as ciphertext + auth tag, but only the username's IV
+ * was kept in `iv`; the password was encrypted with an IV that was never stored. Their password can't be
+ * recovered, so they count as undecryptable and must be entered again.
+ */
+class CredentialsService {
+    async store(userServiceId: string, username: string, password: string): Promise<void> {
+        const data = {
+            ...this.encryptFields({ username, password }),
+            // New credentials get a fresh chance
+            isValid: true,
+            lastError: null,
+        };
+
+        await prisma.serviceCredentials.upsert({
+            where: { userServiceId },
+            create: { userServiceId, ...data },
+            update: data,
+        });
+    }
+
+    /**
+     * Find the active subscription and stored credentials of a user for a service
+     */
+    async findForUser(userId: string, serviceId: string): Promise<{ userServiceId: string; credentials: ServiceCredentials | null } | null> {
+        const userService = await prisma.userService.findUnique({
+            where: { userId_serviceId: { userId, serviceId } },
+            include: { credentials: true },
+        });
+
+        if (!userService || !userService.isActive) return null;
+
+        return { userServiceId: userService.id, credentials: userService.credentials };
+    }
+
+    /**
+     * @throws CredentialsDecryptError when either field can't be decrypted
+     */
+    decrypt(credentials: ServiceCredentials): DecryptedCredentials {
+        if (credentials.iv) {
+            throw new CredentialsDecryptError('Stored credentials predate password IVs and must be entered again');
+        }
+
+        try {
+            return {
+                username: encryptionService.decryptEnvelope(Buffer.from(credentials.encryptedUsername)),
+                password: encryptionService.decryptEnvelope(Buffer.from(credentials.encryptedPassword)),
+            };
+        } catch {
+            throw new CredentialsDecryptError();
+        }
+    }
+
+    /**
+     * Whether the row predates envelopes or is encrypted with an older key
+     */
+    needsReencryption(credentials: ServiceCredentials): boolean {
+        if (credentials.iv) return true;
+
+        return encryptionService.needsReencryption(Buffer.from(credentials.encryptedUsername))
+            || encryptionService.needsReencryption(Buffer.from(credentials.encryptedPassword));
+    }
+
+    /**
+     * Re-encrypt a row with the current key
+     * @throws CredentialsDecryptError when the row can't be decrypted (always for rows predating envelopes)
+     */
+    async reencrypt(credentials: ServiceCredentials): Promise<void> {
+        const decrypted = this.decrypt(credentials);
+
+        await prisma.serviceCredentials.update({
+            where: { id: credentials.id },
+            data: this.encryptFields(decrypted),
+        });
+    }
+
+    async markInvalid(userServiceId: string, reason: string): Promise<void> {
+        await prisma.serviceCredentials.updateMany({
+            where: { userServiceId },
+            data: { isValid: false, lastError: reason },
+        });
+    }
+
+    async markLoggedIn(userServiceId: string): Promise<void> {
+        await prisma.serviceCredentials.updateMany({
+            where: { userServiceId },
+            data: { isValid: true, lastError: null, lastLoginAt: new Date() },
+        });
+    }
+
+    private encryptFields(credentials: DecryptedCredentials) {
+        return {
+            encryptedUsername: encryptionService.encryptEnvelope(credentials.username),
+            encryptedPassword: encryptionService.encryptEnvelope(credentials.password),
+            iv: null,
+        };
+    }
+}
+
+export const credentialsService = new CredentialsService();
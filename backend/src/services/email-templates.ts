@@ -0,0 +1,276 @@
+import type { Listing } from '@prisma/client';
+import { config } from '../config/index.js';
+import { EMAIL_LANGUAGES } from '../schemas/index.js';
+import type { EmailMessage } from './email.service.js';
+
+export type EmailLanguage = typeof EMAIL_LANGUAGES[number];
+
+export interface EmailListing {
+    title: string;
+    price: number | null;
+    // Price before the drop
+    previousPrice?: number | null;
+    currency: string;
+    location: string | null;
+    url: string;
+}
+
+/**
+ * Listings found for a user's searches since a point in time, stored in the daily_report notification
+ * Lists are capped; the totals count everything.
+ */
+export interface DailyReport {
+    since: string;
+    newListings: EmailListing[];
+    newListingsTotal: number;
+    priceDrops: EmailListing[];
+    priceDropsTotal: number;
+}
+
+export type EmailContent =
+    | { template: 'new_listing'; listing: EmailListing }
+    | { template: 'price_drop'; listing: EmailListing }
+    | { template: 'daily_report'; report: DailyReport };
+
+interface EmailStrings {
+    locale: string;
+    newListingSubject: (title: string) => string;
+    newListingHeading: string;
+    priceDropSubject: (title: string) => string;
+    priceDropHeading: string;
+    reportSubject: (newListings: number, priceDrops: number) => string;
+    reportHeading: string;
+    reportPeriod: (since: string) => string;
+    newListings: string;
+    priceDrops: string;
+    more: (count: number) => string;
+    price: string;
+    previousPrice: string;
+    location: string;
+    noPrice: string;
+    viewListing: string;
+    footer: string;
+    settings: string;
+}
+
+const STRINGS: Record<EmailLanguage, EmailStrings> = {
+    pl: {
+        locale: 'pl-PL',
+        newListingSubject: title => `Nowe ogłoszenie: ${title}`,
+        newListingHeading: 'Nowe ogłoszenie pasujące do Twojego wyszukiwania',
+        priceDropSubject: title => `Spadek ceny: ${title}`,
+        priceDropHeading: 'Cena obserwowanego ogłoszenia spadła',
+        reportSubject: (newListings, priceDrops) => `Raport dzienny: nowe ogłoszenia ${newListings}, obniżki cen ${priceDrops}`,
+        reportHeading: 'Raport dzienny SprintSale',
+        reportPeriod: since => `Ogłoszenia znalezione od ${since}`,
+        newListings: 'Nowe ogłoszenia',
+        priceDrops: 'Obniżki cen',
+        more: count => `…i ${count} więcej w aplikacji`,
+        price: 'Cena',
+        previousPrice: 'Poprzednia cena',
+        location: 'Lokalizacja',
+        noPrice: 'Brak ceny',
+        viewListing: 'Zobacz ogłoszenie',
+        footer: 'Otrzymujesz tę wiadomość, ponieważ powiadomienia email są włączone w ustawieniach konta SprintSale.',
+        settings: 'Zmień ustawienia powiadomień',
+    },
+    en: {
+        locale: 'en-GB',
+        newListingSubject: title => `New listing: ${title}`,
+        newListingHeading: 'New listing matching your search',
+        priceDropSubject: title => `Price drop: ${title}`,
+        priceDropHeading: 'The price of a listing you follow dropped',
+        reportSubject: (newListings, priceDrops) => `Daily report: ${newListings} new listings, ${priceDrops} price drops`,
+        reportHeading: 'SprintSale daily report',
+        reportPeriod: since => `Listings found since ${since}`,
+        newListings: 'New listings',
+        priceDrops: 'Price drops',
+        more: count => `…and ${count} more in the app`,
+        price: 'Price',
+        previousPrice: 'Previous price',
+        location: 'Location',
+        noPrice: 'No price',
+        viewListing: 'View listing',
+        footer: 'You are receiving this email because email notifications are enabled in your SprintSale account settings.',
+        settings: 'Change notification settings',
+    },
+};
+
+export function toEmailListing(
+    listing: Pick<Listing, 'title' | 'price' | 'previousPrice' | 'currency' | 'location' | 'listingUrl'>
+): EmailListing {
+    return {
+        title: listing.title,
+        price: listing.price,
+        previousPrice: listing.previousPrice,
+        currency: listing.currency,
+        location: listing.location,
+        url: listing.listingUrl,
+    };
+}
+
+/**
+ * Language of a user's emails; unknown values fall back to Polish
+ */
+export function toEmailLanguage(language: string): EmailLanguage {
+    return (EMAIL_LANGUAGES as readonly string[]).includes(language) ? language as EmailLanguage : 'pl';
+}
+
+/**
+ * Subject, HTML and plain-text body of an email
+ */
+export function renderEmail(content: EmailContent, language: EmailLanguage): Omit<EmailMessage, 'to'> {
+    const t = STRINGS[language];
+
+    switch (content.template) {
+        case 'new_listing':
+            return {
+                subject: t.newListingSubject(content.listing.title),
+                html: layout(t, t.newListingHeading, listingHtml(t, content.listing)),
+                text: textLayout(t, t.newListingHeading, listingText(t, content.listing)),
+            };
+
+        case 'price_drop':
+            return {
+                subject: t.priceDropSubject(content.listing.title),
+                html: layout(t, t.priceDropHeading, listingHtml(t, content.listing)),
+                text: textLayout(t, t.priceDropHeading, listingText(t, content.listing)),
+            };
+
+        case 'daily_report': {
+            const { report } = content;
+            const since = new Date(report.since).toLocaleString(t.locale, {
+                dateStyle: 'medium',
+                timeStyle: 'short',
+                timeZone: config.schedule.timezone,
+            });
+            const sections = [
+                { heading: t.newListings, listings: report.newListings, total: report.newListingsTotal },
+                { heading: t.priceDrops, listings: report.priceDrops, total: report.priceDropsTotal },
+            ].filter(section => section.total > 0);
+
+            return {
+                subject: t.reportSubject(report.newListingsTotal, report.priceDropsTotal),
+                html: layout(t, t.reportHeading, [
+                    `<p style="margin:0 0 16px;color:#52525b">${escapeHtml(t.reportPeriod(since))}</p>`,
+                    ...sections.map(section => `
+                        <h2 style="font-size:16px;margin:16px 0 8px">${escapeHtml(section.heading)} (${section.total})</h2>
+                        <ul style="margin:0;padding-left:20px">
+                            ${section.listings.map(listing => `
+                                <li style="margin-bottom:6px">
+                                    <a href="${escapeHtml(safeUrl(listing.url))}" style="color:#2563eb">${escapeHtml(listing.title)}</a>
+                                    – ${priceHtml(t, listing)}
+                                </li>`).join('')}
+                        </ul>
+                        ${section.total > section.listings.length
+                            ? `<p style="margin:8px 0 0;color:#52525b">${escapeHtml(t.more(section.total - section.listings.length))}</p>`
+                            : ''}`),
+                ].join('\n')),
+                text: textLayout(t, t.reportHeading, [
+                    t.reportPeriod(since),
+                    ...sections.map(section => [
+                        `${section.heading} (${section.total})`,
+                        ...section.listings.map(listing => `- ${listing.title} – ${priceText(t, listing)}\n  ${listing.url}`),
+                        ...(section.total > section.listings.length ? [t.more(section.total - section.listings.length)] : []),
+                    ].join('\n')),
+                ].join('\n\n')),
+            };
+        }
+    }
+}
+
+function layout(t: EmailStrings, heading: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="${t.locale.slice(0, 2)}">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(heading)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+        <h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(heading)}</h1>
+        ${body}
+        <p style="margin:24px 0 0;font-size:12px;color:#71717a">
+            ${escapeHtml(t.footer)}
+            <a href="${escapeHtml(settingsUrl())}" style="color:#71717a">${escapeHtml(t.settings)}</a>
+        </p>
+    </div>
+</body>
+</html>`;
+}
+
+function textLayout(t: EmailStrings, heading: string, body: string): string {
+    return `${heading}\n\n${body}\n\n--\n${t.footer}\n${t.settings}: ${settingsUrl()}\n`;
+}
+
+function listingHtml(t: EmailStrings, listing: EmailListing): string {
+    return `
+        <p style="font-size:16px;font-weight:bold;margin:0 0 8px">${escapeHtml(listing.title)}</p>
+        <p style="margin:0 0 4px">${escapeHtml(t.price)}: <strong>${escapeHtml(formatPrice(t, listing.price, listing.currency))}</strong></p>
+        ${listing.previousPrice != null
+            ? `<p style="margin:0 0 4px">${escapeHtml(t.previousPrice)}: <s>${escapeHtml(formatPrice(t, listing.previousPrice, listing.currency))}</s></p>`
+            : ''}
+        ${listing.location ? `<p style="margin:0 0 4px">${escapeHtml(t.location)}: ${escapeHtml(listing.location)}</p>` : ''}
+        <p style="margin:16px 0 0">
+            <a href="${escapeHtml(safeUrl(listing.url))}"
+               style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;padding:10px 16px;border-radius:6px">
+                ${escapeHtml(t.viewListing)}
+            </a>
+        </p>`;
+}
+
+function listingText(t: EmailStrings, listing: EmailListing): string {
+    return [
+        listing.title,
+        `${t.price}: ${formatPrice(t, listing.price, listing.currency)}`,
+        ...(listing.previousPrice != null ? [`${t.previousPrice}: ${formatPrice(t, listing.previousPrice, listing.currency)}`] : []),
+        ...(listing.location ? [`${t.location}: ${listing.location}`] : []),
+        '',
+        `${t.viewListing}: ${listing.url}`,
+    ].join('\n');
+}
+
+// Price for report lists, with the previous one struck through for price drops
+function priceHtml(t: EmailStrings, listing: EmailListing): string {
+    const price = `<strong>${escapeHtml(formatPrice(t, listing.price, listing.currency))}</strong>`;
+    return listing.previousPrice != null
+        ? `<s style="color:#71717a">${escapeHtml(formatPrice(t, listing.previousPrice, listing.currency))}</s> ${price}`
+        : price;
+}
+
+function priceText(t: EmailStrings, listing: EmailListing): string {
+    const price = formatPrice(t, listing.price, listing.currency);
+    return listing.previousPrice != null
+        ? `${formatPrice(t, listing.previousPrice, listing.currency)} → ${price}`
+        : price;
+}
+
+function formatPrice(t: EmailStrings, price: number | null, currency: string): string {
+    if (price === null) return t.noPrice;
+
+    try {
+        return new Intl.NumberFormat(t.locale, { style: 'currency', currency, maximumFractionDigits: 0 }).format(price);
+    } catch {
+        // Not an ISO currency code
+        return `${price} ${currency}`;
+    }
+}
+
+function settingsUrl(): string {
+    return `${config.server.frontendUrl}/settings`;
+}
+
+// Scraped URLs end up in links; anything but http(s) is dropped
+function safeUrl(url: string): string {
+    return /^https?:\/\//i.test(url) ? url : '#';
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
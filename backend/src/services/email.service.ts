@@ -0,0 +1,43 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+}
+
+/**
+ * Email over SMTP (SMTP_* variables); disabled when SMTP_HOST isn't set
+ */
+class EmailService {
+    private readonly transporter: Transporter | null = config.email.host
+        ? nodemailer.createTransport({
+            host: config.email.host,
+            port: config.email.port,
+            secure: config.email.secure,
+            auth: config.email.user ? { user: config.email.user, pass: config.email.password } : undefined,
+        })
+        : null;
+
+    get isEnabled(): boolean {
+        return this.transporter !== null;
+    }
+
+    /**
+     * @returns the SMTP message ID
+     */
+    async send(message: EmailMessage): Promise<string> {
+        if (!this.transporter) {
+            throw new Error('Email is not configured (SMTP_HOST)');
+        }
+
+        const info = await this.transporter.sendMail({ from: config.email.from, ...message });
+        logger.debug(`Sent email ${info.messageId} to ${message.to}`);
+        return info.messageId;
+    }
+}
+
+export const emailService = new EmailService();
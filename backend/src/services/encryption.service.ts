@@ -4,29 +4,60 @@ import { config } from '../config/index.js';
 const ALGORITHM = 'aes-256-gcm';
 const AUTH_TAG_LENGTH = 16;
 
+// Envelope layout: version (1 byte) | keyId length (1 byte) | keyId | IV length (1 byte) | IV | auth tag | ciphertext
+const ENVELOPE_VERSION = 1;
+
 export interface EncryptedData {
     encrypted: Buffer;
     iv: Buffer;
     authTag: Buffer;
 }
 
+export class EnvelopeKeyError extends Error {
+    constructor(keyId: string) {
+        super(`Encryption key "${keyId}" is not configured`);
+        this.name = 'EnvelopeKeyError';
+    }
+}
+
 class EncryptionService {
-    private key: Buffer;
+    // Oldest first; the last key encrypts
+    private keys: Map<string, Buffer>;
+    private currentKeyId: string;
 
     constructor() {
-        this.key = Buffer.from(config.encryption.key, 'utf8');
+        this.keys = new Map();
+
+        for (const { id, key } of config.encryption.keys) {
+            const buffer = Buffer.from(key, 'utf8');
+
+            if (buffer.length !== 32) {
+                throw new Error(`Encryption key "${id}" must be exactly 32 characters`);
+            }
+
+            this.keys.set(id, buffer);
+        }
 
-        if (this.key.length !== 32) {
-            throw new Error('Encryption key must be exactly 32 characters');
+        if (this.keys.size === 0) {
+            throw new Error('No encryption keys configured');
         }
+
+        this.currentKeyId = [...this.keys.keys()].pop()!;
+    }
+
+    /**
+     * ID of the key new data is encrypted with
+     */
+    getCurrentKeyId(): string {
+        return this.currentKeyId;
     }
 
     /**
-     * Encrypt a string using AES-256-GCM
+     * Encrypt a string using AES-256-GCM with the current key
      */
     encrypt(plaintext: string): EncryptedData {
         const iv = crypto.randomBytes(config.encryption.ivLength);
-        const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+        const cipher = crypto.createCipheriv(ALGORITHM, this.getKey(this.currentKeyId), iv);
 
         const encrypted = Buffer.concat([
             cipher.update(plaintext, 'utf8'),
@@ -40,20 +71,62 @@ class EncryptionService {
 
     /**
      * Decrypt data encrypted with encrypt()
+     * The data doesn't record its key, so every configured key is tried, newest first.
      */
     decrypt(encrypted: Buffer, iv: Buffer, authTag?: Buffer): string {
-        const decipher = crypto.createDecipheriv(ALGORITHM, this.key, iv);
-
-        if (authTag) {
-            decipher.setAuthTag(authTag);
+        const keyIds = [...this.keys.keys()].reverse();
+        let lastError: unknown;
+
+        for (const keyId of keyIds) {
+            try {
+                return this.decryptWithKey(this.getKey(keyId), encrypted, iv, authTag);
+            } catch (error) {
+                lastError = error;
+            }
         }
 
-        const decrypted = Buffer.concat([
-            decipher.update(encrypted),
-            decipher.final(),
+        throw lastError;
+    }
+
+    /**
+     * Encrypt a string into a self-describing envelope (version, key ID, IV, auth tag, ciphertext)
+     * Use for secrets stored in a single column.
+     */
+    encryptEnvelope(plaintext: string): Buffer {
+        const { encrypted, iv, authTag } = this.encrypt(plaintext);
+        const keyId = Buffer.from(this.currentKeyId, 'utf8');
+
+        return Buffer.concat([
+            Buffer.from([ENVELOPE_VERSION, keyId.length]),
+            keyId,
+            Buffer.from([iv.length]),
+            iv,
+            authTag,
+            encrypted,
         ]);
+    }
 
-        return decrypted.toString('utf8');
+    /**
+     * Decrypt an envelope created by encryptEnvelope()
+     * @throws EnvelopeKeyError when the envelope's key is no longer configured
+     */
+    decryptEnvelope(envelope: Buffer): string {
+        const { keyId, iv, authTag, encrypted } = this.parseEnvelope(envelope);
+        return this.decryptWithKey(this.getKey(keyId), encrypted, iv, authTag);
+    }
+
+    /**
+     * Key ID an envelope was encrypted with
+     */
+    getEnvelopeKeyId(envelope: Buffer): string {
+        return this.parseEnvelope(envelope).keyId;
+    }
+
+    /**
+     * Whether an envelope should be re-encrypted with the current key
+     */
+    needsReencryption(envelope: Buffer): boolean {
+        return this.getEnvelopeKeyId(envelope) !== this.currentKeyId;
     }
 
     /**
@@ -109,6 +182,53 @@ class EncryptionService {
         return this.hash(normalized, 'sha256');
     }
 
+    private parseEnvelope(envelope: Buffer): { keyId: string; iv: Buffer; authTag: Buffer; encrypted: Buffer } {
+        if (envelope.length < 3 || envelope[0] !== ENVELOPE_VERSION) {
+            throw new Error(`Unsupported encryption envelope version: ${envelope[0]}`);
+        }
+
+        let offset = 1;
+        const keyIdLength = envelope[offset++];
+        const keyId = envelope.subarray(offset, offset + keyIdLength).toString('utf8');
+        offset += keyIdLength;
+
+        const ivLength = envelope[offset++];
+        const iv = envelope.subarray(offset, offset + ivLength);
+        offset += ivLength;
+
+        const authTag = envelope.subarray(offset, offset + AUTH_TAG_LENGTH);
+        const encrypted = envelope.subarray(offset + AUTH_TAG_LENGTH);
+
+        if (authTag.length !== AUTH_TAG_LENGTH) {
+            throw new Error('Truncated encryption envelope');
+        }
+
+        return { keyId, iv, authTag, encrypted };
+    }
+
+    private getKey(keyId: string): Buffer {
+        const key = this.keys.get(keyId);
+        if (!key) {
+            throw new EnvelopeKeyError(keyId);
+        }
+        return key;
+    }
+
+    private decryptWithKey(key: Buffer, encrypted: Buffer, iv: Buffer, authTag?: Buffer): string {
+        const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+
+        if (authTag) {
+            decipher.setAuthTag(authTag);
+        }
+
+        const decrypted = Buffer.concat([
+            decipher.update(encrypted),
+            decipher.final(),
+        ]);
+
+        return decrypted.toString('utf8');
+    }
+
     /**
      * Generate a random token (for refresh tokens, verification codes, etc.)
      */
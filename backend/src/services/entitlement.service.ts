@@ -0,0 +1,198 @@
+import type { SubscriptionPlan } from '@prisma/client';
+import { prisma } from '../config/index.js';
+import { PlanLimitExceededError } from '../utils/errors.js';
+import { schedulingService } from './scheduling.service.js';
+
+// Plan fields a user can be limited by; 0 means unlimited for the numeric ones
+const LIMIT_FIELDS = [
+    'maxServices',
+    'maxCustomServices',
+    'maxSearchConfigs',
+    'dailySearchMinutes',
+    'maxNotificationsDay',
+    'canAddCustomService',
+    'hasBonusService',
+    'hasEmailReports',
+    'hasPrioritySupport',
+] as const;
+
+type PlanLimits = Pick<SubscriptionPlan, typeof LIMIT_FIELDS[number]>;
+
+/**
+ * Limits in effect for a user
+ */
+export interface Entitlements extends PlanLimits {
+    // Plan the limits come from; null when the user has none and no FREE plan exists
+    plan: Pick<SubscriptionPlan, 'id' | 'name' | 'displayName'> | null;
+    // Services the user may use; empty = all
+    allowedServiceIds: string[];
+}
+
+export type LimitedAction = 'add-service' | 'add-search' | 'add-custom-service' | 'use-service' | 'run-search';
+
+export interface ActionCheck {
+    allowed: boolean;
+    // User-facing reason when not allowed
+    reason: string | null;
+    // Limit that was hit (an Entitlements field)
+    limit: keyof Entitlements | null;
+}
+
+// Used when no FREE plan is seeded; mirror the SubscriptionPlan column defaults
+const DEFAULT_LIMITS: PlanLimits = {
+    maxServices: 1,
+    maxCustomServices: 0,
+    maxSearchConfigs: 1,
+    dailySearchMinutes: 120,
+    maxNotificationsDay: 2,
+    canAddCustomService: false,
+    hasBonusService: false,
+    hasEmailReports: false,
+    hasPrioritySupport: false,
+};
+
+const DEFAULT_PLAN_NAME = 'FREE';
+
+const ALLOWED: ActionCheck = { allowed: true, reason: null, limit: null };
+
+/**
+ * Resolves what a user may do
+ * Each limit comes from the first of: the user's custom override (set by an admin), the plan of
+ * their active subscription, the plan assigned to the user, the FREE plan, built-in defaults.
+ */
+class EntitlementService {
+    async getEntitlements(userId: string): Promise<Entitlements> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            include: {
+                plan: true,
+                subscriptions: {
+                    where: { status: { in: ['ACTIVE', 'PAST_DUE'] } },
+                    orderBy: { createdAt: 'desc' },
+                    take: 1,
+                    include: { plan: true },
+                },
+            },
+        });
+
+        const plan = user?.subscriptions[0]?.plan
+            ?? user?.plan
+            ?? await prisma.subscriptionPlan.findUnique({ where: { name: DEFAULT_PLAN_NAME } });
+
+        const limits = plan
+            ? Object.fromEntries(LIMIT_FIELDS.map(field => [field, plan[field]])) as PlanLimits
+            : DEFAULT_LIMITS;
+
+        return {
+            ...limits,
+            maxServices: user?.customMaxServices ?? limits.maxServices,
+            maxSearchConfigs: user?.customMaxSearchConfigs ?? limits.maxSearchConfigs,
+            maxNotificationsDay: user?.customMaxNotificationsDay ?? limits.maxNotificationsDay,
+            dailySearchMinutes: user?.customDailySearchMinutes ?? limits.dailySearchMinutes,
+            canAddCustomService: user?.canAddCustomService ?? limits.canAddCustomService,
+            plan: plan ? { id: plan.id, name: plan.name, displayName: plan.displayName } : null,
+            allowedServiceIds: user?.allowedServiceIds ?? [],
+        };
+    }
+
+    /**
+     * Whether the user may perform an action
+     * @param serviceId service the action is about (required for all but 'add-custom-service'; without it
+     * 'run-search' only checks the daily search time)
+     * @param entitlements the user's entitlements when already loaded
+     */
+    async check(
+        userId: string,
+        action: LimitedAction,
+        serviceId?: string,
+        entitlements?: Entitlements
+    ): Promise<ActionCheck> {
+        entitlements ??= await this.getEntitlements(userId);
+        const planName = entitlements.plan?.displayName ?? DEFAULT_PLAN_NAME;
+
+        if (serviceId && !this.isServiceAllowed(entitlements, serviceId)) {
+            return {
+                allowed: false,
+                reason: 'Ten serwis nie jest dostępny dla Twojego konta',
+                limit: 'allowedServiceIds',
+            };
+        }
+
+        switch (action) {
+            case 'add-service': {
+                const count = await prisma.userService.count({ where: { userId, isActive: true } });
+                if (isExceeded(entitlements.maxServices, count)) {
+                    return {
+                        allowed: false,
+                        reason: `Osiągnięto limit ${entitlements.maxServices} serwisów w planie ${planName}`,
+                        limit: 'maxServices',
+                    };
+                }
+                return ALLOWED;
+            }
+
+            case 'add-search': {
+                const count = await prisma.searchConfig.count({ where: { userId, isActive: true } });
+                if (isExceeded(entitlements.maxSearchConfigs, count)) {
+                    return {
+                        allowed: false,
+                        reason: `Osiągnięto limit ${entitlements.maxSearchConfigs} wyszukiwań w planie ${planName}`,
+                        limit: 'maxSearchConfigs',
+                    };
+                }
+                return ALLOWED;
+            }
+
+            case 'add-custom-service':
+                if (!entitlements.canAddCustomService) {
+                    return {
+                        allowed: false,
+                        reason: 'Dodawanie własnych serwisów dostępne tylko w planie Premium',
+                        limit: 'canAddCustomService',
+                    };
+                }
+                return ALLOWED;
+
+            case 'use-service':
+                return ALLOWED;
+
+            case 'run-search': {
+                const usage = await prisma.dailyUsage.findUnique({
+                    where: { userId_date: { userId, date: schedulingService.getLocalDay() } },
+                    select: { searchMinutesUsed: true },
+                });
+                if (isExceeded(entitlements.dailySearchMinutes, usage?.searchMinutesUsed ?? 0)) {
+                    return {
+                        allowed: false,
+                        reason: `Wykorzystano dzienny limit ${entitlements.dailySearchMinutes} minut wyszukiwania w planie ${planName}`,
+                        limit: 'dailySearchMinutes',
+                    };
+                }
+                return ALLOWED;
+            }
+        }
+    }
+
+    /**
+     * Throws PlanLimitExceededError when the user may not perform the action
+     */
+    async assert(userId: string, action: LimitedAction, serviceId?: string): Promise<void> {
+        const result = await this.check(userId, action, serviceId);
+        if (!result.allowed) {
+            throw new PlanLimitExceededError(result.reason!, result.limit!);
+        }
+    }
+
+    isServiceAllowed(entitlements: Pick<Entitlements, 'allowedServiceIds'>, serviceId: string): boolean {
+        return entitlements.allowedServiceIds.length === 0 || entitlements.allowedServiceIds.includes(serviceId);
+    }
+}
+
+/**
+ * Whether adding one more item goes over a limit (0 = unlimited)
+ */
+function isExceeded(limit: number, count: number): boolean {
+    return limit > 0 && count >= limit;
+}
+
+export const entitlementService = new EntitlementService();
@@ -1,2 +1,21 @@
 export { authService } from './auth.service.js';
 export { encryptionService } from './encryption.service.js';
+export { browserProfileService, type BrowserProfileScope } from './browser-profile.service.js';
+export { credentialsService, CredentialsDecryptError, type DecryptedCredentials } from './credentials.service.js';
+export { listingClusterService, titleSimilarity, type ClusterSibling } from './listing-cluster.service.js';
+export { schedulingService, SCHEDULE_FIELDS, type ScheduleSettings, type ScheduleInfo } from './scheduling.service.js';
+export { blobStore, type BlobStore } from './blob-store.service.js';
+export { searchRunService, SEARCH_RUN_SUMMARY_SELECT, type SearchRunStats, type SearchRunDiagnostics } from './search-run.service.js';
+export { entitlementService, type Entitlements, type LimitedAction, type ActionCheck } from './entitlement.service.js';
+export { pushService, StubPushProvider, type PushProvider, type PushMessage, type PushTicket, type PushReceipt } from './push.service.js';
+export { emailService, type EmailMessage } from './email.service.js';
+export {
+    renderEmail,
+    toEmailLanguage,
+    toEmailListing,
+    type EmailLanguage,
+    type EmailListing,
+    type EmailContent,
+    type DailyReport,
+} from './email-templates.js';
+export { usageService, type SearchTimeUsage, type NotificationQuotaChannel } from './usage.service.js';
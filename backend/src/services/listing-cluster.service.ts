@@ -0,0 +1,259 @@
+import type { Listing } from '@prisma/client';
+import { prisma } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+// Only listings detected this recently are considered duplicates of a new one
+const CANDIDATE_WINDOW_DAYS = 30;
+const MAX_CANDIDATES = 200;
+// Same phone number: the price may differ more between services (e.g. negotiable vs final price)
+const PHONE_PRICE_TOLERANCE = 0.15;
+const TITLE_PRICE_TOLERANCE = 0.05;
+const TITLE_SIMILARITY_THRESHOLD = 0.7;
+// Mileage read from different pages may be rounded differently
+const MILEAGE_TOLERANCE_KM = 5000;
+
+type ClusterListing = Pick<
+    Listing,
+    'id' | 'serviceId' | 'title' | 'price' | 'semanticHash' | 'normalizedPhone' | 'clusterId' | 'year' | 'mileage'
+>;
+
+export interface ClusterSibling {
+    id: string;
+    clusterId: string;
+    listingUrl: string;
+    price: number | null;
+    currency: string;
+    service: { id: string; name: string };
+}
+
+const CLUSTER_LISTING_SELECT = {
+    id: true,
+    serviceId: true,
+    title: true,
+    price: true,
+    semanticHash: true,
+    normalizedPhone: true,
+    clusterId: true,
+    year: true,
+    mileage: true,
+} as const;
+
+/**
+ * Groups listings of the same car on different services
+ * Only listings found by searches of the same users are compared.
+ *
+ * Two listings are duplicates when their vehicle data doesn't conflict and either:
+ * - their semantic hashes (title + price + phone) are equal,
+ * - they have the same seller phone and a close price, or
+ * - their titles are similar and the prices almost equal.
+ */
+class ListingClusterService {
+    /**
+     * Put a listing into the cluster of a matching listing on another service
+     * Clusters of both listings are merged when they were clustered separately before.
+     * @returns the listing's cluster ID, or null when it has no duplicates
+     */
+    async assign(listingId: string): Promise<string | null> {
+        const listing = await prisma.listing.findUnique({
+            where: { id: listingId },
+            select: {
+                ...CLUSTER_LISTING_SELECT,
+                matches: { select: { searchConfig: { select: { userId: true } } } },
+            },
+        });
+
+        if (!listing) return null;
+
+        const userIds = [...new Set(listing.matches.map(m => m.searchConfig.userId))];
+        const match = await this.findDuplicate(listing, userIds);
+        if (!match) return listing.clusterId;
+
+        if (listing.clusterId && match.clusterId && listing.clusterId !== match.clusterId) {
+            return this.merge(match.clusterId, listing.clusterId);
+        }
+
+        const clusterId = match.clusterId
+            ?? listing.clusterId
+            ?? (await prisma.listingCluster.create({ data: {} })).id;
+
+        await prisma.listing.updateMany({
+            where: { id: { in: [listing.id, match.id] } },
+            data: { clusterId },
+        });
+
+        logger.debug(`Listing ${listing.id} is a duplicate of ${match.id} (cluster ${clusterId})`);
+        return clusterId;
+    }
+
+    /**
+     * Listings in the same clusters as the given ones, keyed by cluster ID
+     */
+    async getSiblings(listings: Pick<Listing, 'id' | 'clusterId'>[], userId: string): Promise<Map<string, ClusterSibling[]>> {
+        const clusterIds = [...new Set(listings.map(l => l.clusterId).filter((id): id is string => !!id))];
+        const siblings = new Map<string, ClusterSibling[]>();
+
+        if (clusterIds.length === 0) return siblings;
+
+        const members = await prisma.listing.findMany({
+            where: { clusterId: { in: clusterIds }, matches: { some: { searchConfig: { userId } } } },
+            select: {
+                id: true,
+                clusterId: true,
+                listingUrl: true,
+                price: true,
+                currency: true,
+                service: { select: { id: true, name: true } },
+            },
+            orderBy: { detectedAt: 'asc' },
+        });
+
+        for (const member of members) {
+            const list = siblings.get(member.clusterId!) ?? [];
+            list.push(member as ClusterSibling);
+            siblings.set(member.clusterId!, list);
+        }
+
+        return siblings;
+    }
+
+    /**
+     * Whether another listing in the listing's cluster was already notified to the user
+     */
+    async isClusterNotified(userId: string, listingId: string): Promise<boolean> {
+        const listing = await prisma.listing.findUnique({
+            where: { id: listingId },
+            select: { clusterId: true },
+        });
+
+        if (!listing?.clusterId) return false;
+
+        const notified = await prisma.notification.count({
+            where: {
+                userId,
+                listingId: { not: listingId },
+                listing: { clusterId: listing.clusterId },
+            },
+        });
+
+        return notified > 0;
+    }
+
+    /**
+     * Digits of a phone number without the Polish country code, or null when too short to compare
+     */
+    normalizePhone(phone: string | null | undefined): string | null {
+        if (!phone) return null;
+
+        let digits = phone.replace(/\D/g, '').replace(/^00/, '');
+        if (digits.length === 11 && digits.startsWith('48')) {
+            digits = digits.slice(2);
+        }
+
+        return digits.length >= 9 ? digits : null;
+    }
+
+    private async findDuplicate(listing: ClusterListing, userIds: string[]): Promise<ClusterListing | null> {
+        if (userIds.length === 0) return null;
+
+        const since = new Date(Date.now() - CANDIDATE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        const priceRange = listing.price
+            ? {
+                gte: Math.floor(listing.price * (1 - PHONE_PRICE_TOLERANCE)),
+                lte: Math.ceil(listing.price * (1 + PHONE_PRICE_TOLERANCE)),
+            }
+            : null;
+
+        const candidates = await prisma.listing.findMany({
+            where: {
+                id: { not: listing.id },
+                serviceId: { not: listing.serviceId },
+                matches: { some: { searchConfig: { userId: { in: userIds } } } },
+                detectedAt: { gte: since },
+                OR: [
+                    ...(listing.semanticHash ? [{ semanticHash: listing.semanticHash }] : []),
+                    ...(listing.normalizedPhone ? [{ normalizedPhone: listing.normalizedPhone }] : []),
+                    ...(priceRange ? [{ price: priceRange }] : []),
+                ],
+            },
+            select: CLUSTER_LISTING_SELECT,
+            orderBy: { detectedAt: 'desc' },
+            take: MAX_CANDIDATES,
+        });
+
+        return candidates.find(candidate => this.isDuplicate(listing, candidate)) ?? null;
+    }
+
+    private isDuplicate(a: ClusterListing, b: ClusterListing): boolean {
+        if (a.year && b.year && a.year !== b.year) return false;
+        if (a.mileage && b.mileage && Math.abs(a.mileage - b.mileage) > MILEAGE_TOLERANCE_KM) return false;
+
+        if (a.semanticHash && a.semanticHash === b.semanticHash) return true;
+
+        if (a.normalizedPhone && a.normalizedPhone === b.normalizedPhone) {
+            return isPriceClose(a.price, b.price, PHONE_PRICE_TOLERANCE);
+        }
+
+        return isPriceClose(a.price, b.price, TITLE_PRICE_TOLERANCE)
+            && titleSimilarity(a.title, b.title) >= TITLE_SIMILARITY_THRESHOLD;
+    }
+
+    private async merge(targetClusterId: string, sourceClusterId: string): Promise<string> {
+        await prisma.$transaction([
+            prisma.listing.updateMany({
+                where: { clusterId: sourceClusterId },
+                data: { clusterId: targetClusterId },
+            }),
+            prisma.listingCluster.delete({ where: { id: sourceClusterId } }),
+        ]);
+
+        logger.debug(`Merged listing cluster ${sourceClusterId} into ${targetClusterId}`);
+        return targetClusterId;
+    }
+}
+
+function isPriceClose(a: number | null, b: number | null, tolerance: number): boolean {
+    if (!a || !b) return false;
+    return Math.abs(a - b) / Math.max(a, b) <= tolerance;
+}
+
+/**
+ * Dice coefficient of the character bigrams of two titles (0..1), ignoring case, diacritics and punctuation
+ */
+export function titleSimilarity(a: string, b: string): number {
+    const bigramsA = bigrams(a);
+    const bigramsB = bigrams(b);
+    const total = bigramsA.length + bigramsB.length;
+
+    if (total === 0) return 0;
+
+    const counts = new Map<string, number>();
+    bigramsA.forEach(bigram => counts.set(bigram, (counts.get(bigram) ?? 0) + 1));
+
+    let shared = 0;
+    for (const bigram of bigramsB) {
+        const count = counts.get(bigram) ?? 0;
+        if (count > 0) {
+            shared++;
+            counts.set(bigram, count - 1);
+        }
+    }
+
+    return (2 * shared) / total;
+}
+
+function bigrams(title: string): string[] {
+    const words = title
+        .toLowerCase()
+        .replace(/ł/g, 'l')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean);
+
+    return words.flatMap(word => {
+        if (word.length < 2) return [word];
+        return Array.from({ length: word.length - 1 }, (_, i) => word.slice(i, i + 2));
+    });
+}
+
+export const listingClusterService = new ListingClusterService();
@@ -0,0 +1,141 @@
+import type { MobileDevice } from '@prisma/client';
+import { fakeDatabase } from '../test/fake-prisma.js';
+import { pushService, StubPushProvider, type PushMessage } from './push.service.js';
+
+// Notification rows and devices live in the in-memory fake; Expo and FCM are configured so both providers are created
+jest.mock('../config/index.js', () => ({
+    prisma: require('../test/fake-prisma.js').fakeDatabase.prisma,
+    config: {
+        push: { provider: 'auto', expoAccessToken: undefined },
+        firebase: { projectId: 'sprintsale', clientEmail: 'push@sprintsale.iam', privateKey: 'key' },
+    },
+}));
+
+/**
+ * Empty notification table and the given devices
+ */
+function seedDatabase(devices: MobileDevice[]) {
+    fakeDatabase.reset({
+        notification: { defaults: { externalId: null, error: null } },
+        mobileDevice: {},
+    });
+    fakeDatabase.seed('mobileDevice', devices);
+}
+
+function device(id: string, deviceToken: string): MobileDevice {
+    return {
+        id,
+        userId: 'user-1',
+        deviceToken,
+        platform: 'ANDROID',
+        deviceName: null,
+        isActive: true,
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01'),
+    };
+}
+
+const message: PushMessage = {
+    notification: { title: 'Nowe ogłoszenie', body: 'VW Golf - 30000 PLN' },
+    data: { type: 'new_listing', listingId: 'listing-1' },
+};
+
+const EXPO_TOKEN = 'ExponentPushToken[xxxxxxxxxxxxxxxxxxxxxx]';
+const FCM_TOKEN = 'fcm-registration-token:APA91bH';
+
+describe('pushService', () => {
+    let stub: StubPushProvider;
+
+    beforeEach(() => {
+        stub = new StubPushProvider();
+        jest.useFakeTimers({ now: new Date('2024-06-01T10:00:00Z') });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('sends Expo tokens through Expo and other tokens through FCM', async () => {
+        seedDatabase([]);
+        const [expo, fcm] = pushService.providers;
+        const expoStub = new StubPushProvider();
+        const fcmStub = new StubPushProvider();
+        jest.spyOn(expo, 'send').mockImplementation((tokens, pushMessage) => expoStub.send(tokens, pushMessage));
+        jest.spyOn(fcm, 'send').mockImplementation((tokens, pushMessage) => fcmStub.send(tokens, pushMessage));
+
+        await pushService.send('user-1', [
+            device('phone', EXPO_TOKEN),
+            device('tablet', FCM_TOKEN),
+            device('old-phone', 'ExpoPushToken[yyyyyyyyyyyyyyyyyyyyyy]'),
+        ], message);
+
+        expect(pushService.providers.map(provider => provider.name)).toEqual(['expo', 'fcm']);
+        expect(expoStub.sent.map(({ token }) => token)).toEqual([EXPO_TOKEN, 'ExpoPushToken[yyyyyyyyyyyyyyyyyyyyyy]']);
+        expect(fcmStub.sent.map(({ token }) => token)).toEqual([FCM_TOKEN]);
+        expect(fakeDatabase.tables.notification.map(({ deviceId, provider }) => ({ deviceId, provider }))).toEqual([
+            { deviceId: 'phone', provider: 'expo' },
+            { deviceId: 'old-phone', provider: 'expo' },
+            { deviceId: 'tablet', provider: 'fcm' },
+        ]);
+    });
+
+    it('records one notification per device and deactivates devices with invalid tokens', async () => {
+        const devices = [device('phone', EXPO_TOKEN), device('tablet', FCM_TOKEN)];
+        seedDatabase(devices);
+        jest.replaceProperty(pushService, 'providers', [stub]);
+        stub.invalidTokens.add(FCM_TOKEN);
+
+        await pushService.send('user-1', devices, message);
+
+        expect(fakeDatabase.tables.notification).toEqual([
+            expect.objectContaining({
+                userId: 'user-1',
+                listingId: 'listing-1',
+                channel: 'PUSH',
+                status: 'SENT',
+                deviceId: 'phone',
+                provider: 'stub',
+                externalId: 'stub-1',
+                sentAt: new Date('2024-06-01T10:00:00Z'),
+                payload: { type: 'new_listing', listingId: 'listing-1', title: 'Nowe ogłoszenie', body: 'VW Golf - 30000 PLN' },
+            }),
+            expect.objectContaining({
+                channel: 'PUSH',
+                status: 'FAILED',
+                deviceId: 'tablet',
+                error: 'DeviceNotRegistered',
+                sentAt: null,
+            }),
+        ]);
+        expect(fakeDatabase.tables.mobileDevice.map(({ id, isActive }) => ({ id, isActive }))).toEqual([
+            { id: 'phone', isActive: true },
+            { id: 'tablet', isActive: false },
+        ]);
+    });
+
+    it('settles sent notifications from receipts', async () => {
+        const devices = [device('phone', EXPO_TOKEN), device('tablet', FCM_TOKEN)];
+        seedDatabase(devices);
+        jest.replaceProperty(pushService, 'providers', [stub]);
+
+        await pushService.send('user-1', devices, message);
+        // The tablet's app was uninstalled after the push was accepted
+        stub.invalidTokens.add(FCM_TOKEN);
+
+        // Receipts aren't asked for until 15 minutes after sending
+        expect(await pushService.checkReceipts()).toBe(0);
+
+        jest.setSystemTime(new Date('2024-06-01T10:20:00Z'));
+        expect(await pushService.checkReceipts()).toBe(2);
+
+        expect(fakeDatabase.tables.notification.map(({ deviceId, status, error }) => ({ deviceId, status, error }))).toEqual([
+            { deviceId: 'phone', status: 'DELIVERED', error: null },
+            { deviceId: 'tablet', status: 'FAILED', error: 'DeviceNotRegistered' },
+        ]);
+        expect(fakeDatabase.tables.mobileDevice.find(({ id }) => id === 'tablet')!.isActive).toBe(false);
+
+        // Settled notifications aren't checked again
+        expect(await pushService.checkReceipts()).toBe(0);
+    });
+});
@@ -0,0 +1,435 @@
+import type { MobileDevice } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import { prisma, config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface PushMessage {
+    notification: { title: string; body: string };
+    data: Record<string, string>;
+}
+
+/**
+ * Outcome of sending to one device
+ * SENT: accepted by the provider, final status comes with its receipt; DELIVERED: handed to APNs/FCM.
+ */
+export interface PushTicket {
+    status: 'SENT' | 'DELIVERED' | 'FAILED';
+    // Provider's ticket or message ID
+    id?: string;
+    error?: string;
+    // The token will never work again; its device is deactivated
+    invalidToken?: boolean;
+}
+
+export interface PushReceipt {
+    status: 'DELIVERED' | 'FAILED';
+    error?: string;
+    invalidToken?: boolean;
+}
+
+/**
+ * Push notification service for a kind of device token
+ */
+export interface PushProvider {
+    readonly name: string;
+    supports(token: string): boolean;
+    // One ticket per token, in the same order
+    send(tokens: string[], message: PushMessage): Promise<PushTicket[]>;
+    // For providers that confirm SENT tickets later; tickets without a receipt yet are left out
+    getReceipts?(ids: string[]): Promise<Map<string, PushReceipt>>;
+}
+
+const REQUEST_TIMEOUT = 10000;
+
+// Expo takes up to 100 messages and 1000 receipt IDs per request
+const EXPO_SEND_BATCH_SIZE = 100;
+const EXPO_RECEIPT_BATCH_SIZE = 1000;
+const EXPO_TOKEN_PATTERN = /^Expo(nent)?PushToken\[.+\]$/;
+
+// Expo keeps receipts for a day and most are ready within 15 minutes
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+const RECEIPT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Expo push service, for the tokens registered by the mobile app (ExponentPushToken[...])
+ */
+class ExpoPushProvider implements PushProvider {
+    readonly name = 'expo';
+
+    constructor(private readonly accessToken: string | undefined) { }
+
+    supports(token: string): boolean {
+        return EXPO_TOKEN_PATTERN.test(token);
+    }
+
+    async send(tokens: string[], message: PushMessage): Promise<PushTicket[]> {
+        const tickets: PushTicket[] = [];
+
+        for (let i = 0; i < tokens.length; i += EXPO_SEND_BATCH_SIZE) {
+            const { data } = await this.request<{ data: ExpoResult[] }>('send', tokens.slice(i, i + EXPO_SEND_BATCH_SIZE).map(to => ({
+                to,
+                title: message.notification.title,
+                body: message.notification.body,
+                data: message.data,
+                sound: 'default',
+                priority: 'high',
+            })));
+
+            tickets.push(...data.map(result => result.status === 'ok'
+                ? { status: 'SENT' as const, id: result.id }
+                : { status: 'FAILED' as const, ...this.describeError(result) }
+            ));
+        }
+
+        return tickets;
+    }
+
+    async getReceipts(ids: string[]): Promise<Map<string, PushReceipt>> {
+        const receipts = new Map<string, PushReceipt>();
+
+        for (let i = 0; i < ids.length; i += EXPO_RECEIPT_BATCH_SIZE) {
+            const { data } = await this.request<{ data: Record<string, ExpoResult> }>('getReceipts', {
+                ids: ids.slice(i, i + EXPO_RECEIPT_BATCH_SIZE),
+            });
+
+            for (const [id, result] of Object.entries(data)) {
+                receipts.set(id, result.status === 'ok'
+                    ? { status: 'DELIVERED' }
+                    : { status: 'FAILED', ...this.describeError(result) }
+                );
+            }
+        }
+
+        return receipts;
+    }
+
+    private describeError(result: ExpoResult): { error: string; invalidToken: boolean } {
+        const code = result.details?.error;
+        return {
+            error: code ? `${code}: ${result.message}` : result.message ?? 'Unknown error',
+            invalidToken: code === 'DeviceNotRegistered',
+        };
+    }
+
+    private async request<T>(path: string, body: unknown): Promise<T> {
+        const response = await fetch(`https://exp.host/--/api/v2/push/${path}`, {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json',
+                ...(this.accessToken && { 'Authorization': `Bearer ${this.accessToken}` }),
+            },
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Expo push request failed: ${response.status} ${await response.text()}`);
+        }
+
+        return response.json() as Promise<T>;
+    }
+}
+
+interface ExpoResult {
+    status: 'ok' | 'error';
+    id?: string;
+    message?: string;
+    details?: { error?: string };
+}
+
+const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+/**
+ * Firebase Cloud Messaging (HTTP v1 API), for native FCM registration tokens
+ * FCM has no receipts: a message it accepts is DELIVERED.
+ */
+class FcmPushProvider implements PushProvider {
+    readonly name = 'fcm';
+
+    private accessToken: { value: string; expiresAt: number } | null = null;
+
+    constructor(private readonly credentials: { projectId: string; clientEmail: string; privateKey: string }) { }
+
+    supports(token: string): boolean {
+        return !EXPO_TOKEN_PATTERN.test(token);
+    }
+
+    async send(tokens: string[], message: PushMessage): Promise<PushTicket[]> {
+        const accessToken = await this.getAccessToken();
+        const tickets: PushTicket[] = [];
+
+        for (const token of tokens) {
+            const response = await fetch(
+                `https://fcm.googleapis.com/v1/projects/${this.credentials.projectId}/messages:send`,
+                {
+                    method: 'POST',
+                    headers: {
+                        'Authorization': `Bearer ${accessToken}`,
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({
+                        message: {
+                            token,
+                            notification: message.notification,
+                            data: message.data,
+                            android: {
+                                priority: 'high',
+                                notification: {
+                                    sound: 'default',
+                                    click_action: 'OPEN_NOTIFICATION',
+                                },
+                            },
+                            apns: {
+                                payload: {
+                                    aps: {
+                                        sound: 'default',
+                                        badge: 1,
+                                    },
+                                },
+                            },
+                        },
+                    }),
+                    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+                }
+            );
+
+            if (response.ok) {
+                const { name } = await response.json() as { name: string };
+                tickets.push({ status: 'DELIVERED', id: name });
+                continue;
+            }
+
+            const { error } = await response.json().catch(() => ({})) as { error?: FcmError };
+            const errorCode = error?.details?.find(detail => detail.errorCode)?.errorCode ?? error?.status;
+            tickets.push({
+                status: 'FAILED',
+                error: `${errorCode ?? response.status}: ${error?.message ?? response.statusText}`,
+                invalidToken: errorCode === 'UNREGISTERED'
+                    || (errorCode === 'INVALID_ARGUMENT' && /registration token/i.test(error?.message ?? '')),
+            });
+        }
+
+        return tickets;
+    }
+
+    /**
+     * OAuth token of the service account, reused until shortly before it expires
+     */
+    private async getAccessToken(): Promise<string> {
+        if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60000) {
+            return this.accessToken.value;
+        }
+
+        const assertion = jwt.sign({ scope: FCM_SCOPE }, this.credentials.privateKey, {
+            algorithm: 'RS256',
+            issuer: this.credentials.clientEmail,
+            audience: GOOGLE_TOKEN_URL,
+            expiresIn: '1h',
+        });
+
+        const response = await fetch(GOOGLE_TOKEN_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+                assertion,
+            }),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+        });
+
+        if (!response.ok) {
+            throw new Error(`FCM authentication failed: ${response.status} ${await response.text()}`);
+        }
+
+        const { access_token, expires_in } = await response.json() as { access_token: string; expires_in: number };
+        this.accessToken = { value: access_token, expiresAt: Date.now() + expires_in * 1000 };
+        return access_token;
+    }
+}
+
+interface FcmError {
+    message?: string;
+    status?: string;
+    details?: { errorCode?: string }[];
+}
+
+/**
+ * Sends nothing: records messages in memory (PUSH_PROVIDER=stub, for development and tests)
+ * Tokens in invalidTokens fail as unregistered; every other message is SENT, then DELIVERED on receipt,
+ * or FAILED when its token was added to invalidTokens since.
+ */
+export class StubPushProvider implements PushProvider {
+    readonly name = 'stub';
+
+    readonly sent: { token: string; message: PushMessage }[] = [];
+    readonly invalidTokens = new Set<string>();
+
+    supports(): boolean {
+        return true;
+    }
+
+    async send(tokens: string[], message: PushMessage): Promise<PushTicket[]> {
+        logger.info(`Stub push to ${tokens.length} devices: ${message.notification.title}`);
+
+        return tokens.map(token => {
+            if (this.invalidTokens.has(token)) {
+                return { status: 'FAILED', error: 'DeviceNotRegistered', invalidToken: true };
+            }
+            this.sent.push({ token, message });
+            return { status: 'SENT', id: `stub-${this.sent.length}` };
+        });
+    }
+
+    async getReceipts(ids: string[]): Promise<Map<string, PushReceipt>> {
+        return new Map(ids.map(id => {
+            const token = this.sent[Number(id.replace('stub-', '')) - 1]?.token;
+            return [id, this.invalidTokens.has(token)
+                ? { status: 'FAILED', error: 'DeviceNotRegistered', invalidToken: true }
+                : { status: 'DELIVERED' }];
+        }));
+    }
+}
+
+function createProviders(): PushProvider[] {
+    if (config.push.provider === 'stub') {
+        return [new StubPushProvider()];
+    }
+
+    // The first provider supporting a token sends to it
+    const { projectId, clientEmail, privateKey } = config.firebase;
+    return [
+        new ExpoPushProvider(config.push.expoAccessToken),
+        ...(projectId && clientEmail && privateKey ? [new FcmPushProvider({ projectId, clientEmail, privateKey })] : []),
+    ];
+}
+
+/**
+ * Push delivery to mobile devices
+ * Each device gets a PUSH notification row tracking its status; devices whose token the provider
+ * rejects as invalid are deactivated.
+ */
+class PushService {
+    readonly providers = createProviders();
+
+    /**
+     * Push a message to a user's devices
+     * Provider errors are recorded on the notification rows, not thrown.
+     */
+    async send(userId: string, devices: MobileDevice[], message: PushMessage): Promise<void> {
+        const devicesByProvider = new Map<PushProvider, MobileDevice[]>();
+        for (const device of devices) {
+            const provider = this.providers.find(p => p.supports(device.deviceToken));
+            if (!provider) {
+                logger.debug(`No push provider configured for device ${device.id}`);
+                continue;
+            }
+            devicesByProvider.set(provider, [...(devicesByProvider.get(provider) ?? []), device]);
+        }
+
+        for (const [provider, providerDevices] of devicesByProvider) {
+            let tickets: PushTicket[];
+            try {
+                tickets = await provider.send(providerDevices.map(device => device.deviceToken), message);
+            } catch (error) {
+                logger.error(`Push via ${provider.name} failed for user ${userId}:`, error);
+                const reason = error instanceof Error ? error.message : String(error);
+                tickets = providerDevices.map(() => ({ status: 'FAILED', error: reason }));
+            }
+
+            const sentAt = new Date();
+            await prisma.notification.createMany({
+                data: providerDevices.map((device, index) => ({
+                    userId,
+                    listingId: message.data.listingId,
+                    channel: 'PUSH' as const,
+                    status: tickets[index].status,
+                    payload: { ...message.data, ...message.notification },
+                    deviceId: device.id,
+                    provider: provider.name,
+                    externalId: tickets[index].id,
+                    error: tickets[index].error,
+                    sentAt: tickets[index].status === 'FAILED' ? null : sentAt,
+                })),
+            });
+
+            await this.deactivateDevices(providerDevices.filter((_, index) => tickets[index].invalidToken).map(device => device.id));
+
+            const failed = tickets.filter(ticket => ticket.status === 'FAILED').length;
+            logger.info(`Sent push via ${provider.name}: ${tickets.length - failed}/${tickets.length} successful`);
+        }
+    }
+
+    /**
+     * Settle SENT push notifications from their providers' receipts
+     * Notifications without a receipt within a day stay SENT.
+     * @returns number of notifications updated
+     */
+    async checkReceipts(): Promise<number> {
+        const now = Date.now();
+        let updated = 0;
+
+        for (const provider of this.providers) {
+            if (!provider.getReceipts) continue;
+
+            const notifications = await prisma.notification.findMany({
+                where: {
+                    channel: 'PUSH',
+                    status: 'SENT',
+                    provider: provider.name,
+                    externalId: { not: null },
+                    sentAt: { gte: new Date(now - RECEIPT_MAX_AGE_MS), lte: new Date(now - RECEIPT_DELAY_MS) },
+                },
+                select: { id: true, deviceId: true, externalId: true },
+            });
+
+            if (notifications.length === 0) continue;
+
+            const receipts = await provider.getReceipts(notifications.map(n => n.externalId!));
+
+            const delivered = notifications.filter(n => receipts.get(n.externalId!)?.status === 'DELIVERED');
+            if (delivered.length > 0) {
+                await prisma.notification.updateMany({
+                    where: { id: { in: delivered.map(n => n.id) } },
+                    data: { status: 'DELIVERED' },
+                });
+            }
+
+            const failed = notifications.filter(n => receipts.get(n.externalId!)?.status === 'FAILED');
+            for (const notification of failed) {
+                await prisma.notification.update({
+                    where: { id: notification.id },
+                    data: { status: 'FAILED', error: receipts.get(notification.externalId!)!.error },
+                });
+            }
+
+            await this.deactivateDevices(
+                failed
+                    .filter(n => n.deviceId && receipts.get(n.externalId!)!.invalidToken)
+                    .map(n => n.deviceId!)
+            );
+
+            updated += delivered.length + failed.length;
+        }
+
+        if (updated > 0) {
+            logger.info(`Updated ${updated} push notifications from receipts`);
+        }
+
+        return updated;
+    }
+
+    private async deactivateDevices(deviceIds: string[]): Promise<void> {
+        if (deviceIds.length === 0) return;
+
+        await prisma.mobileDevice.updateMany({
+            where: { id: { in: deviceIds } },
+            data: { isActive: false },
+        });
+
+        logger.info(`Deactivated ${deviceIds.length} devices with invalid push tokens`);
+    }
+}
+
+export const pushService = new PushService();
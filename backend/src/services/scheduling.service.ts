@@ -0,0 +1,186 @@
+import type { SearchConfig } from '@prisma/client';
+import { config } from '../config/index.js';
+
+// Search config fields that decide when it runs
+export const SCHEDULE_FIELDS = ['intervalSeconds', 'randomRangeSeconds', 'quietHoursStart', 'quietHoursEnd', 'activeDays'] as const;
+
+export type ScheduleSettings = Pick<SearchConfig, typeof SCHEDULE_FIELDS[number]>;
+
+/**
+ * Schedule of a search config as reported by the API
+ */
+export interface ScheduleInfo {
+    timezone: string;
+    intervalSeconds: number;
+    randomRangeSeconds: number;
+    quietHours: { start: string; end: string } | null;
+    // ISO weekdays (1 = Monday); every day when empty
+    activeDays: number[];
+    // Whether searches may run right now
+    activeNow: boolean;
+    nextRunAt: Date | null;
+}
+
+interface LocalTime {
+    // ISO weekday, 1 = Monday
+    weekday: number;
+    minuteOfDay: number;
+    // Milliseconds since the start of the current minute
+    msIntoMinute: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Computes when searches run
+ * A run follows the previous one after intervalSeconds ± randomRangeSeconds. Runs falling into
+ * quiet hours or on an inactive weekday move to the start of the next allowed window, plus a
+ * random delay of up to randomRangeSeconds so searches don't all start at the same second.
+ * Windows are evaluated in config.schedule.timezone.
+ */
+class SchedulingService {
+    private readonly formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: config.schedule.timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hourCycle: 'h23',
+    });
+    // en-CA formats dates as YYYY-MM-DD
+    private readonly dayFormatter = new Intl.DateTimeFormat('en-CA', {
+        timeZone: config.schedule.timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+    });
+
+    /**
+     * Next run time counted from `from` (usually now, when a run is scheduled)
+     */
+    getNextRunAt(settings: ScheduleSettings, from: Date = new Date()): Date {
+        const jitter = randomInt(-settings.randomRangeSeconds, settings.randomRangeSeconds);
+        const candidate = new Date(from.getTime() + Math.max(0, settings.intervalSeconds + jitter) * 1000);
+
+        return this.isAllowed(settings, candidate) ? candidate : this.getWindowStart(settings, candidate);
+    }
+
+    /**
+     * Whether searches may run at the given time
+     */
+    isAllowed(settings: ScheduleSettings, date: Date = new Date()): boolean {
+        const local = this.getLocalTime(date);
+        return this.isActiveDay(settings, local.weekday) && !this.isQuietTime(settings, local.minuteOfDay);
+    }
+
+    /**
+     * Start of the next allowed window after `from`, with a random delay of up to randomRangeSeconds
+     * @returns `from` itself when searches may already run then
+     */
+    getWindowStart(settings: ScheduleSettings, from: Date = new Date()): Date {
+        let date = from;
+        // Every jump reaches a quiet hours end or a midnight; a week has at most 14 of them.
+        // A few more cover DST shifts landing an hour short.
+        for (let i = 0; i < 20; i++) {
+            const local = this.getLocalTime(date);
+            let minutes: number;
+
+            if (!this.isActiveDay(settings, local.weekday)) {
+                minutes = DAY_MINUTES - local.minuteOfDay;
+            } else if (this.isQuietTime(settings, local.minuteOfDay)) {
+                minutes = (toMinutes(settings.quietHoursEnd!) - local.minuteOfDay + DAY_MINUTES) % DAY_MINUTES;
+            } else {
+                return date === from
+                    ? from
+                    : new Date(date.getTime() + randomInt(0, settings.randomRangeSeconds) * 1000);
+            }
+
+            date = new Date(date.getTime() + minutes * MINUTE_MS - local.msIntoMinute);
+        }
+
+        throw new Error('Could not find an allowed time in the schedule');
+    }
+
+    /**
+     * Calendar day of a time in the schedule timezone, as UTC midnight (for date columns like DailyUsage.date)
+     */
+    getLocalDay(date: Date = new Date()): Date {
+        return new Date(`${this.dayFormatter.format(date)}T00:00:00.000Z`);
+    }
+
+    /**
+     * Next midnight in the schedule timezone, when daily limits reset
+     */
+    getNextDayStart(from: Date = new Date()): Date {
+        const local = this.getLocalTime(from);
+        const next = new Date(from.getTime() + (DAY_MINUTES - local.minuteOfDay) * MINUTE_MS - local.msIntoMinute);
+
+        // A day with a DST change is an hour shorter or longer
+        const offset = this.getLocalTime(next).minuteOfDay;
+        if (offset === 0) return next;
+        return new Date(next.getTime() + (offset < DAY_MINUTES / 2 ? -offset : DAY_MINUTES - offset) * MINUTE_MS);
+    }
+
+    /**
+     * Schedule details for the API
+     */
+    describe(settings: ScheduleSettings & Pick<SearchConfig, 'isActive' | 'nextRunAt'>): ScheduleInfo {
+        return {
+            timezone: config.schedule.timezone,
+            intervalSeconds: settings.intervalSeconds,
+            randomRangeSeconds: settings.randomRangeSeconds,
+            quietHours: settings.quietHoursStart && settings.quietHoursEnd
+                ? { start: settings.quietHoursStart, end: settings.quietHoursEnd }
+                : null,
+            activeDays: settings.activeDays,
+            activeNow: this.isAllowed(settings),
+            nextRunAt: settings.isActive ? settings.nextRunAt : null,
+        };
+    }
+
+    private isActiveDay(settings: ScheduleSettings, weekday: number): boolean {
+        return settings.activeDays.length === 0 || settings.activeDays.includes(weekday);
+    }
+
+    /**
+     * Quiet hours are [start, end) and may span midnight (e.g. 22:00-06:00)
+     */
+    private isQuietTime(settings: ScheduleSettings, minuteOfDay: number): boolean {
+        if (!settings.quietHoursStart || !settings.quietHoursEnd) return false;
+
+        const start = toMinutes(settings.quietHoursStart);
+        const end = toMinutes(settings.quietHoursEnd);
+
+        return start <= end
+            ? minuteOfDay >= start && minuteOfDay < end
+            : minuteOfDay >= start || minuteOfDay < end;
+    }
+
+    private getLocalTime(date: Date): LocalTime {
+        const parts = Object.fromEntries(
+            this.formatter.formatToParts(date).map(part => [part.type, part.value])
+        );
+
+        return {
+            weekday: WEEKDAYS.indexOf(parts.weekday) + 1,
+            minuteOfDay: Number(parts.hour) * 60 + Number(parts.minute),
+            msIntoMinute: Number(parts.second) * 1000 + date.getMilliseconds(),
+        };
+    }
+}
+
+/**
+ * Minutes since midnight of an "HH:MM" time
+ */
+function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+function randomInt(min: number, max: number): number {
+    return Math.floor(Math.random() * (max - min + 1)) + min;
+}
+
+export const schedulingService = new SchedulingService();
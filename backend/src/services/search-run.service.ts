@@ -0,0 +1,173 @@
+import type { SearchRun } from '@prisma/client';
+import { prisma, config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { blobStore } from './blob-store.service.js';
+
+// Workflows log every step; only the end of a long log is worth keeping
+const MAX_LOG_LINES = 200;
+const MAX_SCREENSHOTS = 5;
+const PRUNE_BATCH_SIZE = 500;
+
+// Run fields for lists; logs are only returned with a single run
+export const SEARCH_RUN_SUMMARY_SELECT = {
+    id: true,
+    searchConfigId: true,
+    jobId: true,
+    attempt: true,
+    manual: true,
+    status: true,
+    url: true,
+    listingsExtracted: true,
+    listingsMatched: true,
+    newListings: true,
+    priceDrops: true,
+    error: true,
+    screenshotKeys: true,
+    startedAt: true,
+    finishedAt: true,
+} as const;
+
+export interface SearchRunStats {
+    url: string | null;
+    listingsExtracted: number;
+    listingsMatched: number;
+    newListings: number;
+    priceDrops: number;
+    logs: string[];
+}
+
+/**
+ * What a failed run leaves behind for debugging
+ */
+export interface SearchRunDiagnostics {
+    url: string | null;
+    logs: string[];
+    screenshots: Buffer[];
+}
+
+/**
+ * History of search job runs
+ * Recording never fails the job itself: errors are logged and the run goes on.
+ */
+class SearchRunService {
+    async start(data: { searchConfigId: string; jobId: string; attempt: number; manual: boolean }): Promise<SearchRun | null> {
+        try {
+            return await prisma.searchRun.create({ data });
+        } catch (error) {
+            logger.error(`Failed to record start of search run for ${data.searchConfigId}:`, error);
+            return null;
+        }
+    }
+
+    async complete(run: SearchRun | null, stats: SearchRunStats): Promise<void> {
+        if (!run) return;
+
+        try {
+            await prisma.searchRun.update({
+                where: { id: run.id },
+                data: {
+                    ...stats,
+                    logs: stats.logs.slice(-MAX_LOG_LINES),
+                    status: 'SUCCESS',
+                    finishedAt: new Date(),
+                },
+            });
+        } catch (error) {
+            logger.error(`Failed to record search run ${run.id}:`, error);
+        }
+    }
+
+    async fail(run: SearchRun | null, error: unknown, diagnostics: SearchRunDiagnostics): Promise<void> {
+        if (!run) return;
+
+        try {
+            const screenshotKeys: string[] = [];
+            for (const [index, screenshot] of diagnostics.screenshots.slice(-MAX_SCREENSHOTS).entries()) {
+                const key = `${this.getBlobPrefix(run.searchConfigId)}/${run.id}/${index}.png`;
+                await blobStore.put(key, screenshot, 'image/png');
+                screenshotKeys.push(key);
+            }
+
+            await prisma.searchRun.update({
+                where: { id: run.id },
+                data: {
+                    status: 'FAILED',
+                    url: diagnostics.url,
+                    error: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+                    logs: diagnostics.logs.slice(-MAX_LOG_LINES),
+                    screenshotKeys,
+                    finishedAt: new Date(),
+                },
+            });
+        } catch (recordError) {
+            logger.error(`Failed to record failure of search run ${run.id}:`, recordError);
+        }
+    }
+
+    /**
+     * Run as returned by the API: screenshots as a count (fetched one by one), duration computed
+     */
+    describe<T extends Pick<SearchRun, 'screenshotKeys' | 'startedAt' | 'finishedAt'>>(run: T) {
+        const { screenshotKeys, ...rest } = run;
+        return {
+            ...rest,
+            screenshotCount: screenshotKeys.length,
+            durationMs: run.finishedAt ? run.finishedAt.getTime() - run.startedAt.getTime() : null,
+        };
+    }
+
+    /**
+     * PNG of a failed run's screenshot, or null when missing
+     */
+    async getScreenshot(run: Pick<SearchRun, 'screenshotKeys'>, index: number): Promise<Buffer | null> {
+        const key = run.screenshotKeys[index];
+        return key ? blobStore.get(key) : null;
+    }
+
+    /**
+     * Delete the screenshots of a search config (its runs are deleted with it by the database)
+     */
+    async deleteConfigBlobs(searchConfigId: string): Promise<void> {
+        await blobStore.deletePrefix(this.getBlobPrefix(searchConfigId));
+    }
+
+    /**
+     * Delete runs older than config.schedule.runRetentionDays, with their screenshots
+     * @returns number of deleted runs
+     */
+    async prune(): Promise<number> {
+        const before = new Date(Date.now() - config.schedule.runRetentionDays * 24 * 60 * 60 * 1000);
+        let deleted = 0;
+
+        for (;;) {
+            const runs = await prisma.searchRun.findMany({
+                where: { startedAt: { lt: before } },
+                select: { id: true, searchConfigId: true, screenshotKeys: true },
+                take: PRUNE_BATCH_SIZE,
+            });
+
+            if (runs.length === 0) break;
+
+            for (const run of runs.filter(r => r.screenshotKeys.length > 0)) {
+                await blobStore.deletePrefix(`${this.getBlobPrefix(run.searchConfigId)}/${run.id}`);
+            }
+
+            const result = await prisma.searchRun.deleteMany({
+                where: { id: { in: runs.map(run => run.id) } },
+            });
+            deleted += result.count;
+        }
+
+        if (deleted > 0) {
+            logger.info(`Pruned ${deleted} search runs older than ${config.schedule.runRetentionDays} days`);
+        }
+
+        return deleted;
+    }
+
+    private getBlobPrefix(searchConfigId: string): string {
+        return `search-runs/${searchConfigId}`;
+    }
+}
+
+export const searchRunService = new SearchRunService();
@@ -0,0 +1,94 @@
+import { randomUUID } from 'crypto';
+import { Prisma, type NotificationChannel } from '@prisma/client';
+import { prisma } from '../config/index.js';
+import { entitlementService } from './entitlement.service.js';
+import { schedulingService } from './scheduling.service.js';
+
+export interface SearchTimeUsage {
+    minutesUsed: number;
+    // 0 = unlimited
+    limitMinutes: number;
+    // This addition reached the limit (true only once a day)
+    limitReached: boolean;
+}
+
+// DailyUsage column counting the alerts sent over each limited channel
+const NOTIFICATION_COLUMNS = {
+    IN_APP: 'notifications_sent',
+    PUSH: 'push_notifications_sent',
+    EMAIL: 'email_notifications_sent',
+} as const satisfies Partial<Record<NotificationChannel, string>>;
+
+export type NotificationQuotaChannel = keyof typeof NOTIFICATION_COLUMNS;
+
+/**
+ * Daily usage counters (DailyUsage), per calendar day in config.schedule.timezone
+ */
+class UsageService {
+    /**
+     * Add browser time of a search job to the user's usage today
+     */
+    async addSearchTime(userId: string, durationMs: number): Promise<SearchTimeUsage> {
+        const seconds = Math.max(0, Math.round(durationMs / 1000));
+        const day = schedulingService.getLocalDay().toISOString().slice(0, 10);
+
+        // One statement, so concurrent jobs of the same user can't lose an update
+        const [usage] = await prisma.$queryRaw<{ search_seconds_used: number }[]>`
+            INSERT INTO daily_usage (id, user_id, date, search_seconds_used, search_minutes_used)
+            VALUES (${randomUUID()}, ${userId}, ${day}::date, ${seconds}, ${Math.floor(seconds / 60)})
+            ON CONFLICT (user_id, date) DO UPDATE SET
+                search_seconds_used = daily_usage.search_seconds_used + EXCLUDED.search_seconds_used,
+                search_minutes_used = (daily_usage.search_seconds_used + EXCLUDED.search_seconds_used) / 60
+            RETURNING search_seconds_used
+        `;
+
+        const { dailySearchMinutes } = await entitlementService.getEntitlements(userId);
+        const limitSeconds = dailySearchMinutes * 60;
+        const secondsBefore = usage.search_seconds_used - seconds;
+
+        return {
+            minutesUsed: Math.floor(usage.search_seconds_used / 60),
+            limitMinutes: dailySearchMinutes,
+            limitReached: dailySearchMinutes > 0 && secondsBefore < limitSeconds && usage.search_seconds_used >= limitSeconds,
+        };
+    }
+
+    /**
+     * Take up to `count` alerts from the user's daily limit (maxNotificationsDay) for a channel
+     * The row is locked while counting, so concurrent jobs can't exceed the limit together.
+     * @returns how many of the alerts may be sent now
+     */
+    async reserveNotifications(userId: string, channel: NotificationQuotaChannel, count: number): Promise<number> {
+        if (count <= 0) return 0;
+
+        const day = schedulingService.getLocalDay().toISOString().slice(0, 10);
+        const { maxNotificationsDay: limit } = await entitlementService.getEntitlements(userId);
+        const column = Prisma.raw(NOTIFICATION_COLUMNS[channel]);
+
+        await prisma.$executeRaw`
+            INSERT INTO daily_usage (id, user_id, date)
+            VALUES (${randomUUID()}, ${userId}, ${day}::date)
+            ON CONFLICT (user_id, date) DO NOTHING
+        `;
+
+        // 0 = unlimited; a limit lowered during the day leaves the counter as it is
+        const [usage] = await prisma.$queryRaw<{ granted: number }[]>`
+            UPDATE daily_usage AS du
+            SET ${column} = CASE
+                WHEN ${limit}::int = 0 THEN prev.sent + ${count}::int
+                ELSE GREATEST(prev.sent, LEAST(prev.sent + ${count}::int, ${limit}::int))
+            END
+            FROM (
+                SELECT id, ${column} AS sent FROM daily_usage
+                WHERE user_id = ${userId} AND date = ${day}::date
+                FOR UPDATE
+            ) AS prev
+            WHERE du.id = prev.id
+            RETURNING (du.${column} - prev.sent)::int AS granted
+        `;
+
+        return usage?.granted ?? 0;
+    }
+}
+
+export const usageService = new UsageService();
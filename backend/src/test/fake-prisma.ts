@@ -0,0 +1,256 @@
+import { randomUUID } from 'crypto';
+
+type Row = Record<string, any>;
+
+export interface FakeModel {
+    // Column values of inserted rows unless given; functions are called per row (id is always generated)
+    defaults?: Record<string, unknown>;
+    // Column sets that must be unique; inserts clashing on one fail, or are skipped with skipDuplicates
+    unique?: string[][];
+    // Relation fields usable in where, select and include
+    relations?: Record<string, FakeRelation>;
+}
+
+export interface FakeRelation {
+    model: string;
+    // Column holding the related row's ID (to-one), or the related rows' column holding this row's ID (many)
+    foreignKey: string;
+    many?: boolean;
+}
+
+const OPERATORS = new Set(['in', 'notIn', 'not', 'gt', 'gte', 'lt', 'lte']);
+
+/**
+ * In-memory stand-in for the Prisma client, for tests that can't reach a database
+ *
+ * Supports the query shapes the code under test uses: equality and in/notIn/not/gt/gte/lt/lte filters,
+ * relation filters, compound unique keys, select/include with relations, orderBy on one column,
+ * take, { increment } updates and both forms of $transaction. Anything else throws, so a test
+ * never passes on a query the fake silently misread.
+ *
+ * Modules import the shared `fakeDatabase.prisma` through jest.mock; each test calls reset() with its models.
+ */
+export class FakeDatabase {
+    readonly tables: Record<string, Row[]> = {};
+    private models: Record<string, FakeModel> = {};
+
+    readonly prisma: any = new Proxy({}, {
+        get: (_, key: string) => {
+            if (key === '$transaction') {
+                return async (operations: unknown) => typeof operations === 'function'
+                    ? operations(this.prisma)
+                    : Promise.all(operations as Promise<unknown>[]);
+            }
+            if (!this.models[key]) {
+                throw new Error(`Fake Prisma has no model "${key}"`);
+            }
+            return this.delegate(key);
+        },
+    });
+
+    /**
+     * Start over with empty tables for the given models
+     */
+    reset(models: Record<string, FakeModel>): void {
+        this.models = models;
+        for (const key of Object.keys(this.tables)) delete this.tables[key];
+        for (const name of Object.keys(models)) this.tables[name] = [];
+    }
+
+    /**
+     * Insert rows directly, without the delegate's unique checks
+     */
+    seed(model: string, rows: Row[]): Row[] {
+        return rows.map(row => this.insert(model, row));
+    }
+
+    private delegate(model: string) {
+        const rows = () => this.tables[model];
+        const find = (where: Row = {}) => rows().filter(row => this.matches(model, row, where));
+
+        return {
+            findUnique: async ({ where, select, include }: Row) =>
+                this.project(model, find(where)[0], select, include),
+            findFirst: async ({ where, select, include }: Row = {}) =>
+                this.project(model, find(where)[0], select, include),
+            findMany: async ({ where, select, include, orderBy, take }: Row = {}) =>
+                this.sort(find(where), orderBy).slice(0, take ?? undefined).map(row => this.project(model, row, select, include)),
+            count: async ({ where }: Row = {}) => find(where).length,
+            create: async ({ data, select, include }: Row) =>
+                this.project(model, this.insertUnique(model, data, false)!, select, include),
+            createMany: async ({ data, skipDuplicates }: Row) => ({
+                count: data.filter((row: Row) => this.insertUnique(model, row, skipDuplicates)).length,
+            }),
+            createManyAndReturn: async ({ data, skipDuplicates, select }: Row) =>
+                data
+                    .map((row: Row) => this.insertUnique(model, row, skipDuplicates))
+                    .filter(Boolean)
+                    .map((row: Row) => this.project(model, row, select)),
+            update: async ({ where, data, select, include }: Row) => {
+                const row = find(where)[0];
+                if (!row) throw new Error(`Fake Prisma: no ${model} to update`);
+                return this.project(model, this.apply(row, data), select, include);
+            },
+            updateMany: async ({ where, data }: Row) => {
+                const matched = find(where);
+                matched.forEach(row => this.apply(row, data));
+                return { count: matched.length };
+            },
+            upsert: async ({ where, create, update }: Row) => {
+                const row = find(where)[0];
+                return row ? this.apply(row, update) : this.insertUnique(model, create, false);
+            },
+            delete: async ({ where }: Row) => {
+                const row = find(where)[0];
+                if (!row) throw new Error(`Fake Prisma: no ${model} to delete`);
+                this.tables[model] = rows().filter(other => other !== row);
+                return row;
+            },
+            deleteMany: async ({ where }: Row = {}) => {
+                const matched = find(where);
+                this.tables[model] = rows().filter(row => !matched.includes(row));
+                return { count: matched.length };
+            },
+        };
+    }
+
+    private insertUnique(model: string, data: Row, skipDuplicates: boolean): Row | null {
+        const clash = (this.models[model].unique ?? []).some(columns =>
+            this.tables[model].some(row => columns.every(column => row[column] === data[column]))
+        );
+
+        if (clash) {
+            if (skipDuplicates) return null;
+            throw new Error(`Fake Prisma: unique constraint failed on ${model}`);
+        }
+
+        return this.insert(model, data);
+    }
+
+    private insert(model: string, data: Row): Row {
+        const defaults = Object.fromEntries(Object.entries(this.models[model].defaults ?? {})
+            .map(([column, value]) => [column, typeof value === 'function' ? value() : value]));
+        // Prisma stores columns left undefined as null (or their default)
+        const values = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+        const row = { ...defaults, ...values, id: data.id ?? randomUUID() };
+
+        for (const [column, value] of Object.entries(row)) {
+            if (typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value)
+                && this.models[model].relations?.[column]) {
+                throw new Error(`Fake Prisma: nested writes (${model}.${column}) are not supported`);
+            }
+        }
+
+        this.tables[model].push(row);
+        return row;
+    }
+
+    private apply(row: Row, data: Row): Row {
+        for (const [column, value] of Object.entries(data)) {
+            if (value === undefined) continue;
+            row[column] = value !== null && typeof value === 'object' && 'increment' in value
+                ? row[column] + value.increment
+                : value;
+        }
+        return row;
+    }
+
+    private matches(model: string, row: Row, where: Row): boolean {
+        return Object.entries(where).every(([key, condition]) => {
+            if (condition === undefined) return true;
+
+            const relation = this.models[model].relations?.[key];
+            if (relation) {
+                const related = this.related(row, relation);
+                if (relation.many) {
+                    const { some } = condition;
+                    if (!some) throw new Error(`Fake Prisma: only "some" filters on ${model}.${key}`);
+                    return (related as Row[]).some(other => this.matches(relation.model, other, some));
+                }
+                return !!related && this.matches(relation.model, related as Row, condition);
+            }
+
+            if (isPlainObject(condition)) {
+                const operators = Object.keys(condition);
+                if (operators.every(operator => OPERATORS.has(operator))) {
+                    return operators.every(operator => compare(row[key], operator, condition[operator]));
+                }
+                // Compound unique key, e.g. serviceId_name: { serviceId, name }
+                return this.matches(model, row, condition);
+            }
+
+            return isEqual(row[key], condition);
+        });
+    }
+
+    private related(row: Row, relation: FakeRelation): Row | Row[] | null {
+        const table = this.tables[relation.model];
+        return relation.many
+            ? table.filter(other => other[relation.foreignKey] === row.id)
+            : table.find(other => other.id === row[relation.foreignKey]) ?? null;
+    }
+
+    private project(model: string, row: Row | undefined, select?: Row, include?: Row): Row | null {
+        if (!row) return null;
+
+        const nested = (key: string, args: Row | true) => {
+            const relation = this.models[model].relations?.[key];
+            if (!relation) throw new Error(`Fake Prisma: unknown relation ${model}.${key}`);
+
+            const { select: relationSelect, include: relationInclude, where, orderBy, take } = args === true ? {} as Row : args;
+            const related = this.related(row, relation);
+            if (!relation.many) return this.project(relation.model, related as Row | null ?? undefined, relationSelect, relationInclude);
+
+            return this.sort((related as Row[]).filter(other => !where || this.matches(relation.model, other, where)), orderBy)
+                .slice(0, take ?? undefined)
+                .map(other => this.project(relation.model, other, relationSelect, relationInclude));
+        };
+
+        if (select) {
+            return Object.fromEntries(Object.entries(select)
+                .filter(([, args]) => args)
+                .map(([key, args]) => [key, args === true && !this.models[model].relations?.[key] ? row[key] : nested(key, args)]));
+        }
+
+        return {
+            ...row,
+            ...Object.fromEntries(Object.entries(include ?? {}).filter(([, args]) => args).map(([key, args]) => [key, nested(key, args)])),
+        };
+    }
+
+    private sort(rows: Row[], orderBy?: Row): Row[] {
+        if (!orderBy) return rows;
+
+        const [[column, direction]] = Object.entries(orderBy);
+        const sign = direction === 'desc' ? -1 : 1;
+        return [...rows].sort((a, b) => (a[column] > b[column] ? 1 : a[column] < b[column] ? -1 : 0) * sign);
+    }
+}
+
+function isPlainObject(value: unknown): value is Row {
+    return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value)
+        && !Buffer.isBuffer(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+    return a === b;
+}
+
+function compare(value: any, operator: string, operand: any): boolean {
+    switch (operator) {
+        case 'in': return operand.some((item: unknown) => isEqual(value, item));
+        case 'notIn': return !operand.some((item: unknown) => isEqual(value, item));
+        case 'not': return isPlainObject(operand)
+            ? !Object.entries(operand).every(([nested, nestedOperand]) => compare(value, nested, nestedOperand))
+            : !isEqual(value, operand ?? null) && !(operand === null && value === undefined);
+        case 'gt': return value !== null && value !== undefined && value > operand;
+        case 'gte': return value !== null && value !== undefined && value >= operand;
+        case 'lt': return value !== null && value !== undefined && value < operand;
+        case 'lte': return value !== null && value !== undefined && value <= operand;
+        default: throw new Error(`Fake Prisma: unsupported filter "${operator}"`);
+    }
+}
+
+// Shared by the modules under test (through jest.mock) and the test itself
+export const fakeDatabase = new FakeDatabase();
@@ -2,17 +2,21 @@ export class AppError extends Error {
     public readonly statusCode: number;
     public readonly code: string;
     public readonly isOperational: boolean;
+    // Extra data for clients, returned with the error
+    public readonly details?: Record<string, unknown>;
 
     constructor(
         message: string,
         statusCode: number = 500,
         code: string = 'INTERNAL_ERROR',
-        isOperational: boolean = true
+        isOperational: boolean = true,
+        details?: Record<string, unknown>
     ) {
         super(message);
         this.statusCode = statusCode;
         this.code = code;
         this.isOperational = isOperational;
+        this.details = details;
 
         Error.captureStackTrace(this, this.constructor);
     }
@@ -48,6 +52,12 @@ export class ConflictError extends AppError {
     }
 }
 
+export class PlanLimitExceededError extends AppError {
+    constructor(message: string, limit: string) {
+        super(message, 403, 'PLAN_LIMIT_EXCEEDED', true, { limit });
+    }
+}
+
 export class TooManyRequestsError extends AppError {
     constructor(message: string = 'Too many requests') {
         super(message, 429, 'TOO_MANY_REQUESTS');
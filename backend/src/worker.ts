@@ -1,4 +1,10 @@
 import { searchScheduler } from './jobs/search-scheduler.js';
+import './jobs/search-processor.js';
+import './jobs/reencryption.js';
+import './jobs/email-sender.js';
+import { scheduleNotificationDigest } from './jobs/notification-digest.js';
+import { schedulePushReceipts } from './jobs/push-receipts.js';
+import { scheduleDailyReports } from './jobs/daily-report.js';
 import { playwrightManager } from './automation/playwright-manager.js';
 import { logger } from './utils/logger.js';
 
@@ -7,6 +13,9 @@ async function startWorker(): Promise<void> {
 
     // Start search scheduler
     await searchScheduler.start();
+    await scheduleNotificationDigest();
+    await schedulePushReceipts();
+    await scheduleDailyReports();
 
     logger.info('✅ Worker started successfully');
     logger.info('📅 Listening for search jobs...');
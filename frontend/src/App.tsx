@@ -20,6 +20,7 @@ import AdminPaymentsPage from '@/pages/admin/AdminPaymentsPage'
 import AdminSettingsPage from '@/pages/admin/AdminSettingsPage'
 import AdminPaymentProvidersPage from '@/pages/admin/AdminPaymentProvidersPage'
 import AdminLegalPage from '@/pages/admin/AdminLegalPage'
+import AdminSearchRunsPage from '@/pages/admin/AdminSearchRunsPage'
 // Legal pages
 import PrivacyPolicyPage from '@/pages/PrivacyPolicyPage'
 import TermsOfServicePage from '@/pages/TermsOfServicePage'
@@ -98,6 +99,7 @@ export default function App() {
                     <Route path="/admin/settings" element={<AdminSettingsPage />} />
                     <Route path="/admin/payment-providers" element={<AdminPaymentProvidersPage />} />
                     <Route path="/admin/legal" element={<AdminLegalPage />} />
+                    <Route path="/admin/search-runs" element={<AdminSearchRunsPage />} />
                 </Route>
 
                 {/* Redirect root to dashboard or login */}
@@ -0,0 +1,70 @@
+import { formatDate, formatPrice } from '@/lib/utils'
+
+export interface PricePoint {
+    price: number
+    currency: string
+    observedAt: string
+}
+
+interface PriceHistoryChartProps {
+    points: PricePoint[]
+}
+
+const WIDTH = 320
+const HEIGHT = 120
+const PADDING = 8
+
+/**
+ * Step chart of observed prices (a price holds until the next observation)
+ */
+export default function PriceHistoryChart({ points }: PriceHistoryChartProps) {
+    if (points.length === 0) {
+        return <p className="text-sm text-muted-foreground">Brak historii cen</p>
+    }
+
+    const currency = points[0].currency
+    const prices = points.map(p => p.price)
+    const minPrice = Math.min(...prices)
+    const maxPrice = Math.max(...prices)
+    const firstTime = new Date(points[0].observedAt).getTime()
+    const lastTime = Math.max(Date.now(), firstTime + 1)
+
+    const x = (time: number) =>
+        PADDING + ((time - firstTime) / (lastTime - firstTime)) * (WIDTH - PADDING * 2)
+    const y = (price: number) =>
+        maxPrice === minPrice
+            ? HEIGHT / 2
+            : PADDING + ((maxPrice - price) / (maxPrice - minPrice)) * (HEIGHT - PADDING * 2)
+
+    // Horizontal segment per price, vertical step at each change, extended to now
+    const path = points
+        .map((point, i) => {
+            const px = x(new Date(point.observedAt).getTime())
+            const py = y(point.price)
+            return i === 0 ? `M ${px} ${py}` : `H ${px} V ${py}`
+        })
+        .join(' ') + ` H ${x(lastTime)}`
+
+    return (
+        <div className="space-y-2">
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-32 text-primary">
+                <path d={path} fill="none" stroke="currentColor" strokeWidth={2} />
+                {points.map((point) => (
+                    <circle
+                        key={point.observedAt}
+                        cx={x(new Date(point.observedAt).getTime())}
+                        cy={y(point.price)}
+                        r={3}
+                        fill="currentColor"
+                    >
+                        <title>{`${formatPrice(point.price, point.currency)} • ${formatDate(point.observedAt)}`}</title>
+                    </circle>
+                ))}
+            </svg>
+            <div className="flex justify-between text-xs text-muted-foreground">
+                <span>min {formatPrice(minPrice, currency)}</span>
+                <span>max {formatPrice(maxPrice, currency)}</span>
+            </div>
+        </div>
+    )
+}
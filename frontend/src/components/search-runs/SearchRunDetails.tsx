@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react'
+import { CheckCircle, XCircle, Loader2 } from 'lucide-react'
+
+export interface SearchRunSummary {
+    id: string
+    searchConfigId: string
+    manual: boolean
+    attempt: number
+    status: 'RUNNING' | 'SUCCESS' | 'FAILED'
+    url: string | null
+    listingsExtracted: number
+    listingsMatched: number
+    newListings: number
+    priceDrops: number
+    error: string | null
+    screenshotCount: number
+    startedAt: string
+    finishedAt: string | null
+    durationMs: number | null
+}
+
+export interface SearchRun extends SearchRunSummary {
+    logs: string[]
+}
+
+const STATUS_LABELS: Record<SearchRunSummary['status'], string> = {
+    RUNNING: 'W toku',
+    SUCCESS: 'Zakończone',
+    FAILED: 'Błąd',
+}
+
+const STATUS_CLASSES: Record<SearchRunSummary['status'], string> = {
+    RUNNING: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+    SUCCESS: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+    FAILED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+}
+
+export function SearchRunStatusBadge({ status }: { status: SearchRunSummary['status'] }) {
+    return (
+        <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[status]}`}>
+            {status === 'RUNNING' && <Loader2 className="h-3 w-3 animate-spin" />}
+            {status === 'SUCCESS' && <CheckCircle className="h-3 w-3" />}
+            {status === 'FAILED' && <XCircle className="h-3 w-3" />}
+            {STATUS_LABELS[status]}
+        </span>
+    )
+}
+
+export function formatDuration(ms: number | null): string {
+    if (ms === null) return '-'
+    return ms < 60000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.floor(ms / 60000)} min ${Math.round((ms % 60000) / 1000)} s`
+}
+
+interface SearchRunDetailsProps {
+    run: SearchRun
+    loadScreenshot: (index: number) => Promise<Blob>
+}
+
+/**
+ * Error, visited URL, workflow logs and failure screenshots of a run
+ */
+export default function SearchRunDetails({ run, loadScreenshot }: SearchRunDetailsProps) {
+    const [screenshots, setScreenshots] = useState<string[]>([])
+
+    useEffect(() => {
+        let cancelled = false
+        const urls: string[] = []
+
+        Promise.all(
+            Array.from({ length: run.screenshotCount }, (_, i) => loadScreenshot(i))
+        )
+            .then(blobs => {
+                if (cancelled) return
+                urls.push(...blobs.map(blob => URL.createObjectURL(blob)))
+                setScreenshots(urls)
+            })
+            .catch(err => console.error('Failed to load screenshots:', err))
+
+        return () => {
+            cancelled = true
+            urls.forEach(url => URL.revokeObjectURL(url))
+        }
+    }, [run.id, run.screenshotCount])
+
+    return (
+        <div className="space-y-3 text-sm">
+            {run.error && (
+                <p className="text-destructive break-words">{run.error}</p>
+            )}
+
+            {run.url && (
+                <p className="text-muted-foreground break-all">
+                    URL:{' '}
+                    <a href={run.url} target="_blank" rel="noreferrer" className="underline">
+                        {run.url}
+                    </a>
+                </p>
+            )}
+
+            {run.logs.length > 0 ? (
+                <pre className="max-h-64 overflow-auto rounded bg-muted p-3 text-xs whitespace-pre-wrap">
+                    {run.logs.join('\n')}
+                </pre>
+            ) : (
+                <p className="text-muted-foreground">Brak logów</p>
+            )}
+
+            {screenshots.length > 0 && (
+                <div className="grid gap-2 sm:grid-cols-2">
+                    {screenshots.map((url, i) => (
+                        <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt={`Zrzut ekranu ${i + 1}`} className="rounded border" />
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
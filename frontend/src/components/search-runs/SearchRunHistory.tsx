@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { searchConfigsApi } from '@/lib/api'
+import { formatDate } from '@/lib/utils'
+import SearchRunDetails, {
+    SearchRunStatusBadge,
+    formatDuration,
+    type SearchRun,
+    type SearchRunSummary
+} from './SearchRunDetails'
+
+const PAGE_SIZE = 10
+
+interface SearchRunHistoryProps {
+    searchConfigId: string
+}
+
+/**
+ * Run history of a search config, newest first; a run expands to its logs and screenshots
+ */
+export default function SearchRunHistory({ searchConfigId }: SearchRunHistoryProps) {
+    const [runs, setRuns] = useState<SearchRunSummary[]>([])
+    const [page, setPage] = useState(1)
+    const [totalPages, setTotalPages] = useState(0)
+    const [loading, setLoading] = useState(true)
+    const [expanded, setExpanded] = useState<SearchRun | null>(null)
+
+    useEffect(() => {
+        loadRuns(1)
+    }, [searchConfigId])
+
+    const loadRuns = async (nextPage: number) => {
+        try {
+            setLoading(true)
+            const { data } = await searchConfigsApi.history(searchConfigId, { page: nextPage, limit: PAGE_SIZE })
+            setRuns(prev => nextPage === 1 ? data.data : [...prev, ...data.data])
+            setPage(nextPage)
+            setTotalPages(data.pagination.totalPages)
+        } catch (err) {
+            console.error('Failed to load run history:', err)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const toggleRun = async (runId: string) => {
+        if (expanded?.id === runId) {
+            setExpanded(null)
+            return
+        }
+
+        try {
+            const { data } = await searchConfigsApi.historyRun(searchConfigId, runId)
+            setExpanded(data.data)
+        } catch (err) {
+            console.error('Failed to load run:', err)
+        }
+    }
+
+    const loadScreenshot = async (index: number) => {
+        const { data } = await searchConfigsApi.historyScreenshot(searchConfigId, expanded!.id, index)
+        return data
+    }
+
+    if (!loading && runs.length === 0) {
+        return <p className="text-sm text-muted-foreground">Brak uruchomień</p>
+    }
+
+    return (
+        <div className="space-y-2">
+            {runs.map((run) => (
+                <div key={run.id} className="rounded border">
+                    <button
+                        type="button"
+                        onClick={() => toggleRun(run.id)}
+                        className="flex w-full flex-wrap items-center gap-3 p-3 text-left text-sm hover:bg-muted/50"
+                    >
+                        {expanded?.id === run.id
+                            ? <ChevronDown className="h-4 w-4" />
+                            : <ChevronRight className="h-4 w-4" />}
+                        <span>{formatDate(run.startedAt)}</span>
+                        <SearchRunStatusBadge status={run.status} />
+                        {run.manual && <span className="text-xs text-muted-foreground">ręczne</span>}
+                        <span className="text-muted-foreground">
+                            {run.listingsExtracted} ogłoszeń, {run.newListings} nowych, {run.priceDrops} obniżek
+                        </span>
+                        <span className="ml-auto text-xs text-muted-foreground">
+                            {formatDuration(run.durationMs)}
+                        </span>
+                    </button>
+
+                    {expanded?.id === run.id && (
+                        <div className="border-t p-3">
+                            <SearchRunDetails run={expanded} loadScreenshot={loadScreenshot} />
+                        </div>
+                    )}
+                </div>
+            ))}
+
+            {page < totalPages && (
+                <Button variant="outline" size="sm" disabled={loading} onClick={() => loadRuns(page + 1)}>
+                    Pokaż starsze
+                </Button>
+            )}
+        </div>
+    )
+}
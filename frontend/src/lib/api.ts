@@ -73,6 +73,9 @@ export const authApi = {
         api.post('/auth/logout', { refreshToken }),
 
     me: () => api.get('/auth/me'),
+
+    updateMe: (data: { name?: string; emailNotifications?: boolean; language?: 'pl' | 'en' }) =>
+        api.patch('/auth/me', data),
 }
 
 export const servicesApi = {
@@ -94,14 +97,25 @@ export const searchConfigsApi = {
     delete: (id: string) => api.delete(`/search-configs/${id}`),
     toggle: (id: string) => api.patch(`/search-configs/${id}/toggle`),
     run: (id: string) => api.post(`/search-configs/${id}/run`),
+    runStatus: (id: string, jobId: string) => api.get(`/search-configs/${id}/runs/${jobId}`),
+    history: (id: string, params: { page?: number; limit?: number; status?: string }) =>
+        api.get(`/search-configs/${id}/history`, { params }),
+    historyRun: (id: string, runId: string) => api.get(`/search-configs/${id}/history/${runId}`),
+    // Screenshots need the auth header, so they're fetched as blobs rather than linked
+    historyScreenshot: (id: string, runId: string, index: number) =>
+        api.get<Blob>(`/search-configs/${id}/history/${runId}/screenshots/${index}`, { responseType: 'blob' }),
 }
 
 export const listingsApi = {
-    list: (params: { page?: number; limit?: number; serviceId?: string }) =>
+    list: (params: { page?: number; limit?: number; serviceId?: string; searchConfigId?: string }) =>
         api.get('/listings', { params }),
     get: (id: string) => api.get(`/listings/${id}`),
-    markSpam: (id: string) => api.post(`/listings/${id}/mark-spam`),
-    markSuccess: (id: string) => api.post(`/listings/${id}/mark-success`),
+    history: (id: string) => api.get(`/listings/${id}/history`),
+    // Without searchConfigId the listing is marked for all of the user's searches
+    markSpam: (id: string, searchConfigId?: string) =>
+        api.post(`/listings/${id}/mark-spam`, { searchConfigId }),
+    markSuccess: (id: string, searchConfigId?: string) =>
+        api.post(`/listings/${id}/mark-success`, { searchConfigId }),
 }
 
 export const notificationsApi = {
@@ -164,6 +178,15 @@ export const adminApi = {
             api.get('/admin/payments', { params }),
     },
 
+    // Search runs
+    searchRuns: {
+        list: (params?: { page?: number; limit?: number; status?: string; serviceId?: string; userId?: string }) =>
+            api.get('/admin/search-runs', { params }),
+        get: (runId: string) => api.get(`/admin/search-runs/${runId}`),
+        screenshot: (runId: string, index: number) =>
+            api.get<Blob>(`/admin/search-runs/${runId}/screenshots/${index}`, { responseType: 'blob' }),
+    },
+
     // Services
     services: {
         list: () => api.get('/admin/services'),
@@ -5,13 +5,15 @@ import {
     Phone,
     AlertTriangle,
     CheckCircle,
-    Filter
+    Filter,
+    TrendingDown
 } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { listingsApi } from '@/lib/api'
 import { useToast } from '@/hooks/use-toast'
 import { formatPrice, formatRelativeTime } from '@/lib/utils'
+import PriceHistoryChart, { type PricePoint } from '@/components/listings/PriceHistoryChart'
 
 interface Listing {
     id: string
@@ -25,12 +27,26 @@ interface Listing {
     images: string[]
     isAd: boolean
     previousPrice: number | null
+    status: 'ACTIVE' | 'REMOVED'
+    lastSeenAt: string
+    removedAt: string | null
     detectedAt: string
     service: {
         id: string
         name: string
         logoUrl: string | null
     }
+    // Same car found on other services
+    alsoOn: {
+        id: string
+        listingUrl: string
+        price: number | null
+        currency: string
+        service: {
+            id: string
+            name: string
+        }
+    }[]
 }
 
 export default function ListingsPage() {
@@ -38,6 +54,8 @@ export default function ListingsPage() {
     const [loading, setLoading] = useState(true)
     const [page, setPage] = useState(1)
     const [hasMore, setHasMore] = useState(true)
+    const [historyListingId, setHistoryListingId] = useState<string | null>(null)
+    const [priceHistory, setPriceHistory] = useState<Record<string, PricePoint[]>>({})
     const { toast } = useToast()
 
     useEffect(() => {
@@ -97,6 +115,23 @@ export default function ListingsPage() {
         }
     }
 
+    const toggleHistory = async (id: string) => {
+        if (historyListingId === id) {
+            setHistoryListingId(null)
+            return
+        }
+
+        setHistoryListingId(id)
+        if (priceHistory[id]) return
+
+        try {
+            const response = await listingsApi.history(id)
+            setPriceHistory(prev => ({ ...prev, [id]: response.data.data }))
+        } catch (error) {
+            console.error('Failed to load price history:', error)
+        }
+    }
+
     const getPriceChange = (listing: Listing) => {
         if (!listing.previousPrice || !listing.price) return null
         const diff = listing.previousPrice - listing.price
@@ -173,6 +208,12 @@ export default function ListingsPage() {
                                                 </div>
                                             )}
 
+                                            {listing.status === 'REMOVED' && !listing.isAd && (
+                                                <div className="absolute bottom-2 left-2 bg-muted-foreground text-background rounded-md px-2 py-1 text-xs font-medium">
+                                                    Nieaktualne {listing.removedAt && formatRelativeTime(listing.removedAt).toLowerCase()}
+                                                </div>
+                                            )}
+
                                             {listing.isAd && (
                                                 <div className="absolute inset-0 bg-background/50 flex items-center justify-center">
                                                     <span className="bg-destructive text-destructive-foreground px-3 py-1 rounded-full text-sm font-medium">
@@ -202,6 +243,28 @@ export default function ListingsPage() {
                                                 <span>• {formatRelativeTime(listing.detectedAt)}</span>
                                             </div>
 
+                                            {listing.alsoOn.length > 0 && (
+                                                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground mb-4">
+                                                    <span>Również na:</span>
+                                                    {listing.alsoOn.map((duplicate) => (
+                                                        <a
+                                                            key={duplicate.id}
+                                                            href={duplicate.listingUrl}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="inline-flex items-center gap-1 rounded-md bg-muted px-2 py-0.5 text-xs font-medium text-foreground hover:bg-muted/70"
+                                                        >
+                                                            {duplicate.service.name}
+                                                            {duplicate.price !== null && duplicate.price !== listing.price && (
+                                                                <span className="text-muted-foreground">
+                                                                    {formatPrice(duplicate.price, duplicate.currency)}
+                                                                </span>
+                                                            )}
+                                                        </a>
+                                                    ))}
+                                                </div>
+                                            )}
+
                                             {/* Actions */}
                                             <div className="flex gap-2">
                                                 <Button
@@ -228,6 +291,15 @@ export default function ListingsPage() {
                                                     </Button>
                                                 )}
 
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => toggleHistory(listing.id)}
+                                                    title="Historia cen"
+                                                >
+                                                    <TrendingDown className="w-4 h-4" />
+                                                </Button>
+
                                                 <Button
                                                     variant="ghost"
                                                     size="sm"
@@ -246,6 +318,17 @@ export default function ListingsPage() {
                                                     </Button>
                                                 )}
                                             </div>
+
+                                            {historyListingId === listing.id && (
+                                                <div className="mt-4 border-t pt-4">
+                                                    <h4 className="text-sm font-medium mb-2">Historia cen</h4>
+                                                    {priceHistory[listing.id] ? (
+                                                        <PriceHistoryChart points={priceHistory[listing.id]} />
+                                                    ) : (
+                                                        <div className="h-32 bg-muted rounded animate-pulse" />
+                                                    )}
+                                                </div>
+                                            )}
                                         </div>
                                     </CardContent>
                                 </Card>
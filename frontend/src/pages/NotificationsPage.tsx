@@ -18,6 +18,14 @@ interface Notification {
     status: string
     readAt: string | null
     createdAt: string
+    payload: {
+        type: string
+        title: string
+        body: string
+        // Daily digest: alerts held back by the daily notification limit
+        items?: { listingId: string | null; type: string; title: string; body: string }[]
+    }
+    // null for system notifications that aren't about a listing
     listing: {
         id: string
         title: string
@@ -26,7 +34,7 @@ interface Notification {
         listingUrl: string
         phone: string | null
         images: string[]
-    }
+    } | null
 }
 
 export default function NotificationsPage() {
@@ -136,7 +144,7 @@ export default function NotificationsPage() {
                                 <div className="flex gap-4">
                                     {/* Thumbnail */}
                                     <div className="w-20 h-20 bg-muted rounded-lg overflow-hidden flex-shrink-0">
-                                        {notif.listing.images.length > 0 ? (
+                                        {notif.listing && notif.listing.images.length > 0 ? (
                                             <img
                                                 src={notif.listing.images[0]}
                                                 alt=""
@@ -153,19 +161,34 @@ export default function NotificationsPage() {
                                     <div className="flex-1 min-w-0">
                                         <div className="flex items-start justify-between gap-2">
                                             <h3 className="font-medium line-clamp-2">
-                                                {notif.listing.title}
+                                                {notif.listing?.title ?? notif.payload.title}
                                             </h3>
                                             {!notif.readAt && (
                                                 <div className="w-2 h-2 bg-primary rounded-full flex-shrink-0 mt-2" />
                                             )}
                                         </div>
 
-                                        <p className="text-lg font-bold text-primary mt-1">
-                                            {notif.listing.price
-                                                ? formatPrice(notif.listing.price, notif.listing.currency)
-                                                : 'Brak ceny'
-                                            }
-                                        </p>
+                                        {notif.listing ? (
+                                            <p className="text-lg font-bold text-primary mt-1">
+                                                {notif.listing.price
+                                                    ? formatPrice(notif.listing.price, notif.listing.currency)
+                                                    : 'Brak ceny'
+                                                }
+                                            </p>
+                                        ) : (
+                                            <p className="text-sm mt-1">{notif.payload.body}</p>
+                                        )}
+
+                                        {notif.payload.items && notif.payload.items.length > 0 && (
+                                            <ul className="text-sm text-muted-foreground mt-2 space-y-1 list-disc pl-4">
+                                                {notif.payload.items.map((item, i) => (
+                                                    <li key={i}>
+                                                        <span className="text-foreground">{item.title}</span>
+                                                        {item.body && ` – ${item.body}`}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
 
                                         <p className="text-sm text-muted-foreground mt-1">
                                             {formatRelativeTime(notif.createdAt)}
@@ -174,17 +197,19 @@ export default function NotificationsPage() {
 
                                     {/* Actions */}
                                     <div className="flex flex-col gap-2">
-                                        <Button
-                                            variant="default"
-                                            size="sm"
-                                            asChild
-                                        >
-                                            <a href={notif.listing.listingUrl} target="_blank" rel="noopener noreferrer">
-                                                <ExternalLink className="w-4 h-4" />
-                                            </a>
-                                        </Button>
-
-                                        {notif.listing.phone && (
+                                        {notif.listing && (
+                                            <Button
+                                                variant="default"
+                                                size="sm"
+                                                asChild
+                                            >
+                                                <a href={notif.listing.listingUrl} target="_blank" rel="noopener noreferrer">
+                                                    <ExternalLink className="w-4 h-4" />
+                                                </a>
+                                            </Button>
+                                        )}
+
+                                        {notif.listing?.phone && (
                                             <Button
                                                 variant="secondary"
                                                 size="sm"
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import {
     Search,
     Plus,
@@ -7,7 +7,8 @@ import {
     Trash2,
     Clock,
     X,
-    Edit
+    Edit,
+    History
 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -15,7 +16,8 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { searchConfigsApi, servicesApi } from '@/lib/api'
 import { useToast } from '@/hooks/use-toast'
-import { formatRelativeTime } from '@/lib/utils'
+import { formatDate, formatRelativeTime } from '@/lib/utils'
+import SearchRunHistory from '@/components/search-runs/SearchRunHistory'
 
 interface SearchConfig {
     id: string
@@ -24,7 +26,12 @@ interface SearchConfig {
     priceMin: number | null
     priceMax: number | null
     location: string | null
+    priceDropMinPercent: number | null
+    notifyOnRemoved: boolean
     intervalSeconds: number
+    quietHoursStart: string | null
+    quietHoursEnd: string | null
+    activeDays: number[]
     isActive: boolean
     lastRunAt: string | null
     nextRunAt: string | null
@@ -33,8 +40,24 @@ interface SearchConfig {
         name: string
         logoUrl: string | null
     }
+    // Computed by the server from the interval, quiet hours and active days
+    schedule: {
+        timezone: string
+        activeNow: boolean
+        nextRunAt: string | null
+    }
+}
+
+interface SearchRun {
+    jobId: string
+    state: 'waiting' | 'delayed' | 'active' | 'completed' | 'failed' | 'paused' | 'stuck'
+    progress: number
+    result: { newListingsCount: number; listingsCount: number } | null
+    error: string | null
 }
 
+const RUN_POLL_INTERVAL_MS = 2000
+
 interface Service {
     id: string
     name: string
@@ -48,9 +71,25 @@ interface FormData {
     priceMin: string
     priceMax: string
     location: string
+    priceDropMinPercent: string
+    notifyOnRemoved: boolean
     intervalMinutes: string
+    quietHoursStart: string
+    quietHoursEnd: string
+    activeDays: number[]
 }
 
+// ISO weekdays, 1 = Monday
+const WEEKDAYS = [
+    { value: 1, label: 'Pn' },
+    { value: 2, label: 'Wt' },
+    { value: 3, label: 'Śr' },
+    { value: 4, label: 'Cz' },
+    { value: 5, label: 'Pt' },
+    { value: 6, label: 'Sb' },
+    { value: 7, label: 'Nd' },
+]
+
 const defaultFormData: FormData = {
     name: '',
     serviceId: '',
@@ -58,7 +97,12 @@ const defaultFormData: FormData = {
     priceMin: '',
     priceMax: '',
     location: '',
-    intervalMinutes: '5'
+    priceDropMinPercent: '',
+    notifyOnRemoved: false,
+    intervalMinutes: '5',
+    quietHoursStart: '',
+    quietHoursEnd: '',
+    activeDays: []
 }
 
 export default function SearchConfigsPage() {
@@ -66,6 +110,11 @@ export default function SearchConfigsPage() {
     const [services, setServices] = useState<Service[]>([])
     const [loading, setLoading] = useState(true)
     const [actionLoading, setActionLoading] = useState<string | null>(null)
+    // Manual runs in progress, by search config ID
+    const [runs, setRuns] = useState<Record<string, SearchRun>>({})
+    const pollTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({})
+    // Search config whose run history is shown
+    const [historyConfigId, setHistoryConfigId] = useState<string | null>(null)
     const { toast } = useToast()
 
     // Modal state
@@ -78,6 +127,9 @@ export default function SearchConfigsPage() {
     useEffect(() => {
         loadConfigs()
         loadServices()
+
+        const timers = pollTimers.current
+        return () => Object.values(timers).forEach(clearTimeout)
     }, [])
 
     const loadConfigs = async () => {
@@ -120,16 +172,58 @@ export default function SearchConfigsPage() {
         }
     }
 
+    const finishRun = (id: string) => {
+        delete pollTimers.current[id]
+        setRuns(current => {
+            const { [id]: _, ...rest } = current
+            return rest
+        })
+    }
+
+    const pollRun = async (id: string, jobId: string) => {
+        try {
+            const response = await searchConfigsApi.runStatus(id, jobId)
+            const run: SearchRun = response.data.data
+            setRuns(current => ({ ...current, [id]: run }))
+
+            if (run.state === 'completed') {
+                finishRun(id)
+                toast({
+                    title: 'Wyszukiwanie zakończone',
+                    description: `Znaleziono ${run.result?.listingsCount ?? 0} ogłoszeń, nowych: ${run.result?.newListingsCount ?? 0}`,
+                    variant: 'success',
+                })
+                loadConfigs()
+                return
+            }
+
+            if (run.state === 'failed') {
+                finishRun(id)
+                toast({
+                    title: 'Wyszukiwanie nie powiodło się',
+                    description: run.error || undefined,
+                    variant: 'destructive',
+                })
+                return
+            }
+
+            pollTimers.current[id] = setTimeout(() => pollRun(id, jobId), RUN_POLL_INTERVAL_MS)
+        } catch (error) {
+            console.error('Failed to load search run status:', error)
+            finishRun(id)
+        }
+    }
+
     const handleRun = async (id: string) => {
         setActionLoading(id)
         try {
-            await searchConfigsApi.run(id)
-            toast({
-                title: 'Wyszukiwanie uruchomione',
-                description: 'Wyniki pojawią się wkrótce',
-                variant: 'success',
-            })
-            loadConfigs()
+            const response = await searchConfigsApi.run(id)
+            const { jobId } = response.data.data
+            setRuns(current => ({
+                ...current,
+                [id]: { jobId, state: 'waiting', progress: 0, result: null, error: null },
+            }))
+            pollRun(id, jobId)
         } catch (error: any) {
             toast({
                 title: 'Błąd',
@@ -178,7 +272,12 @@ export default function SearchConfigsPage() {
             priceMin: config.priceMin?.toString() || '',
             priceMax: config.priceMax?.toString() || '',
             location: config.location || '',
-            intervalMinutes: String(Math.round(config.intervalSeconds / 60))
+            priceDropMinPercent: config.priceDropMinPercent?.toString() || '',
+            notifyOnRemoved: config.notifyOnRemoved,
+            intervalMinutes: String(Math.round(config.intervalSeconds / 60)),
+            quietHoursStart: config.quietHoursStart || '',
+            quietHoursEnd: config.quietHoursEnd || '',
+            activeDays: config.activeDays
         })
         setFormError('')
         setShowModal(true)
@@ -208,13 +307,24 @@ export default function SearchConfigsPage() {
                 .map(k => k.trim())
                 .filter(k => k.length > 0)
 
+            if (!formData.quietHoursStart !== !formData.quietHoursEnd) {
+                setFormError('Podaj początek i koniec ciszy nocnej')
+                setFormLoading(false)
+                return
+            }
+
             const payload = {
                 name: formData.name,
                 keywords,
                 priceMin: formData.priceMin ? parseFloat(formData.priceMin) : null,
                 priceMax: formData.priceMax ? parseFloat(formData.priceMax) : null,
                 location: formData.location || null,
+                priceDropMinPercent: formData.priceDropMinPercent ? parseFloat(formData.priceDropMinPercent) : null,
+                notifyOnRemoved: formData.notifyOnRemoved,
                 intervalSeconds: (parseInt(formData.intervalMinutes) || 5) * 60,
+                quietHoursStart: formData.quietHoursStart || null,
+                quietHoursEnd: formData.quietHoursEnd || null,
+                activeDays: formData.activeDays,
             }
 
             if (editingConfig) {
@@ -333,7 +443,31 @@ export default function SearchConfigsPage() {
                                                         Ostatnio: {formatRelativeTime(config.lastRunAt)}
                                                     </span>
                                                 )}
+                                                {config.schedule.nextRunAt && (
+                                                    <span title={config.schedule.timezone}>
+                                                        Następnie: {formatDate(config.schedule.nextRunAt)}
+                                                    </span>
+                                                )}
+                                                {config.isActive && !config.schedule.activeNow && (
+                                                    <span>Poza godzinami wyszukiwania</span>
+                                                )}
                                             </div>
+
+                                            {runs[config.id] && (
+                                                <div className="mt-2 space-y-1">
+                                                    <div className="text-xs text-muted-foreground">
+                                                        {runs[config.id].state === 'active'
+                                                            ? `Wyszukiwanie w toku... ${runs[config.id].progress}%`
+                                                            : 'Oczekuje w kolejce...'}
+                                                    </div>
+                                                    <div className="h-1.5 w-full max-w-xs rounded bg-muted overflow-hidden">
+                                                        <div
+                                                            className="h-full bg-primary transition-all"
+                                                            style={{ width: `${runs[config.id].progress}%` }}
+                                                        />
+                                                    </div>
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
 
@@ -348,11 +482,20 @@ export default function SearchConfigsPage() {
                                             <Edit className="w-4 h-4" />
                                         </Button>
 
+                                        <Button
+                                            variant={historyConfigId === config.id ? 'secondary' : 'outline'}
+                                            size="sm"
+                                            onClick={() => setHistoryConfigId(historyConfigId === config.id ? null : config.id)}
+                                            title="Historia uruchomień"
+                                        >
+                                            <History className="w-4 h-4" />
+                                        </Button>
+
                                         <Button
                                             variant="outline"
                                             size="sm"
                                             onClick={() => handleRun(config.id)}
-                                            disabled={actionLoading === config.id || !config.isActive}
+                                            disabled={actionLoading === config.id || !config.isActive || !!runs[config.id]}
                                             title="Uruchom teraz"
                                         >
                                             <Play className="w-4 h-4" />
@@ -387,6 +530,17 @@ export default function SearchConfigsPage() {
                                         </Button>
                                     </div>
                                 </div>
+
+                                {historyConfigId === config.id && (
+                                    <div className="mt-4 border-t pt-4">
+                                        <h4 className="text-sm font-semibold mb-2">Historia uruchomień</h4>
+                                        {/* Reloaded when a manual run starts and ends */}
+                                        <SearchRunHistory
+                                            key={runs[config.id]?.jobId ?? 'idle'}
+                                            searchConfigId={config.id}
+                                        />
+                                    </div>
+                                )}
                             </CardContent>
                         </Card>
                     ))}
@@ -515,6 +669,29 @@ export default function SearchConfigsPage() {
                                     />
                                 </div>
 
+                                <div className="space-y-2">
+                                    <Label htmlFor="priceDropMinPercent">Powiadom o spadku ceny od (%)</Label>
+                                    <Input
+                                        id="priceDropMinPercent"
+                                        type="number"
+                                        min="0"
+                                        max="100"
+                                        step="0.5"
+                                        value={formData.priceDropMinPercent}
+                                        onChange={(e) => setFormData({ ...formData, priceDropMinPercent: e.target.value })}
+                                        placeholder="Każdy spadek"
+                                    />
+                                </div>
+
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.notifyOnRemoved}
+                                        onChange={(e) => setFormData({ ...formData, notifyOnRemoved: e.target.checked })}
+                                    />
+                                    Powiadom, gdy ogłoszenie zniknie (sprzedane lub usunięte)
+                                </label>
+
                                 <div className="space-y-2">
                                     <Label htmlFor="intervalMinutes">Częstotliwość sprawdzania</Label>
                                     <select
@@ -531,6 +708,52 @@ export default function SearchConfigsPage() {
                                     </select>
                                 </div>
 
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="quietHoursStart">Cisza od</Label>
+                                        <Input
+                                            id="quietHoursStart"
+                                            type="time"
+                                            value={formData.quietHoursStart}
+                                            onChange={(e) => setFormData({ ...formData, quietHoursStart: e.target.value })}
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="quietHoursEnd">Cisza do</Label>
+                                        <Input
+                                            id="quietHoursEnd"
+                                            type="time"
+                                            value={formData.quietHoursEnd}
+                                            onChange={(e) => setFormData({ ...formData, quietHoursEnd: e.target.value })}
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label>Dni wyszukiwania (brak wyboru = codziennie)</Label>
+                                    <div className="flex gap-1">
+                                        {WEEKDAYS.map(day => {
+                                            const selected = formData.activeDays.includes(day.value)
+                                            return (
+                                                <Button
+                                                    key={day.value}
+                                                    type="button"
+                                                    size="sm"
+                                                    variant={selected ? 'default' : 'outline'}
+                                                    onClick={() => setFormData({
+                                                        ...formData,
+                                                        activeDays: selected
+                                                            ? formData.activeDays.filter(d => d !== day.value)
+                                                            : [...formData.activeDays, day.value].sort((a, b) => a - b),
+                                                    })}
+                                                >
+                                                    {day.label}
+                                                </Button>
+                                            )
+                                        })}
+                                    </div>
+                                </div>
+
                                 <div className="flex gap-2 pt-4">
                                     <Button type="submit" disabled={formLoading} className="flex-1">
                                         {formLoading ? 'Zapisywanie...' : (editingConfig ? 'Zapisz zmiany' : 'Utwórz wyszukiwanie')}
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react'
-import { Globe, Check, Plus, ExternalLink } from 'lucide-react'
+import { Globe, Check, Plus, ExternalLink, AlertTriangle } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { servicesApi } from '@/lib/api'
@@ -14,6 +14,8 @@ interface Service {
 
 interface SubscribedService extends Service {
     hasCredentials: boolean
+    credentialsValid: boolean | null
+    credentialsError: string | null
     subscribedAt: string
 }
 
@@ -128,6 +130,15 @@ export default function ServicesPage() {
                                     </div>
                                 </CardHeader>
                                 <CardContent className="pt-0">
+                                    {service.credentialsValid === false && (
+                                        <div className="flex items-start gap-2 mb-3 text-xs text-destructive">
+                                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                                            <span>
+                                                Logowanie nie powiodło się. Zaktualizuj dane logowania.
+                                                {service.credentialsError && ` (${service.credentialsError})`}
+                                            </span>
+                                        </div>
+                                    )}
                                     <div className="flex gap-2">
                                         <Button
                                             variant="outline"
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import {
     User,
     Moon,
@@ -17,10 +17,30 @@ import { authApi } from '@/lib/api'
 import { useNavigate } from 'react-router-dom'
 
 export default function SettingsPage() {
-    const { user, refreshToken, logout } = useAuthStore()
+    const { user, refreshToken, logout, setUser } = useAuthStore()
     const [darkMode, setDarkMode] = useState(document.documentElement.classList.contains('dark'))
+    const [savingPreferences, setSavingPreferences] = useState(false)
     const navigate = useNavigate()
 
+    // Notification preferences aren't part of older stored sessions
+    useEffect(() => {
+        authApi.me()
+            .then(({ data }) => setUser(data.data))
+            .catch(err => console.error('Failed to load user:', err))
+    }, [])
+
+    const updatePreferences = async (data: { emailNotifications?: boolean; language?: 'pl' | 'en' }) => {
+        try {
+            setSavingPreferences(true)
+            const { data: response } = await authApi.updateMe(data)
+            setUser(response.data)
+        } catch (err) {
+            console.error('Failed to update preferences:', err)
+        } finally {
+            setSavingPreferences(false)
+        }
+    }
+
     const toggleDarkMode = () => {
         const newMode = !darkMode
         setDarkMode(newMode)
@@ -162,13 +182,35 @@ export default function SettingsPage() {
                         <div>
                             <p className="font-medium">Email</p>
                             <p className="text-sm text-muted-foreground">
-                                Codzienny raport na email
+                                Nowe ogłoszenia i spadki cen, a w planie Premium codzienny raport
                             </p>
                         </div>
-                        <Button variant="outline" size="sm">
-                            Wyłączony
+                        <Button
+                            variant={user?.emailNotifications ? 'default' : 'outline'}
+                            size="sm"
+                            disabled={savingPreferences}
+                            onClick={() => updatePreferences({ emailNotifications: !user?.emailNotifications })}
+                        >
+                            {user?.emailNotifications ? 'Włączony' : 'Wyłączony'}
                         </Button>
                     </div>
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <p className="font-medium">Język wiadomości email</p>
+                            <p className="text-sm text-muted-foreground">
+                                Język powiadomień i raportów wysyłanych na email
+                            </p>
+                        </div>
+                        <select
+                            value={user?.language ?? 'pl'}
+                            disabled={savingPreferences}
+                            onChange={(e) => updatePreferences({ language: e.target.value as 'pl' | 'en' })}
+                            className="px-3 py-2 border rounded-md bg-background text-sm"
+                        >
+                            <option value="pl">Polski</option>
+                            <option value="en">English</option>
+                        </select>
+                    </div>
                 </CardContent>
             </Card>
 
@@ -7,7 +7,8 @@ import {
     Settings,
     Crown,
     TrendingUp,
-    AlertCircle
+    AlertCircle,
+    Activity
 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { adminApi } from '@/lib/api'
@@ -15,7 +16,7 @@ import { adminApi } from '@/lib/api'
 interface DashboardStats {
     users: { total: number; active: number; premium: number }
     searchConfigs: { total: number; active: number }
-    listings: { total: number; today: number }
+    listings: { total: number; today: number; removed: number; avgDaysOnMarket: number | null }
     payments: { total: number; pending: number }
 }
 
@@ -130,6 +131,12 @@ export default function AdminDashboardPage() {
                         <p className="text-xs text-muted-foreground">
                             dzisiaj / {stats?.listings.total || 0} łącznie
                         </p>
+                        {!!stats?.listings.removed && (
+                            <p className="text-xs text-muted-foreground">
+                                {stats.listings.removed} nieaktualnych
+                                {stats.listings.avgDaysOnMarket !== null && `, śr. ${stats.listings.avgDaysOnMarket.toFixed(1)} dni online`}
+                            </p>
+                        )}
                     </CardContent>
                 </Card>
             </div>
@@ -251,6 +258,17 @@ export default function AdminDashboardPage() {
                         </div>
                     </CardContent>
                 </Card>
+
+                <Card className="cursor-pointer hover:bg-accent transition-colors"
+                    onClick={() => window.location.href = '/admin/search-runs'}>
+                    <CardContent className="flex items-center gap-4 p-6">
+                        <Activity className="h-6 w-6 text-orange-500" />
+                        <div>
+                            <h3 className="font-semibold">Uruchomienia wyszukiwań</h3>
+                            <p className="text-sm text-muted-foreground">Historia, błędy i zrzuty ekranu</p>
+                        </div>
+                    </CardContent>
+                </Card>
             </div>
         </div>
     )
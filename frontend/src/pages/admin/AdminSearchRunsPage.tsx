@@ -0,0 +1,259 @@
+import { Fragment, useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import {
+    Activity,
+    ArrowLeft,
+    ChevronLeft,
+    ChevronRight
+} from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { adminApi } from '@/lib/api'
+import SearchRunDetails, {
+    SearchRunStatusBadge,
+    formatDuration,
+    type SearchRun,
+    type SearchRunSummary
+} from '@/components/search-runs/SearchRunDetails'
+
+interface SearchConfigInfo {
+    searchConfig: {
+        id: string
+        name: string
+        user: { id: string; email: string }
+        service: { id: string; name: string }
+    }
+}
+
+interface Service {
+    id: string
+    name: string
+}
+
+interface Pagination {
+    page: number
+    limit: number
+    total: number
+    pages: number
+}
+
+export default function AdminSearchRunsPage() {
+    const [runs, setRuns] = useState<(SearchRunSummary & SearchConfigInfo)[]>([])
+    const [services, setServices] = useState<Service[]>([])
+    const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 20, total: 0, pages: 0 })
+    const [loading, setLoading] = useState(true)
+    const [statusFilter, setStatusFilter] = useState('')
+    const [serviceFilter, setServiceFilter] = useState('')
+    const [expanded, setExpanded] = useState<SearchRun | null>(null)
+
+    useEffect(() => {
+        adminApi.services.list()
+            .then(({ data }) => setServices(data.data))
+            .catch(err => console.error('Failed to load services:', err))
+    }, [])
+
+    useEffect(() => {
+        loadRuns()
+    }, [pagination.page, statusFilter, serviceFilter])
+
+    const loadRuns = async () => {
+        try {
+            setLoading(true)
+            const { data } = await adminApi.searchRuns.list({
+                page: pagination.page,
+                limit: pagination.limit,
+                status: statusFilter || undefined,
+                serviceId: serviceFilter || undefined
+            })
+            setRuns(data.data)
+            setPagination(data.pagination)
+        } catch (err) {
+            console.error('Failed to load search runs:', err)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const toggleRun = async (runId: string) => {
+        if (expanded?.id === runId) {
+            setExpanded(null)
+            return
+        }
+
+        try {
+            const { data } = await adminApi.searchRuns.get(runId)
+            setExpanded(data.data)
+        } catch (err) {
+            console.error('Failed to load search run:', err)
+        }
+    }
+
+    const loadScreenshot = async (index: number) => {
+        const { data } = await adminApi.searchRuns.screenshot(expanded!.id, index)
+        return data
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <Link to="/admin" className="text-muted-foreground hover:text-foreground">
+                        <ArrowLeft className="h-5 w-5" />
+                    </Link>
+                    <div>
+                        <h1 className="text-3xl font-bold flex items-center gap-2">
+                            <Activity className="h-8 w-8" />
+                            Uruchomienia wyszukiwań
+                        </h1>
+                        <p className="text-muted-foreground">
+                            {pagination.total} uruchomień w historii
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <Card>
+                <CardContent className="p-4">
+                    <div className="flex flex-wrap gap-4 items-center">
+                        <span className="text-sm font-medium">Filtruj:</span>
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => {
+                                setStatusFilter(e.target.value)
+                                setPagination(prev => ({ ...prev, page: 1 }))
+                            }}
+                            className="px-3 py-2 border rounded-md bg-background"
+                        >
+                            <option value="">Wszystkie statusy</option>
+                            <option value="RUNNING">W toku</option>
+                            <option value="SUCCESS">Zakończone</option>
+                            <option value="FAILED">Błędy</option>
+                        </select>
+                        <select
+                            value={serviceFilter}
+                            onChange={(e) => {
+                                setServiceFilter(e.target.value)
+                                setPagination(prev => ({ ...prev, page: 1 }))
+                            }}
+                            className="px-3 py-2 border rounded-md bg-background"
+                        >
+                            <option value="">Wszystkie serwisy</option>
+                            {services.map((service) => (
+                                <option key={service.id} value={service.id}>{service.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Runs Table */}
+            <Card>
+                <CardContent className="p-0">
+                    <div className="overflow-x-auto">
+                        <table className="w-full">
+                            <thead>
+                                <tr className="border-b bg-muted/50">
+                                    <th className="text-left p-4 font-medium">Start</th>
+                                    <th className="text-left p-4 font-medium">Wyszukiwanie</th>
+                                    <th className="text-left p-4 font-medium">Użytkownik</th>
+                                    <th className="text-left p-4 font-medium">Status</th>
+                                    <th className="text-left p-4 font-medium">Ogłoszenia</th>
+                                    <th className="text-left p-4 font-medium">Czas</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {loading ? (
+                                    <tr>
+                                        <td colSpan={6} className="text-center p-8">
+                                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                                        </td>
+                                    </tr>
+                                ) : runs.length === 0 ? (
+                                    <tr>
+                                        <td colSpan={6} className="text-center p-8 text-muted-foreground">
+                                            Brak uruchomień
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    runs.map((run) => (
+                                        <Fragment key={run.id}>
+                                            <tr
+                                                className="border-b hover:bg-muted/30 cursor-pointer"
+                                                onClick={() => toggleRun(run.id)}
+                                            >
+                                                <td className="p-4 text-sm text-muted-foreground">
+                                                    {new Date(run.startedAt).toLocaleDateString('pl-PL')}
+                                                    <div className="text-xs">
+                                                        {new Date(run.startedAt).toLocaleTimeString('pl-PL')}
+                                                    </div>
+                                                </td>
+                                                <td className="p-4">
+                                                    <div className="font-medium">{run.searchConfig.name}</div>
+                                                    <div className="text-sm text-muted-foreground">
+                                                        {run.searchConfig.service.name}
+                                                        {run.manual && ' • ręczne'}
+                                                        {run.attempt > 1 && ` • próba ${run.attempt}`}
+                                                    </div>
+                                                </td>
+                                                <td className="p-4 text-sm">{run.searchConfig.user.email}</td>
+                                                <td className="p-4">
+                                                    <SearchRunStatusBadge status={run.status} />
+                                                </td>
+                                                <td className="p-4 text-sm">
+                                                    {run.listingsExtracted} / {run.newListings} nowych
+                                                    {run.priceDrops > 0 && (
+                                                        <div className="text-xs text-muted-foreground">
+                                                            {run.priceDrops} obniżek cen
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td className="p-4 text-sm text-muted-foreground">
+                                                    {formatDuration(run.durationMs)}
+                                                </td>
+                                            </tr>
+                                            {expanded?.id === run.id && (
+                                                <tr className="border-b">
+                                                    <td colSpan={6} className="p-4 bg-muted/20">
+                                                        <SearchRunDetails run={expanded} loadScreenshot={loadScreenshot} />
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </Fragment>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {/* Pagination */}
+                    {pagination.pages > 1 && (
+                        <div className="flex items-center justify-between p-4 border-t">
+                            <div className="text-sm text-muted-foreground">
+                                Strona {pagination.page} z {pagination.pages}
+                            </div>
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={pagination.page <= 1}
+                                    onClick={() => setPagination(prev => ({ ...prev, page: prev.page - 1 }))}
+                                >
+                                    <ChevronLeft className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={pagination.page >= pagination.pages}
+                                    onClick={() => setPagination(prev => ({ ...prev, page: prev.page + 1 }))}
+                                >
+                                    <ChevronRight className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -8,6 +8,8 @@ interface User {
     tier: 'FREE' | 'PREMIUM'
     isAdmin: boolean
     emailVerified: boolean
+    emailNotifications: boolean
+    language: 'pl' | 'en'
     createdAt: string
 }
 
@@ -6,9 +6,9 @@ import {
     StyleSheet,
     RefreshControl,
     TouchableOpacity,
-    Image,
-    Linking
+    Image
 } from 'react-native';
+import { useRouter } from 'expo-router';
 import { listingsApi } from '../../src/lib/api';
 
 interface Listing {
@@ -27,6 +27,7 @@ export default function ListingsScreen() {
     const [listings, setListings] = useState<Listing[]>([]);
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
+    const router = useRouter();
 
     const loadListings = useCallback(async () => {
         try {
@@ -49,8 +50,8 @@ export default function ListingsScreen() {
         loadListings();
     };
 
-    const openListing = (url: string) => {
-        Linking.openURL(url);
+    const openListing = (id: string) => {
+        router.push(`/listing/${id}`);
     };
 
     const formatPrice = (price: number | null, currency: string) => {
@@ -73,7 +74,7 @@ export default function ListingsScreen() {
     const renderItem = ({ item }: { item: Listing }) => (
         <TouchableOpacity
             style={styles.card}
-            onPress={() => openListing(item.listingUrl)}
+            onPress={() => openListing(item.id)}
             activeOpacity={0.7}
         >
             <View style={styles.imageContainer}>
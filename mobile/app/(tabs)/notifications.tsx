@@ -15,13 +15,19 @@ interface Notification {
     status: string;
     readAt: string | null;
     createdAt: string;
+    payload: {
+        type: string;
+        title: string;
+        body: string;
+    };
+    // null for system notifications that aren't about a listing
     listing: {
         id: string;
         title: string;
         price: number | null;
         currency: string;
         listingUrl: string;
-    };
+    } | null;
 }
 
 export default function NotificationsScreen() {
@@ -92,17 +98,21 @@ export default function NotificationsScreen() {
             <View style={styles.content}>
                 <View style={styles.header}>
                     <Text style={styles.title} numberOfLines={2}>
-                        {item.listing.title}
+                        {item.listing?.title ?? item.payload.title}
                     </Text>
                     {!item.readAt && <View style={styles.dot} />}
                 </View>
 
-                <Text style={styles.price}>
-                    {item.listing.price
-                        ? `${item.listing.price.toLocaleString('pl-PL')} ${item.listing.currency}`
-                        : 'Brak ceny'
-                    }
-                </Text>
+                {item.listing ? (
+                    <Text style={styles.price}>
+                        {item.listing.price
+                            ? `${item.listing.price.toLocaleString('pl-PL')} ${item.listing.currency}`
+                            : 'Brak ceny'
+                        }
+                    </Text>
+                ) : (
+                    <Text>{item.payload.body}</Text>
+                )}
 
                 <Text style={styles.time}>{formatTime(item.createdAt)}</Text>
             </View>
@@ -38,7 +38,10 @@ export default function RootLayout() {
                 }}
             >
                 {isAuthenticated ? (
-                    <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                    <>
+                        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                        <Stack.Screen name="listing/[id]" options={{ title: 'Ogłoszenie' }} />
+                    </>
                 ) : (
                     <Stack.Screen name="(auth)" options={{ headerShown: false }} />
                 )}
@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react';
+import {
+    View,
+    Text,
+    ScrollView,
+    StyleSheet,
+    TouchableOpacity,
+    Image,
+    Linking
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { listingsApi } from '../../src/lib/api';
+
+interface Listing {
+    id: string;
+    title: string;
+    description: string | null;
+    price: number | null;
+    currency: string;
+    location: string | null;
+    phone: string | null;
+    listingUrl: string;
+    images: string[];
+    detectedAt: string;
+    service: { name: string };
+}
+
+interface PricePoint {
+    price: number;
+    currency: string;
+    observedAt: string;
+}
+
+const CHART_HEIGHT = 120;
+// Bars that still fit on a phone screen
+const MAX_CHART_POINTS = 12;
+
+export default function ListingScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const [listing, setListing] = useState<Listing | null>(null);
+    const [history, setHistory] = useState<PricePoint[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const [listingRes, historyRes] = await Promise.all([
+                    listingsApi.get(id),
+                    listingsApi.history(id),
+                ]);
+                setListing(listingRes.data.data);
+                setHistory(historyRes.data.data);
+            } catch (error) {
+                console.error('Failed to load listing:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        load();
+    }, [id]);
+
+    const formatPrice = (price: number | null, currency: string) => {
+        if (!price) return 'Brak ceny';
+        return `${price.toLocaleString('pl-PL')} ${currency}`;
+    };
+
+    const formatDate = (date: string) =>
+        new Date(date).toLocaleDateString('pl-PL', { day: 'numeric', month: 'short' });
+
+    if (loading || !listing) {
+        return (
+            <View style={styles.center}>
+                <Text style={styles.loadingText}>{loading ? 'Ładowanie...' : 'Nie znaleziono ogłoszenia'}</Text>
+            </View>
+        );
+    }
+
+    const chartPoints = history.slice(-MAX_CHART_POINTS);
+    const prices = chartPoints.map(point => point.price);
+    const minPrice = Math.min(...prices);
+    const maxPrice = Math.max(...prices);
+    // Bars start at 20% height so the lowest price stays visible
+    const barHeight = (price: number) =>
+        maxPrice === minPrice
+            ? CHART_HEIGHT
+            : CHART_HEIGHT * (0.2 + 0.8 * (price - minPrice) / (maxPrice - minPrice));
+
+    return (
+        <ScrollView style={styles.container} contentContainerStyle={styles.scroll}>
+            {listing.images.length > 0 && (
+                <Image source={{ uri: listing.images[0] }} style={styles.image} />
+            )}
+
+            <View style={styles.content}>
+                <Text style={styles.service}>{listing.service.name}</Text>
+                <Text style={styles.title}>{listing.title}</Text>
+                <Text style={styles.price}>{formatPrice(listing.price, listing.currency)}</Text>
+                {listing.location && (
+                    <Text style={styles.metaText}>📍 {listing.location}</Text>
+                )}
+
+                <Text style={styles.sectionTitle}>Historia cen</Text>
+                {chartPoints.length > 0 ? (
+                    <View style={styles.chart}>
+                        {chartPoints.map((point) => (
+                            <View key={point.observedAt} style={styles.barColumn}>
+                                <Text style={styles.barLabel} numberOfLines={1}>
+                                    {Math.round(point.price / 1000)}k
+                                </Text>
+                                <View style={[styles.bar, { height: barHeight(point.price) }]} />
+                                <Text style={styles.barLabel} numberOfLines={1}>
+                                    {formatDate(point.observedAt)}
+                                </Text>
+                            </View>
+                        ))}
+                    </View>
+                ) : (
+                    <Text style={styles.metaText}>Brak historii cen</Text>
+                )}
+
+                {listing.description && (
+                    <>
+                        <Text style={styles.sectionTitle}>Opis</Text>
+                        <Text style={styles.description}>{listing.description}</Text>
+                    </>
+                )}
+
+                <TouchableOpacity
+                    style={styles.button}
+                    onPress={() => Linking.openURL(listing.listingUrl)}
+                >
+                    <Text style={styles.buttonText}>Otwórz ogłoszenie</Text>
+                </TouchableOpacity>
+
+                {listing.phone && (
+                    <TouchableOpacity
+                        style={[styles.button, styles.buttonSecondary]}
+                        onPress={() => Linking.openURL(`tel:${listing.phone}`)}
+                    >
+                        <Text style={styles.buttonText}>📞 {listing.phone}</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#111827',
+    },
+    scroll: {
+        paddingBottom: 32,
+    },
+    image: {
+        width: '100%',
+        height: 220,
+        backgroundColor: '#374151',
+    },
+    content: {
+        padding: 16,
+    },
+    service: {
+        color: '#9ca3af',
+        fontSize: 13,
+        marginBottom: 4,
+    },
+    title: {
+        color: '#fff',
+        fontSize: 18,
+        fontWeight: '600',
+        marginBottom: 8,
+    },
+    price: {
+        color: '#22c55e',
+        fontSize: 24,
+        fontWeight: '700',
+        marginBottom: 8,
+    },
+    metaText: {
+        color: '#9ca3af',
+        fontSize: 13,
+    },
+    sectionTitle: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '600',
+        marginTop: 24,
+        marginBottom: 12,
+    },
+    chart: {
+        flexDirection: 'row',
+        alignItems: 'flex-end',
+        gap: 8,
+        backgroundColor: '#1f2937',
+        borderRadius: 12,
+        padding: 12,
+    },
+    barColumn: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'flex-end',
+        gap: 4,
+    },
+    bar: {
+        width: '100%',
+        maxWidth: 32,
+        backgroundColor: '#22c55e',
+        borderRadius: 4,
+    },
+    barLabel: {
+        color: '#9ca3af',
+        fontSize: 11,
+    },
+    description: {
+        color: '#d1d5db',
+        fontSize: 14,
+        lineHeight: 20,
+    },
+    button: {
+        backgroundColor: '#22c55e',
+        borderRadius: 8,
+        paddingVertical: 12,
+        alignItems: 'center',
+        marginTop: 24,
+    },
+    buttonSecondary: {
+        backgroundColor: '#374151',
+        marginTop: 12,
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    center: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: '#111827',
+    },
+    loadingText: {
+        color: '#9ca3af',
+        fontSize: 16,
+    },
+});
@@ -74,6 +74,7 @@ export const listingsApi = {
     list: (params?: { page?: number; limit?: number }) =>
         api.get('/listings', { params }),
     get: (id: string) => api.get(`/listings/${id}`),
+    history: (id: string) => api.get(`/listings/${id}/history`),
 };
 
 export const notificationsApi = {